@@ -0,0 +1,70 @@
+import { basename } from "node:path"
+import { AppStateService } from "../../services/app-state-service.js"
+import type { WorktreeService } from "../../services/index.js"
+import type { GitWorktree } from "../../types/index.js"
+import { fuzzyMatchRank, ValidationError } from "../../utils/index.js"
+import type { CliArgs } from "../types.js"
+
+/**
+ * Print the path of the worktree matching `<name>` (or the previous one for `-`)
+ * on stdout. The shell wrapper routes `cd` and `switch` here and changes into it.
+ */
+export async function runCd(
+  args: CliArgs,
+  worktreeService: WorktreeService,
+  appStateService: AppStateService = new AppStateService()
+): Promise<void> {
+  const [query] = args.positionals ?? []
+  if (!query) {
+    throw new ValidationError(
+      "Missing worktree name; use 'branchlet cd <name>' or 'branchlet cd -'",
+      "name"
+    )
+  }
+
+  const worktrees = await worktreeService.getGitService().listWorktrees({ fast: true })
+  await appStateService.load()
+
+  let target: GitWorktree | undefined
+  if (query === "-") {
+    target = appStateService.getPreviousWorktree(worktrees)
+    if (!target) {
+      throw new ValidationError("No previously visited worktree to return to", "name")
+    }
+  } else {
+    target = findWorktree(worktrees, query)
+  }
+
+  appStateService.recordWorktreeVisit(worktrees, target.path)
+  await appStateService.save()
+
+  console.log(target.path)
+}
+
+/**
+ * Pick the worktree whose directory name or branch best matches `query`.
+ * Several worktrees matching equally well is an error rather than a guess.
+ */
+function findWorktree(worktrees: GitWorktree[], query: string): GitWorktree {
+  const ranked = worktrees
+    .map((worktree) => {
+      const ranks = [basename(worktree.path), worktree.branch]
+        .map((text) => fuzzyMatchRank(query, text))
+        .filter((rank) => rank !== null)
+      return { worktree, rank: ranks.length > 0 ? Math.min(...ranks) : null }
+    })
+    .filter((match) => match.rank !== null)
+
+  const bestRank = Math.min(...ranked.map((match) => match.rank ?? Number.POSITIVE_INFINITY))
+  const best = ranked.filter((match) => match.rank === bestRank)
+  const [first] = best
+
+  if (!first) {
+    throw new ValidationError(`No worktree matches '${query}'`, "name")
+  }
+  if (best.length > 1) {
+    const names = best.map((match) => basename(match.worktree.path)).join(", ")
+    throw new ValidationError(`'${query}' matches several worktrees: ${names}`, "name")
+  }
+  return first.worktree
+}
@@ -0,0 +1,65 @@
+import { basename } from "node:path"
+import { DEFAULT_CONFIG } from "../../constants/index.js"
+import type { WorktreeService } from "../../services/index.js"
+import { ValidationError } from "../../utils/index.js"
+import type { CliArgs } from "../types.js"
+
+/** Value lists the generated shell completion scripts can ask for */
+export const COMPLETION_CONTEXTS = [
+  "worktrees",
+  "worktree-paths",
+  "branches",
+  "config-keys",
+  "profiles",
+]
+
+/**
+ * Print the candidates for one completion context, one per line. Called by the
+ * shell scripts as `branchlet __complete <context>`, which discard stderr.
+ */
+export async function runComplete(args: CliArgs, worktreeService: WorktreeService): Promise<void> {
+  const [context] = args.positionals ?? []
+  const candidates = await listCandidates(context, worktreeService)
+  if (candidates.length > 0) {
+    console.log(candidates.join("\n"))
+  }
+}
+
+async function listCandidates(
+  context: string | undefined,
+  worktreeService: WorktreeService
+): Promise<string[]> {
+  const gitService = worktreeService.getGitService()
+
+  switch (context) {
+    case "worktrees": {
+      const worktrees = await gitService.listWorktrees({ fast: true })
+      return worktrees.map((worktree) => basename(worktree.path))
+    }
+    case "worktree-paths": {
+      const worktrees = await gitService.listWorktrees({ fast: true })
+      return worktrees.map((worktree) => worktree.path)
+    }
+    case "branches": {
+      // listBranches hides origin/<name> when <name> exists locally; offer both
+      const [branches, remoteBranches] = await Promise.all([
+        gitService.listBranches(),
+        gitService.listRemoteBranches(),
+      ])
+      return [...new Set([...branches, ...remoteBranches].map((branch) => branch.name))]
+    }
+    case "config-keys":
+      return Object.keys(DEFAULT_CONFIG)
+    case "profiles": {
+      // The only context that reads config; load errors go to the discarded stderr
+      const configService = worktreeService.getConfigService()
+      await configService.loadConfig(gitService.getGitRoot())
+      return configService.getProfileNames()
+    }
+    default:
+      throw new ValidationError(
+        `Unknown completion context '${context ?? ""}'. Use one of: ${COMPLETION_CONTEXTS.join(", ")}`,
+        "context"
+      )
+  }
+}
@@ -0,0 +1,247 @@
+import { CONFIG_ENV_PREFIX, CONFIG_INHERIT_MARKER, DEFAULT_CONFIG } from "../../constants/index.js"
+import { validateConfig, type WorktreeConfig } from "../../schemas/config-schema.js"
+import { isConfigKey, parseConfigValue } from "../../services/config-service.js"
+import type { ConfigService, WorktreeService } from "../../services/index.js"
+import type {
+  ConfigExplanation,
+  ConfigFileContent,
+  ConfigLayer,
+  ConfigLayerValidation,
+  ConfigScope,
+} from "../../types/index.js"
+import { ConfigError, ValidationError } from "../../utils/index.js"
+import { formatTable } from "../format.js"
+import type { CliArgs } from "../types.js"
+
+const CONFIG_ACTIONS = ["list", "get", "set", "unset", "add", "remove", "validate", "explain"]
+
+export async function runConfig(args: CliArgs, worktreeService: WorktreeService): Promise<void> {
+  const scopes = (["global", "repo", "local"] as const).filter((scope) => args[scope])
+  if (scopes.length > 1) {
+    throw new ValidationError(
+      `Cannot combine ${scopes.map((scope) => `--${scope}`).join(" with ")}`,
+      "scope"
+    )
+  }
+  const scope: ConfigScope | undefined = scopes[0]
+
+  const [action = args.explain ? "explain" : "list", ...rest] = args.positionals ?? []
+  const configService = worktreeService.getConfigService()
+
+  switch (action) {
+    case "explain": {
+      await configService.loadConfig()
+      const explanation = configService.explainConfig()
+      console.log(args.json ? JSON.stringify(explanation, null, 2) : formatExplanation(explanation))
+      return
+    }
+
+    case "list": {
+      const values = scope
+        ? await configService.readConfigFile(await configService.getScopePath(scope))
+        : await configService.loadConfig()
+      if (args.json) {
+        console.log(JSON.stringify(values, null, 2))
+      } else {
+        const rows = Object.entries(values)
+          .filter(([key]) => isConfigKey(key))
+          .map(([key, value]) => [key, JSON.stringify(value)])
+        console.log(formatTable(rows))
+      }
+      return
+    }
+
+    case "get": {
+      const key = requireKey(rest[0])
+      let value: unknown
+      if (scope) {
+        const path = await configService.getScopePath(scope)
+        value = (await configService.readConfigFile(path))[key]
+        if (value === undefined) {
+          throw new ValidationError(`'${key}' is not set in ${path}`, "key")
+        }
+      } else {
+        value = (await configService.loadConfig())[key]
+      }
+      console.log(typeof value === "string" && !args.json ? value : JSON.stringify(value))
+      return
+    }
+
+    case "set": {
+      const key = requireKey(rest[0])
+      const value = parseSetValue(key, rest.slice(1))
+      await updateConfigFile(configService, scope, key, () => value)
+      return
+    }
+
+    case "unset": {
+      const key = requireKey(rest[0])
+      await updateConfigFile(configService, scope, key, () => undefined)
+      return
+    }
+
+    case "add": {
+      const key = requireListKey(rest[0])
+      const items = requireItems(rest.slice(1))
+      await updateConfigFile(configService, scope, key, (current) => {
+        // Adding to a key the file doesn't set extends the inherited list
+        const list = Array.isArray(current) ? [...current] : [CONFIG_INHERIT_MARKER]
+        for (const item of items) {
+          if (!list.includes(item)) list.push(item)
+        }
+        return list
+      })
+      return
+    }
+
+    case "remove": {
+      const key = requireListKey(rest[0])
+      const items = requireItems(rest.slice(1))
+      await updateConfigFile(configService, scope, key, (current, path) => {
+        const list = Array.isArray(current) ? current : []
+        const missing = items.find((item) => !list.includes(item))
+        if (missing !== undefined) {
+          throw new ValidationError(`'${missing}' is not in ${key} in ${path}`, "value")
+        }
+        return list.filter((item) => !items.includes(item))
+      })
+      return
+    }
+
+    case "validate": {
+      const results = await configService.validateLayers()
+      if (args.json) {
+        console.log(JSON.stringify(results, null, 2))
+      } else {
+        console.log(formatTable(results.map((result) => [result.name, describeValidation(result)])))
+      }
+
+      const invalid = results.filter((result) => result.error !== undefined)
+      if (invalid.length > 0) {
+        throw new ConfigError(`${invalid.length} config layer(s) are invalid`, invalid[0]?.path)
+      }
+      return
+    }
+
+    default:
+      throw new ValidationError(
+        `Unknown config action '${action}'. Use one of: ${CONFIG_ACTIONS.join(", ")}`,
+        "action"
+      )
+  }
+}
+
+/**
+ * Read the scoped config file, replace one key with the result of `update`
+ * (undefined removes it), validate and save. Prints the key's new value.
+ */
+async function updateConfigFile(
+  configService: ConfigService,
+  scope: ConfigScope | undefined,
+  key: keyof WorktreeConfig,
+  update: (current: unknown, path: string) => unknown
+): Promise<void> {
+  const path = await configService.getScopePath(scope)
+  const content: Record<string, unknown> = await configService.readConfigFile(path)
+
+  const value = update(content[key], path)
+  if (value === undefined) {
+    delete content[key]
+  } else {
+    content[key] = value
+  }
+
+  const validation = validateConfig(content)
+  if (!validation.success) {
+    throw new ValidationError(`Invalid value: ${validation.error}`, "value")
+  }
+
+  await configService.saveConfig(content as ConfigFileContent, path)
+  console.log(`${key}: ${value === undefined ? "unset" : JSON.stringify(value)} (${path})`)
+}
+
+function requireKey(key: string | undefined): keyof WorktreeConfig {
+  if (!key) {
+    throw new ValidationError("Missing config key", "key")
+  }
+  if (!isConfigKey(key)) {
+    throw new ValidationError(
+      `Unknown config key '${key}'. Valid keys: ${Object.keys(DEFAULT_CONFIG).join(", ")}`,
+      "key"
+    )
+  }
+  return key
+}
+
+function requireListKey(key: string | undefined): keyof WorktreeConfig {
+  const configKey = requireKey(key)
+  if (!Array.isArray(DEFAULT_CONFIG[configKey])) {
+    throw new ValidationError(`'${configKey}' is not a list; use set instead`, "key")
+  }
+  return configKey
+}
+
+function requireItems(items: string[]): string[] {
+  if (items.length === 0) {
+    throw new ValidationError("Missing value", "value")
+  }
+  return items
+}
+
+function parseSetValue(key: keyof WorktreeConfig, values: string[]): unknown {
+  const [first] = values
+  if (first === undefined) {
+    throw new ValidationError("Missing value", "value")
+  }
+
+  // Several arguments for a list key are taken as the list items
+  if (values.length > 1) {
+    if (!Array.isArray(DEFAULT_CONFIG[key])) {
+      throw new ValidationError(
+        `'${key}' takes a single value; quote values containing spaces`,
+        "value"
+      )
+    }
+    return values
+  }
+
+  const parsed = parseConfigValue(key, first)
+  if (!parsed.success) {
+    throw new ValidationError(`Invalid value for ${key}: ${parsed.error}`, "value")
+  }
+  return parsed.value
+}
+
+function formatExplanation({ layers, values }: ConfigExplanation): string {
+  const layerRows = layers.map((layer) => [`  ${layer.name}`, describeLayer(layer)])
+  const valueRows = values.map(({ key, value, sources }) => [
+    key,
+    JSON.stringify(value),
+    sources.join(" + "),
+  ])
+
+  return [
+    "Layers (lowest to highest precedence):",
+    formatTable(layerRows),
+    "",
+    formatTable([["KEY", "VALUE", "SOURCE"], ...valueRows]),
+  ].join("\n")
+}
+
+function describeLayer(layer: ConfigLayer): string {
+  switch (layer.name) {
+    case "default":
+      return "built-in defaults"
+    case "env":
+      return `${CONFIG_ENV_PREFIX}* environment variables${layer.found ? "" : " (none set)"}`
+    default:
+      return `${layer.path}${layer.found ? "" : " (not found)"}`
+  }
+}
+
+function describeValidation(result: ConfigLayerValidation): string {
+  const source = result.path ?? `${CONFIG_ENV_PREFIX}* environment variables`
+  if (result.error !== undefined) return `${source}: ${result.error}`
+  if (result.found) return `${source} (ok)`
+  return `${source} (${result.name === "env" ? "none set" : "not found"})`
+}
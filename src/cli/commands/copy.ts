@@ -0,0 +1,44 @@
+import { COPY_MANIFEST_FILE_NAME } from "../../constants/index.js"
+import type { WorktreeService } from "../../services/index.js"
+import type { CopyPreview } from "../../types/index.js"
+import { formatSize, ValidationError } from "../../utils/index.js"
+import { formatTable } from "../format.js"
+import type { CliArgs } from "../types.js"
+
+export async function runCopy(args: CliArgs, worktreeService: WorktreeService): Promise<void> {
+  if (!args.dryRun) {
+    throw new ValidationError(
+      "copy only previews; pass --dry-run. Files are copied when a worktree is created",
+      "dry-run"
+    )
+  }
+
+  const preview = await worktreeService.previewCopy()
+  console.log(args.json ? JSON.stringify(preview, null, 2) : formatPreview(preview))
+}
+
+function formatPreview({ files, excluded, totalSize }: CopyPreview): string {
+  const lines =
+    files.length === 0
+      ? [`No files match worktreeCopyPatterns or ${COPY_MANIFEST_FILE_NAME}`]
+      : [
+          formatTable([
+            ["PATH", "SIZE", "STRATEGY", "PATTERN"],
+            ...files.map((file) => [file.path, formatSize(file.size), file.strategy, file.pattern]),
+          ]),
+          "",
+          `${files.length} file(s), ${formatSize(totalSize)}`,
+        ]
+
+  const byIgnore = new Map<string, string[]>()
+  for (const exclusion of excluded) {
+    const paths = byIgnore.get(exclusion.ignore) ?? []
+    paths.push(`  ${exclusion.path} (${exclusion.pattern})`)
+    byIgnore.set(exclusion.ignore, paths)
+  }
+  for (const [ignore, paths] of byIgnore) {
+    lines.push("", `Excluded by ${ignore}:`, ...paths)
+  }
+
+  return lines.join("\n")
+}
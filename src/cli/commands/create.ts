@@ -1,67 +1,242 @@
 import { dirname } from "node:path"
+import type { WorktreeConfig } from "../../schemas/config-schema.js"
 import type { WorktreeService } from "../../services/index.js"
 import {
+  getDerivedBranchVariables,
+  getPromptedBranchVariables,
+  parseVariableAssignments,
+  renderBranchName,
+  validateBranchNameConvention,
+} from "../../utils/branch-name.js"
+import { PostCreateCommandError, ValidationError } from "../../utils/error-handlers.js"
+import {
+  getRepositoryBaseName,
   getWorktreePath,
+  parsePullRequestNumber,
   validateBranchName,
   validateDirectoryName,
 } from "../../utils/path-utils.js"
+import { applyBranchPrefix, resolveProfileSourceBranch } from "../../utils/worktree-profile.js"
+import { createCommandOutputWriter } from "../format.js"
 import type { CliArgs } from "../types.js"
 
 export async function runCreate(args: CliArgs, worktreeService: WorktreeService): Promise<void> {
-  if (!args.name) {
-    throw new Error("Missing required argument: --name (-n)")
+  const prNumber = args.pr !== undefined ? parsePullRequestNumber(args.pr) : null
+  if (args.pr !== undefined && prNumber === null) {
+    throw new ValidationError(`Invalid pull request number: ${args.pr}`, "pr")
+  }
+  if (prNumber !== null && args.source) {
+    throw new ValidationError("Cannot combine --pr with --source (-s)", "pr")
+  }
+
+  // Pull request worktrees default their directory to pr-<n>
+  const name = args.name ?? (prNumber !== null ? `pr-${prNumber}` : undefined)
+
+  if (!name) {
+    throw new ValidationError("Missing required argument: --name (-n)", "name")
   }
-  if (!args.source) {
-    throw new Error("Missing required argument: --source (-s)")
+
+  const configService = worktreeService.getConfigService()
+  const profile = args.profile !== undefined ? configService.getProfile(args.profile) : undefined
+  const config =
+    args.profile !== undefined
+      ? configService.getProfileConfig(args.profile)
+      : configService.getConfig()
+  const gitService = worktreeService.getGitService()
+
+  if (!args.source && prNumber === null && !profile?.sourceBranch) {
+    throw new ValidationError("Missing required argument: --source (-s)", "source")
   }
 
-  const dirError = validateDirectoryName(args.name)
+  const dirError = validateDirectoryName(name)
   if (dirError) {
-    throw new Error(`Invalid directory name: ${dirError}`)
+    throw new ValidationError(`Invalid directory name: ${dirError}`, "name")
   }
 
   if (args.branch !== undefined && !args.branch.trim()) {
-    throw new Error("Branch name cannot be empty")
+    throw new ValidationError("Branch name cannot be empty", "branch")
   }
 
   if (args.branch) {
     const branchError = validateBranchName(args.branch)
     if (branchError) {
-      throw new Error(`Invalid branch name: ${branchError}`)
+      throw new ValidationError(`Invalid branch name: ${branchError}`, "branch")
     }
   }
 
-  const config = worktreeService.getConfigService().getConfig()
-  const gitService = worktreeService.getGitService()
-
-  const allBranches = await gitService.listBranches()
-  const sourceBranchEntry = allBranches.find((b) => b.name === args.source)
-  if (!sourceBranchEntry) {
-    throw new Error(`Source branch '${args.source}' does not exist`)
+  const { variables, invalid } = parseVariableAssignments(args.vars ?? [])
+  if (invalid.length > 0) {
+    throw new ValidationError(
+      `Invalid --var '${invalid[0]}': expected NAME=value with an upper-case name`,
+      "var"
+    )
   }
 
-  // When --branch is omitted, default to the worktree directory name so a fresh
-  // branch is always created (avoids conflicts when the source branch is already
-  // checked out in another worktree).
-  const newBranch = args.branch ?? args.name
+  let source: string
+  let sourceLabel: string
+  let newBranch: string
+  let upstream: string | undefined
+  let reused = false
+
+  if (prNumber !== null) {
+    // Fetch the PR head into a local branch and check that branch out directly
+    source = args.branch ?? `pr-${prNumber}`
+    sourceLabel = `pull request #${prNumber} (${config.pullRequestRemote})`
+    await gitService.fetchPullRequest(prNumber, config.pullRequestRemote, source)
+    newBranch = source
+  } else {
+    const allBranches = await gitService.listBranches()
+
+    if (args.source) {
+      source = args.source
+    } else {
+      const pattern = profile?.sourceBranch as string
+      const resolved = resolveProfileSourceBranch(pattern, [
+        ...allBranches,
+        ...(await gitService.listRemoteBranches()),
+      ])
+      if (!resolved) {
+        throw new ValidationError(
+          `No branch matches '${pattern}', the source branch of profile '${args.profile}'`,
+          "source"
+        )
+      }
+      source = resolved
+    }
+    sourceLabel = source
+
+    // listBranches hides origin/* refs that have a local counterpart, so fall
+    // back to the full remote list before rejecting the source
+    const sourceBranchEntry =
+      allBranches.find((b) => b.name === source) ??
+      (await gitService.listRemoteBranches()).find((b) => b.name === source)
+    if (!sourceBranchEntry) {
+      throw new ValidationError(`Source branch '${source}' does not exist`, "source")
+    }
+
+    const localName = sourceBranchEntry.isRemote ? sourceBranchEntry.localName : undefined
+
+    if (localName && args.branch === undefined && args.source) {
+      // Remote sources get a local branch of the same short name tracking the remote.
+      // A source picked by the profile is only a base, so it gets a fresh branch below
+      if (await gitService.branchExists(localName)) {
+        if (!args.reuseLocal) {
+          throw new ValidationError(
+            `Local branch '${localName}' already exists. Pass --reuse-local to check it out, or --branch (-b) to create a new tracking branch`,
+            "branch"
+          )
+        }
+        source = localName
+        reused = true
+      } else {
+        upstream = sourceBranchEntry.name
+      }
+      newBranch = localName
+    } else {
+      // When --branch is omitted, default to branchNameTemplate or the worktree
+      // directory name so a fresh branch is always created (avoids conflicts when
+      // the source branch is already checked out in another worktree).
+      newBranch = applyBranchPrefix(
+        args.branch ?? suggestBranchName(config, name, source, gitService.getGitRoot(), variables),
+        profile?.branchPrefix
+      )
+      const branchError = validateBranchNameConvention(newBranch, config.branchNamePattern)
+      if (branchError) {
+        throw new ValidationError(`Invalid branch name '${newBranch}': ${branchError}`, "branch")
+      }
+      if (localName) {
+        upstream = sourceBranchEntry.name
+      }
+    }
+  }
 
   const worktreePath = getWorktreePath(
     gitService.getGitRoot(),
-    args.name,
+    name,
     config.worktreePathTemplate,
     newBranch,
-    args.source
+    source
   )
   const basePath = dirname(worktreePath)
 
-  await worktreeService.createWorktree({
-    name: args.name,
-    sourceBranch: args.source,
-    newBranch,
-    basePath,
-  })
+  // Post-create output streams to stderr so stdout stays parseable
+  const output = createCommandOutputWriter((text) => process.stderr.write(text))
+  const result = await worktreeService.createWorktree(
+    {
+      name,
+      sourceBranch: source,
+      newBranch,
+      basePath,
+      track: upstream !== undefined,
+      ...(args.profile !== undefined && { profile: args.profile }),
+    },
+    {
+      onProgress: (command, index) => output.writeLine(index - 1, `$ ${command}`),
+      onOutput: (chunk, _command, index) => output.write(chunk, index),
+    }
+  )
+  output.flush()
 
   console.log(worktreePath)
-  console.log(`  source: ${args.source}`)
+  console.log(`  source: ${sourceLabel}`)
   console.log(`  branch: ${newBranch}`)
+  if (args.profile !== undefined) {
+    console.log(`  profile: ${args.profile}`)
+  }
+  if (upstream) {
+    console.log(`  upstream: ${upstream}`)
+  } else if (reused) {
+    console.log("  reused existing local branch")
+  }
+  if (result.postCreateLogPath) {
+    console.log(`  log: ${result.postCreateLogPath}`)
+  }
+
+  // The worktree stays in place; a non-zero exit tells scripts its setup is incomplete
+  const failures = (result.postCreateResults ?? []).filter((command) => !command.success)
+  for (const failure of failures) {
+    console.log(
+      failure.skipped
+        ? `  skipped: ${failure.command}`
+        : `  failed: ${failure.command}${failure.timedOut ? ` (${failure.error})` : ""}`
+    )
+  }
+  const failed = failures.filter((failure) => !failure.skipped)
+  if (failed.length > 0) {
+    throw new PostCreateCommandError(
+      `${failed.length} post-create command(s) failed in ${worktreePath}`,
+      failed.map((failure) => failure.command)
+    )
+  }
+}
+
+function suggestBranchName(
+  config: WorktreeConfig,
+  name: string,
+  source: string,
+  gitRoot: string,
+  variables: Record<string, string>
+): string {
+  if (!config.branchNameTemplate) {
+    return name
+  }
+
+  const missing = getPromptedBranchVariables(config.branchNameTemplate).filter(
+    (variable) => variables[variable] === undefined
+  )
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `branchNameTemplate '${config.branchNameTemplate}' needs ${missing.map((v) => `$${v}`).join(", ")}; pass --var ${missing[0]}=<value> or --branch (-b)`,
+      "var"
+    )
+  }
+
+  return renderBranchName(config.branchNameTemplate, {
+    ...getDerivedBranchVariables({
+      name,
+      sourceBranch: source,
+      baseName: getRepositoryBaseName(gitRoot),
+    }),
+    ...variables,
+  })
 }
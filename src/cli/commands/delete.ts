@@ -1,22 +1,25 @@
 import type { WorktreeService } from "../../services/index.js"
+import type { WorktreeDeleteHooks } from "../../types/index.js"
+import { PostDeleteCommandError, ValidationError } from "../../utils/error-handlers.js"
+import { createCommandOutputWriter } from "../format.js"
 import type { CliArgs } from "../types.js"
 
 export async function runDelete(args: CliArgs, worktreeService: WorktreeService): Promise<void> {
   let worktreePath: string | undefined = args.path
 
   if (!worktreePath && !args.name) {
-    throw new Error("Missing required argument: --path (-p) or --name (-n)")
+    throw new ValidationError("Missing required argument: --path (-p) or --name (-n)", "path")
   }
 
   if (!worktreePath && args.name) {
     const gitService = worktreeService.getGitService()
-    const worktrees = await gitService.listWorktrees()
+    const worktrees = await gitService.listWorktrees({ fast: true })
     const match = worktrees.find((wt) => {
       const dirName = wt.path.split("/").pop()
       return dirName === args.name
     })
     if (!match) {
-      throw new Error(`No worktree found with directory name '${args.name}'`)
+      throw new ValidationError(`No worktree found with directory name '${args.name}'`, "name")
     }
     worktreePath = match.path
   }
@@ -25,11 +28,42 @@ export async function runDelete(args: CliArgs, worktreeService: WorktreeService)
     throw new Error("Could not resolve worktree path")
   }
 
-  const result = await worktreeService.deleteWorktree(worktreePath, args.force ?? false)
+  const result = await worktreeService.deleteWorktree(
+    worktreePath,
+    args.force ?? false,
+    streamDeleteHooks()
+  )
 
   const parts = [`Worktree deleted: ${worktreePath}`]
   if (result.branchDeleted && result.branchName) {
     parts.push(`Branch deleted: ${result.branchName}`)
   }
   console.log(parts.join("\n"))
+
+  const failed = (result.postDeleteResults ?? []).filter((command) => !command.success)
+  if (failed.length > 0) {
+    throw new PostDeleteCommandError(
+      `${failed.length} post-delete command(s) failed: ${failed.map((c) => c.command).join(", ")}`,
+      failed.map((command) => command.command)
+    )
+  }
+}
+
+/** Hook output streams to stderr, like post-create output, so stdout stays parseable */
+export function streamDeleteHooks(): WorktreeDeleteHooks {
+  const output = createCommandOutputWriter((text) => process.stderr.write(text))
+  let commands: string[] = []
+  return {
+    onHookStart: (_hook, hookCommands) => {
+      commands = hookCommands
+    },
+    onStatusChange: (index, status) => {
+      if (status === "running") {
+        output.writeLine(index, `$ ${commands[index]}`)
+      } else {
+        output.flush(index)
+      }
+    },
+    onOutput: (chunk, _command, index) => output.write(chunk, index),
+  }
 }
@@ -0,0 +1,54 @@
+import { AppStateService } from "../../services/app-state-service.js"
+import type { WorktreeService } from "../../services/index.js"
+import { ValidationError } from "../../utils/index.js"
+import type { CliArgs } from "../types.js"
+import { findWorktree } from "./sync.js"
+
+/**
+ * Move the worktree `<worktree>` (directory name or path) to `<new-name>` and, with
+ * `-b`, rename its branch. The new path comes from worktreePathTemplate, as for create.
+ */
+export async function runMove(
+  args: CliArgs,
+  worktreeService: WorktreeService,
+  appStateService: AppStateService = new AppStateService()
+): Promise<void> {
+  const [ref, name] = args.positionals ?? []
+  if (!ref) {
+    throw new ValidationError(
+      "Missing worktree; use 'branchlet move <worktree> <new-name>' or 'branchlet move <worktree> -b <new-branch>'",
+      "name"
+    )
+  }
+  if (!name && !args.branch) {
+    throw new ValidationError("Missing new directory name or --branch (-b)", "name")
+  }
+
+  const worktrees = await worktreeService.getGitService().listWorktrees({ fast: true })
+  const worktree = findWorktree(worktrees, ref, "name")
+  const result = await worktreeService.moveWorktree(worktree.path, {
+    ...(name && { name }),
+    ...(args.branch && { newBranch: args.branch }),
+  })
+
+  // Keep `branchlet cd -` pointing at the worktree after it moved
+  if (result.newPath !== result.oldPath) {
+    await appStateService.load()
+    appStateService.renameWorktreePath(result.oldPath, result.newPath)
+    await appStateService.save()
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(result, null, 2))
+    return
+  }
+
+  const lines: string[] = []
+  if (result.newPath !== result.oldPath) {
+    lines.push(`Worktree moved: ${result.oldPath} -> ${result.newPath}`)
+  }
+  if (result.newBranch) {
+    lines.push(`Branch renamed: ${result.oldBranch} -> ${result.newBranch}`)
+  }
+  console.log(lines.join("\n"))
+}
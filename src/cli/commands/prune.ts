@@ -0,0 +1,110 @@
+import { sep } from "node:path"
+import type { WorktreeService } from "../../services/index.js"
+import type { GitWorktree } from "../../types/index.js"
+import { parseDuration, ValidationError } from "../../utils/index.js"
+import type { CliArgs } from "../types.js"
+import { streamDeleteHooks } from "./delete.js"
+
+interface PruneCandidate {
+  worktree: GitWorktree
+  reasons: string[]
+}
+
+export async function runPrune(args: CliArgs, worktreeService: WorktreeService): Promise<void> {
+  if (args.olderThan !== undefined && !args.olderThan.trim()) {
+    throw new ValidationError("--older-than needs a duration (e.g. 30d)", "older-than")
+  }
+  const maxAge = args.olderThan !== undefined ? parseDuration(args.olderThan) : null
+  if (args.olderThan !== undefined && maxAge === null) {
+    throw new ValidationError(
+      `Invalid duration '${args.olderThan}'. Use a number followed by h, d, w, mo or y (e.g. 30d)`,
+      "older-than"
+    )
+  }
+
+  // Without explicit filters, prune worktrees whose branches are merged or gone upstream
+  const useDefaultFilters = !args.merged && !args.gone && maxAge === null
+  const checkMerged = args.merged || useDefaultFilters
+  const checkGone = args.gone || useDefaultFilters
+
+  const gitService = worktreeService.getGitService()
+  const [worktrees, mergedBranches, goneBranches] = await Promise.all([
+    gitService.listWorktrees(),
+    checkMerged ? gitService.listMergedBranches() : Promise.resolve([]),
+    checkGone ? gitService.listGoneBranches() : Promise.resolve([]),
+  ])
+
+  const now = Date.now()
+  const candidates: PruneCandidate[] = []
+
+  for (const worktree of worktrees) {
+    if (worktree.isMain || isInsideWorktree(process.cwd(), worktree.path)) {
+      continue
+    }
+
+    const reasons: string[] = []
+    if (mergedBranches.includes(worktree.branch)) {
+      reasons.push("merged")
+    }
+    if (goneBranches.includes(worktree.branch)) {
+      reasons.push("upstream gone")
+    }
+    if (maxAge !== null) {
+      const lastCommitDate = await gitService.getCommitDate(worktree.commit)
+      if (lastCommitDate && now - lastCommitDate.getTime() > maxAge) {
+        reasons.push(`no commits in ${args.olderThan}`)
+      }
+    }
+
+    if (reasons.length > 0) {
+      candidates.push({ worktree, reasons })
+    }
+  }
+
+  if (candidates.length === 0) {
+    console.log("No worktrees to prune")
+    return
+  }
+
+  const failures: string[] = []
+
+  for (const { worktree, reasons } of candidates) {
+    const label = `${worktree.path} [${worktree.branch}] (${reasons.join(", ")})`
+
+    if (!worktree.isClean && !args.force) {
+      console.log(`Skipped ${label}: uncommitted changes (use --force to remove anyway)`)
+      continue
+    }
+
+    if (args.dryRun) {
+      console.log(`Would remove ${label}`)
+      continue
+    }
+
+    try {
+      const result = await worktreeService.deleteWorktree(
+        worktree.path,
+        args.force ?? false,
+        streamDeleteHooks()
+      )
+      console.log(`Removed ${label}`)
+      if (result.branchDeleted && result.branchName) {
+        console.log(`  Branch deleted: ${result.branchName}`)
+      }
+      for (const failure of (result.postDeleteResults ?? []).filter((c) => !c.success)) {
+        failures.push(`${worktree.path}: post-delete command '${failure.command}' failed`)
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      failures.push(`${worktree.path}: ${message}`)
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`Failed to prune ${failures.length} worktree(s):\n${failures.join("\n")}`)
+  }
+}
+
+function isInsideWorktree(path: string, worktreePath: string): boolean {
+  return path === worktreePath || path.startsWith(`${worktreePath}${sep}`)
+}
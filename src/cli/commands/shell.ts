@@ -0,0 +1,134 @@
+import {
+  detectShell,
+  detectShellIntegration,
+  generateFishCompletionsBlock,
+  generateSetupBlock,
+  getConfigPath,
+  getFishCompletionsPath,
+  installShellIntegration,
+  removeShellIntegration,
+  type ShellIntegrationChange,
+  type ShellIntegrationStatus,
+  type ShellType,
+} from "../../services/shell-integration-service.js"
+import { ValidationError } from "../../utils/index.js"
+import { formatTable } from "../format.js"
+import type { CliArgs } from "../types.js"
+
+const SHELL_ACTIONS = ["install", "uninstall", "status", "print"]
+const SHELLS: ShellType[] = ["zsh", "bash", "fish"]
+
+export async function runShell(args: CliArgs): Promise<void> {
+  const [action = "status", shellArg] = args.positionals ?? []
+  if (!SHELL_ACTIONS.includes(action)) {
+    throw new ValidationError(
+      `Unknown shell action '${action}'. Use one of: ${SHELL_ACTIONS.join(", ")}`,
+      "action"
+    )
+  }
+  const shell = resolveShell(shellArg)
+
+  switch (action) {
+    case "install": {
+      const change = await installShellIntegration(shell)
+      if (args.json) {
+        console.log(JSON.stringify({ shell, ...change }, null, 2))
+        return
+      }
+      console.log(
+        [
+          `Installed shell integration for ${shell}`,
+          ...describeChange(change),
+          shell === "fish"
+            ? "Start a new fish session to use it"
+            : `Reload your shell: source ${change.files[0]}`,
+        ].join("\n")
+      )
+      return
+    }
+
+    case "uninstall": {
+      const change = await removeShellIntegration(shell)
+      if (args.json) {
+        console.log(JSON.stringify({ shell, ...change }, null, 2))
+      } else if (change.files.length === 0) {
+        console.log(`Shell integration is not installed for ${shell}`)
+      } else {
+        console.log(
+          [`Removed shell integration for ${shell}`, ...describeChange(change)].join("\n")
+        )
+      }
+      return
+    }
+
+    case "status": {
+      const status = await detectShellIntegration(shell)
+      console.log(
+        args.json
+          ? JSON.stringify(status, null, 2)
+          : formatTable([
+              ["shell", shell],
+              ["file", status.configPath ?? "-"],
+              ["status", describeStatus(status)],
+            ])
+      )
+      return
+    }
+
+    case "print": {
+      if (shell !== "fish") {
+        console.log(generateSetupBlock(shell, "branchlet"))
+        return
+      }
+      // Fish needs two files; label each so the output can be split by hand
+      console.log(
+        [
+          `# ${getConfigPath(shell)}`,
+          generateSetupBlock(shell, "branchlet"),
+          "",
+          `# ${getFishCompletionsPath()}`,
+          generateFishCompletionsBlock("branchlet"),
+        ].join("\n")
+      )
+      return
+    }
+  }
+}
+
+function resolveShell(shellArg: string | undefined): ShellType {
+  if (shellArg !== undefined) {
+    if (!SHELLS.includes(shellArg as ShellType)) {
+      throw new ValidationError(
+        `Unknown shell '${shellArg}'. Use one of: ${SHELLS.join(", ")}`,
+        "shell"
+      )
+    }
+    return shellArg as ShellType
+  }
+
+  const detected = detectShell()
+  if (detected === "unknown") {
+    throw new ValidationError(
+      `Could not detect your shell from $SHELL; pass one of: ${SHELLS.join(", ")}`,
+      "shell"
+    )
+  }
+  return detected
+}
+
+function describeChange({ files, backups }: ShellIntegrationChange): string[] {
+  return [
+    ...files.map((file) => `  updated ${file}`),
+    ...backups.map((backup) => `  backup  ${backup}`),
+  ]
+}
+
+function describeStatus(status: ShellIntegrationStatus): string {
+  if (!status.isInstalled) {
+    return `not installed (${status.reason ?? "unknown reason"})`
+  }
+  if (status.needsUpgrade) {
+    return `needs upgrade: ${status.reason}; run 'branchlet shell install'`
+  }
+  return `installed (integration v${status.installedVersion})`
+}
@@ -0,0 +1,78 @@
+import { basename } from "node:path"
+import { MESSAGES } from "../../constants/index.js"
+import type { WorktreeService } from "../../services/index.js"
+import type { GitWorktree } from "../../types/index.js"
+import { formatTable } from "../format.js"
+import type { CliArgs, WorktreeStatusEntry } from "../types.js"
+
+const COLUMNS = [
+  "NAME",
+  "BRANCH",
+  "STAGED",
+  "UNSTAGED",
+  "UNTRACKED",
+  "AHEAD",
+  "BEHIND",
+  "STASH",
+  "LAST COMMIT",
+] as const
+
+export async function runStatus(args: CliArgs, worktreeService: WorktreeService): Promise<void> {
+  const gitService = worktreeService.getGitService()
+  const worktrees = await gitService.listWorktreesWithStatus()
+  const entries = worktrees.map(toStatusEntry)
+
+  if (args.json) {
+    console.log(JSON.stringify(entries, null, 2))
+    return
+  }
+
+  const now = Date.now()
+  const rows = entries.map((entry) => [
+    entry.isMain ? `${entry.name} ${MESSAGES.LIST_MAIN_INDICATOR}` : entry.name,
+    entry.branch,
+    String(entry.changes.staged),
+    String(entry.changes.unstaged),
+    String(entry.changes.untracked),
+    entry.ahead === null ? "-" : String(entry.ahead),
+    entry.behind === null ? "-" : String(entry.behind),
+    String(entry.stashCount),
+    entry.lastCommitDate ? formatAge(now - new Date(entry.lastCommitDate).getTime()) : "-",
+  ])
+
+  console.log(formatTable([[...COLUMNS], ...rows]))
+}
+
+function toStatusEntry(worktree: GitWorktree): WorktreeStatusEntry {
+  return {
+    name: basename(worktree.path),
+    path: worktree.path,
+    branch: worktree.branch,
+    commit: worktree.commit,
+    isMain: worktree.isMain === true,
+    isClean: worktree.isClean === true,
+    changes: worktree.changes ?? { staged: 0, unstaged: 0, untracked: 0 },
+    ahead: worktree.branchStatus?.ahead ?? null,
+    behind: worktree.branchStatus?.behind ?? null,
+    compareBranch: worktree.branchStatus?.upstreamBranch ?? null,
+    stashCount: worktree.stashCount ?? 0,
+    lastCommitDate: worktree.lastCommitDate?.toISOString() ?? null,
+  }
+}
+
+function formatAge(elapsedMs: number): string {
+  const minutes = Math.floor(Math.max(0, elapsedMs) / 60_000)
+  if (minutes < 1) return "just now"
+  if (minutes < 60) return `${minutes}m ago`
+
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+
+  const days = Math.floor(hours / 24)
+  if (days < 30) return `${days}d ago`
+
+  const months = Math.floor(days / 30)
+  if (months < 12) return `${months}mo ago`
+
+  return `${Math.floor(days / 365)}y ago`
+}
@@ -0,0 +1,105 @@
+import { basename, resolve } from "node:path"
+import type { WorktreeService } from "../../services/index.js"
+import type { GitWorktree, SyncFileChange, WorktreeSyncResult } from "../../types/index.js"
+import { findWorktreeContaining, ValidationError } from "../../utils/index.js"
+import type { CliArgs } from "../types.js"
+
+const STATUS_MARKERS: Record<SyncFileChange["status"], string> = {
+  added: "A",
+  updated: "M",
+  overwritten: "M",
+  skipped: "!",
+}
+
+export async function runSync(args: CliArgs, worktreeService: WorktreeService): Promise<void> {
+  if (args.all && args.to) {
+    throw new ValidationError("Cannot combine --to with --all", "to")
+  }
+
+  const worktrees = await worktreeService.getGitService().listWorktrees({ fast: true })
+  const source = args.from
+    ? findWorktree(worktrees, args.from, "from")
+    : worktrees.find((worktree) => worktree.isMain)
+  if (!source) {
+    throw new ValidationError("Could not find the main worktree; pass --from", "from")
+  }
+
+  let targets: GitWorktree[]
+  if (args.all) {
+    targets = worktrees.filter((worktree) => worktree.path !== source.path)
+  } else if (args.to) {
+    targets = [findWorktree(worktrees, args.to, "to")]
+  } else {
+    // Default to the worktree the command runs in
+    const current = findWorktreeContaining(worktrees, process.cwd())
+    if (!current || current.path === source.path) {
+      throw new ValidationError("Missing --to <worktree> or --all", "to")
+    }
+    targets = [current]
+  }
+
+  if (targets.some((target) => target.path === source.path)) {
+    throw new ValidationError("The source and target worktree are the same", "to")
+  }
+
+  const results: WorktreeSyncResult[] = []
+  for (const target of targets) {
+    results.push(
+      await worktreeService.syncWorktree(source.path, target.path, {
+        overwrite: args.overwrite ?? false,
+        dryRun: args.dryRun ?? false,
+      })
+    )
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(results, null, 2))
+  } else {
+    console.log(results.map((result) => formatResult(result, args.dryRun ?? false)).join("\n\n"))
+  }
+
+  const errors = results.flatMap((result) => result.errors)
+  if (errors.length > 0) {
+    throw new Error(`Failed to sync ${errors.length} file(s): ${errors.join("; ")}`)
+  }
+}
+
+/** Worktree whose directory name is `ref`, or that lives at the path `ref` */
+export function findWorktree(worktrees: GitWorktree[], ref: string, field: string): GitWorktree {
+  const match = worktrees.find(
+    (worktree) => basename(worktree.path) === ref || worktree.path === resolve(ref)
+  )
+  if (!match) {
+    throw new ValidationError(`No worktree found with directory name or path '${ref}'`, field)
+  }
+  return match
+}
+
+function formatResult(result: WorktreeSyncResult, dryRun: boolean): string {
+  const lines = [
+    `${basename(result.source)} -> ${basename(result.target)}${dryRun ? " (dry run)" : ""}`,
+  ]
+
+  for (const change of result.changes) {
+    const counts =
+      change.linesAdded !== undefined ? `  +${change.linesAdded} -${change.linesRemoved}` : ""
+    const note =
+      change.status === "skipped"
+        ? "  modified locally, skipped (use --overwrite)"
+        : change.status === "overwritten"
+          ? "  local changes overwritten"
+          : ""
+    lines.push(`  ${STATUS_MARKERS[change.status]} ${change.path}${counts}${note}`)
+  }
+
+  for (const error of result.errors) {
+    lines.push(`  error: ${error}`)
+  }
+
+  lines.push(
+    result.changes.length === 0 && result.errors.length === 0
+      ? "  up to date"
+      : `  ${result.unchanged} unchanged`
+  )
+  return lines.join("\n")
+}
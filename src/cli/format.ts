@@ -0,0 +1,47 @@
+export function formatTable(rows: string[][]): string {
+  const widths: number[] = []
+  for (const row of rows) {
+    row.forEach((cell, index) => {
+      widths[index] = Math.max(widths[index] ?? 0, cell.length)
+    })
+  }
+
+  return rows
+    .map((row) =>
+      row
+        .map((cell, index) => (index === row.length - 1 ? cell : cell.padEnd(widths[index] ?? 0)))
+        .join("  ")
+    )
+    .join("\n")
+}
+
+/**
+ * Writes the output of commands that may run concurrently one whole line at a
+ * time, each prefixed with the 1-based index of the command that printed it.
+ */
+export function createCommandOutputWriter(write: (text: string) => void) {
+  const partials = new Map<number, string>()
+
+  const writeLine = (index: number, line: string): void => {
+    write(`[${index + 1}] ${line}\n`)
+  }
+
+  return {
+    writeLine,
+    write: (chunk: string, index: number): void => {
+      const lines = ((partials.get(index) ?? "") + chunk).split(/\r?\n/)
+      partials.set(index, lines.pop() ?? "")
+      for (const line of lines) {
+        writeLine(index, line)
+      }
+    },
+    /** Writes what is left of an unterminated last line, for one command or all of them */
+    flush: (index?: number): void => {
+      for (const [partialIndex, partial] of partials) {
+        if (index !== undefined && partialIndex !== index) continue
+        if (partial) writeLine(partialIndex, partial)
+        partials.delete(partialIndex)
+      }
+    },
+  }
+}
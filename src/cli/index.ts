@@ -1,2 +1,2 @@
 export { runCli } from "./run-cli.js"
-export type { CliArgs } from "./types.js"
+export type { CliArgs, WorktreeStatusEntry } from "./types.js"
@@ -1,11 +1,40 @@
 import { WorktreeService } from "../services/worktree-service.js"
+import { runCd } from "./commands/cd.js"
+import { runComplete } from "./commands/complete.js"
+import { runConfig } from "./commands/config.js"
+import { runCopy } from "./commands/copy.js"
 import { runCreate } from "./commands/create.js"
 import { runDelete } from "./commands/delete.js"
 import { runList } from "./commands/list.js"
+import { runMove } from "./commands/move.js"
+import { runPrune } from "./commands/prune.js"
+import { runShell } from "./commands/shell.js"
+import { runStatus } from "./commands/status.js"
+import { runSync } from "./commands/sync.js"
 import type { CliArgs } from "./types.js"
 
 export async function runCli(args: CliArgs): Promise<void> {
   const worktreeService = new WorktreeService()
+
+  // config reads its files itself so it can inspect and repair an invalid configuration
+  if (args.command === "config") {
+    await runConfig(args, worktreeService)
+    return
+  }
+
+  // shell edits the user's shell config and works outside a repository
+  if (args.command === "shell") {
+    await runShell(args)
+    return
+  }
+
+  // Completion loads config only for profile names, so an invalid config doesn't
+  // break tab completion
+  if (args.command === "__complete") {
+    await runComplete(args, worktreeService)
+    return
+  }
+
   await worktreeService.initialize()
 
   switch (args.command) {
@@ -18,5 +47,24 @@ export async function runCli(args: CliArgs): Promise<void> {
     case "delete":
       await runDelete(args, worktreeService)
       break
+    case "move":
+      await runMove(args, worktreeService)
+      break
+    case "prune":
+      await runPrune(args, worktreeService)
+      break
+    case "status":
+      await runStatus(args, worktreeService)
+      break
+    case "copy":
+      await runCopy(args, worktreeService)
+      break
+    case "sync":
+      await runSync(args, worktreeService)
+      break
+    case "cd":
+    case "switch":
+      await runCd(args, worktreeService)
+      break
   }
 }
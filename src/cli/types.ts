@@ -1,9 +1,67 @@
+import type { WorktreeChanges } from "../types/index.js"
+
 export interface CliArgs {
-  command: "create" | "list" | "delete"
+  command:
+    | "create"
+    | "list"
+    | "delete"
+    | "move"
+    | "status"
+    | "prune"
+    | "config"
+    | "copy"
+    | "sync"
+    | "cd"
+    | "switch"
+    | "shell"
+    | "__complete"
   name?: string
   source?: string
   branch?: string
   path?: string
+  pr?: string
+  /** Config profile to create the worktree with */
+  profile?: string
+  /** `NAME=value` assignments for branchNameTemplate variables */
+  vars?: string[]
   json?: boolean
   force?: boolean
+  reuseLocal?: boolean
+  dryRun?: boolean
+  merged?: boolean
+  gone?: boolean
+  olderThan?: string
+  explain?: boolean
+  global?: boolean
+  /** Use the repo's shared .branchlet.json (config) */
+  repo?: boolean
+  /** Use the repo's personal .branchlet.local.json (config) */
+  local?: boolean
+  /** Source worktree for sync (directory name or path) */
+  from?: string
+  /** Target worktree for sync (directory name or path) */
+  to?: string
+  all?: boolean
+  overwrite?: boolean
+  /** Positional arguments after the command, e.g. `config set <key> <value>` */
+  positionals?: string[]
+}
+
+/**
+ * Shape of each entry printed by `branchlet status --json`.
+ * Fields are always present; unknown values are reported as null.
+ */
+export interface WorktreeStatusEntry {
+  name: string
+  path: string
+  branch: string
+  commit: string
+  isMain: boolean
+  isClean: boolean
+  changes: WorktreeChanges
+  ahead: number | null
+  behind: number | null
+  compareBranch: string | null
+  stashCount: number
+  lastCommitDate: string | null
 }
@@ -10,6 +10,7 @@ import {
   SettingsMenu,
   SetupShellIntegration,
 } from "../panels/index.js"
+import { AppStateService } from "../services/app-state-service.js"
 import type { WorktreeService } from "../services/index.js"
 import type { ShellIntegrationStatus } from "../services/shell-integration-service.js"
 import type { UpdateCheckResult } from "../services/update-service.js"
@@ -80,8 +81,10 @@ export function AppRouter({
               onBack={onBackToMenu}
               isFromWrapper={isFromWrapper}
               onPathSelect={(path) => {
-                process.stdout.write(`${path}\n`)
-                onExit()
+                recordWorktreeVisit(worktreeService, path).finally(() => {
+                  process.stdout.write(`${path}\n`)
+                  onExit()
+                })
               }}
             />
           </Box>
@@ -119,3 +122,16 @@ export function AppRouter({
     </BorderContext.Provider>
   )
 }
+
+// Lets `branchlet cd -` return from a worktree picked in the list; never blocks the cd
+async function recordWorktreeVisit(worktreeService: WorktreeService, path: string): Promise<void> {
+  try {
+    const worktrees = await worktreeService.getGitService().listWorktrees({ fast: true })
+    const appStateService = new AppStateService()
+    await appStateService.load()
+    appStateService.recordWorktreeVisit(worktrees, path)
+    await appStateService.save()
+  } catch {
+    // History is best effort
+  }
+}
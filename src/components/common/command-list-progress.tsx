@@ -1,43 +1,35 @@
 import { Box, Text } from "ink"
 import Spinner from "ink-spinner"
 import { COLORS } from "../../constants/index.js"
-
-interface CommandStatus {
-  command: string
-  status: "pending" | "running" | "completed" | "failed"
-}
+import type { CommandRunStatus } from "../../types/index.js"
 
 interface CommandListProgressProps {
   commands: string[]
-  currentIndex: number
-  completedCommands?: string[]
-  failedCommands?: string[]
+  /** State of each command, by index; several may be running at once */
+  statuses: CommandRunStatus[]
+  title?: string
+  /** Latest output lines of running commands, keyed by command index */
+  output?: Record<number, string[]>
 }
 
 export function CommandListProgress({
   commands,
-  currentIndex,
-  completedCommands = [],
-  failedCommands = [],
+  statuses,
+  title = "Running post-create commands",
+  output = {},
 }: CommandListProgressProps) {
-  const getCommandStatus = (index: number): CommandStatus["status"] => {
-    const command = commands[index]
-    if (!command) return "pending"
-    if (failedCommands.includes(command)) return "failed"
-    if (completedCommands.includes(command)) return "completed"
-    if (index < currentIndex) return "completed"
-    if (index === currentIndex) return "running"
-    return "pending"
-  }
+  const finished = statuses.filter((status) => status !== "pending" && status !== "running")
 
-  const getStatusIcon = (status: CommandStatus["status"]) => {
+  const getStatusIcon = (status: CommandRunStatus) => {
     switch (status) {
       case "running":
         return <Spinner type="dots" />
-      case "completed":
+      case "done":
         return <Text color={COLORS.SUCCESS}>✓</Text>
       case "failed":
         return <Text color={COLORS.ERROR}>✗</Text>
+      case "skipped":
+        return <Text color={COLORS.WARNING}>-</Text>
       case "pending":
         return <Text color={COLORS.MUTED}>○</Text>
     }
@@ -47,17 +39,31 @@ export function CommandListProgress({
     <Box flexDirection="column">
       <Box marginBottom={1}>
         <Text color={COLORS.INFO}>
-          Running post-create commands ({currentIndex}/{commands.length})
+          {title} ({finished.length}/{commands.length})
         </Text>
       </Box>
 
       {commands.map((command, index) => {
-        const status = getCommandStatus(index)
+        const status = statuses[index] ?? "pending"
 
         return (
-          <Box key={`command-${index}-${command}`} marginBottom={0}>
-            {getStatusIcon(status)}
-            <Text> {command || ""}</Text>
+          <Box key={`command-${index}-${command}`} flexDirection="column">
+            <Box>
+              {getStatusIcon(status)}
+              {status === "skipped" ? (
+                <Text color={COLORS.MUTED}> {command || ""}</Text>
+              ) : (
+                <Text> {command || ""}</Text>
+              )}
+            </Box>
+            {status === "running" &&
+              (output[index] ?? []).map((line, lineIndex) => (
+                <Box key={`output-${lineIndex}-${line}`} paddingLeft={2}>
+                  <Text color={COLORS.MUTED} wrap="truncate">
+                    {line}
+                  </Text>
+                </Box>
+              ))}
           </Box>
         )
       })}
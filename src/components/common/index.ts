@@ -2,5 +2,6 @@ export * from "./command-list-progress.js"
 export * from "./command-progress.js"
 export * from "./confirm-dialog.js"
 export * from "./input-prompt.js"
+export * from "./multi-select-prompt.js"
 export * from "./select-prompt.js"
 export * from "./status-indicator.js"
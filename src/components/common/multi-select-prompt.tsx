@@ -0,0 +1,144 @@
+import { Box, Text, useInput } from "ink"
+import { useState } from "react"
+import { COLORS } from "../../constants/index.js"
+import type { MultiSelectPromptProps } from "../../types/index.js"
+
+const MAX_VISIBLE = 10
+
+export function MultiSelectPrompt<T = string>({
+  label,
+  options,
+  onSubmit,
+  onCancel,
+  shortcuts = [],
+}: MultiSelectPromptProps<T>) {
+  const [cursorIndex, setCursorIndex] = useState(0)
+  const [selected, setSelected] = useState<T[]>([])
+
+  const getVisibleRange = () => {
+    if (options.length <= MAX_VISIBLE) {
+      return { start: 0, end: options.length }
+    }
+    const half = Math.floor(MAX_VISIBLE / 2)
+    const start = Math.max(0, Math.min(cursorIndex - half, options.length - MAX_VISIBLE))
+    return { start, end: start + MAX_VISIBLE }
+  }
+
+  const { start, end } = getVisibleRange()
+  const visibleOptions = options.slice(start, end)
+
+  const toggle = (value: T): void => {
+    setSelected((prev) =>
+      prev.includes(value) ? prev.filter((item) => item !== value) : [...prev, value]
+    )
+  }
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onCancel?.()
+      return
+    }
+
+    if (key.return) {
+      if (selected.length > 0) {
+        // Report selections in option order rather than toggle order
+        onSubmit(options.map((opt) => opt.value).filter((value) => selected.includes(value)))
+      }
+      return
+    }
+
+    if (options.length === 0) return
+
+    if (key.upArrow || input === "k") {
+      setCursorIndex((prev) => (prev === 0 ? options.length - 1 : prev - 1))
+      return
+    }
+
+    if (key.downArrow || input === "j") {
+      setCursorIndex((prev) => (prev === options.length - 1 ? 0 : prev + 1))
+      return
+    }
+
+    if (input === " ") {
+      const option = options[cursorIndex]
+      if (option && !option.disabled) {
+        toggle(option.value)
+      }
+      return
+    }
+
+    const shortcut = shortcuts.find((s) => s.key === input.toLowerCase())
+    if (shortcut) {
+      setSelected((prev) => [...prev, ...shortcut.values.filter((value) => !prev.includes(value))])
+    }
+  })
+
+  const hints = [
+    "Space toggle",
+    ...shortcuts.map((s) => `${s.key} ${s.label}`),
+    "Enter confirm",
+    "Esc cancel",
+  ]
+
+  return (
+    <Box flexDirection="column">
+      <Box marginBottom={1}>
+        <Text>
+          {label}{" "}
+          <Text color={COLORS.MUTED}>
+            ({selected.length}/{options.length} selected)
+          </Text>
+        </Text>
+      </Box>
+
+      {start > 0 && (
+        <Box marginLeft={1}>
+          <Text color={COLORS.MUTED} dimColor>
+            ↑ {start} more above
+          </Text>
+        </Box>
+      )}
+
+      {visibleOptions.map((option, visibleIndex) => {
+        const actualIndex = start + visibleIndex
+        const isCursor = actualIndex === cursorIndex
+        const isSelected = selected.includes(option.value)
+        const textColor = option.disabled
+          ? COLORS.MUTED
+          : option.color || (isCursor ? COLORS.PRIMARY : undefined)
+
+        return (
+          <Box key={String(option.value)} marginLeft={1}>
+            <Text {...(textColor ? { color: textColor } : {})}>
+              {isCursor ? "> " : "  "}
+              <Text color={isSelected ? COLORS.SUCCESS : COLORS.MUTED}>
+                {isSelected ? "[x]" : "[ ]"}
+              </Text>{" "}
+              {option.label}
+            </Text>
+            {option.description && (
+              <Text color={COLORS.MUTED} dimColor italic>
+                {" "}
+                ({option.description})
+              </Text>
+            )}
+          </Box>
+        )
+      })}
+
+      {end < options.length && (
+        <Box marginLeft={1}>
+          <Text color={COLORS.MUTED} dimColor>
+            ↓ {options.length - end} more below
+          </Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text color={COLORS.MUTED} dimColor>
+          {hints.join(" • ")}
+        </Text>
+      </Box>
+    </Box>
+  )
+}
@@ -1,6 +1,16 @@
 import { WorktreeConfigSchema } from "../schemas/config-schema.js"
 
+export { CONFIG_INHERIT_MARKER } from "../schemas/config-schema.js"
+
 export const DEFAULT_CONFIG = WorktreeConfigSchema.parse({})
 export const LOCAL_CONFIG_FILE_NAME = ".branchlet.json"
+export const LOCAL_OVERRIDE_CONFIG_FILE_NAME = ".branchlet.local.json"
+/** Checked-in, gitignore-style list of files to copy into new worktrees */
+export const COPY_MANIFEST_FILE_NAME = ".branchletcopy"
+export const CONFIG_ENV_PREFIX = "BRANCHLET_"
+/** Post-create transcript, written to the worktree's private git dir */
+export const POST_CREATE_LOG_FILE_NAME = "branchlet-post-create.log"
+/** Hashes of the files copied into a worktree, kept next to the post-create log */
+export const SYNC_MANIFEST_FILE_NAME = "branchlet-copied-files.json"
 export const GLOBAL_CONFIG_DIR = `${process.env.HOME}/.branchlet`
 export const GLOBAL_CONFIG_FILE = `${GLOBAL_CONFIG_DIR}/settings.json`
@@ -5,6 +5,8 @@ export const MESSAGES = {
   // Menu options
   MENU_TITLE: "What would you like to do?",
   MENU_SETUP: "Setup Shell Integration",
+  MENU_SETUP_UPGRADE: "Upgrade Shell Integration",
+  MENU_SHELL: "Shell Integration",
   MENU_CREATE: "Create new worktree",
   MENU_LIST: "List worktrees",
   MENU_DELETE: "Delete worktree",
@@ -12,14 +14,28 @@ export const MESSAGES = {
   MENU_EXIT: "Exit",
 
   // Create flow
+  CREATE_PROFILE_PROMPT: "Select a profile:",
+  CREATE_PROFILE_NONE: "No profile",
   CREATE_DIRECTORY_PROMPT: "Enter directory name for the new worktree:",
   CREATE_DIRECTORY_PLACEHOLDER: "feature-name",
   CREATE_SOURCE_BRANCH_PROMPT: "Select source branch:",
+  CREATE_BRANCH_VARIABLE_PROMPT: "Enter a value for",
   CREATE_NEW_BRANCH_PROMPT: "Enter name for new branch (leave blank to use source branch):",
   CREATE_NEW_BRANCH_PLACEHOLDER: "feat/new-feature or leave blank",
+  CREATE_NEW_BRANCH_REMOTE_PROMPT:
+    "Enter name for new branch (leave blank to create a local branch tracking the remote):",
+  CREATE_REUSE_LOCAL_TITLE: "Local Branch Exists",
+  CREATE_REUSE_LOCAL_CONFIRM: "Reuse local branch",
+  CREATE_REUSE_LOCAL_CANCEL: "Choose another name",
+  CREATE_PULL_REQUEST_OPTION: "From pull request",
+  CREATE_PULL_REQUEST_PROMPT: "Enter pull/merge request number:",
+  CREATE_PULL_REQUEST_PLACEHOLDER: "1234",
+  CREATE_FETCHING_PULL_REQUEST: "Fetching pull request...",
   CREATE_CONFIRM_TITLE: "Create Worktree Confirmation",
   CREATE_SUCCESS: "Worktree created successfully!",
   CREATE_CREATING: "Creating worktree...",
+  CREATE_POST_CREATE_LOG: "Post-create log:",
+  CREATE_POST_CREATE_FAILED: "Some post-create commands did not succeed:",
 
   // Delete flow
   DELETE_SELECT_PROMPT: "Select worktree to delete:",
@@ -27,12 +43,24 @@ export const MESSAGES = {
   DELETE_WARNING: "This action cannot be undone.",
   DELETE_SUCCESS: "Worktree deleted successfully!",
   DELETE_DELETING: "Deleting worktree...",
+  DELETE_PRE_DELETE_RUNNING: "Running pre-delete commands",
+  DELETE_POST_DELETE_RUNNING: "Running post-delete commands",
+  DELETE_POST_DELETE_FAILED: "Some post-delete commands did not succeed:",
+  DELETE_MULTI_SELECT_OPTION: "Select multiple worktrees...",
+  DELETE_MULTI_SELECT_PROMPT: "Select worktrees to delete:",
+  DELETE_BULK_CONFIRM_TITLE: "Delete Worktrees Confirmation",
+  DELETE_BULK_DELETING: "Deleting worktrees",
 
   // List view
   LIST_TITLE: "Git Worktrees",
   LIST_NO_WORKTREES: "No additional worktrees found.",
   LIST_MAIN_INDICATOR: "(main)",
   LIST_DIRTY_INDICATOR: "(dirty)",
+  LIST_SYNCING: "Syncing copied files from the main worktree...",
+  LIST_SYNC_UP_TO_DATE: "Copied files are up to date.",
+  LIST_RENAME_DIRECTORY_PROMPT: "Enter a new directory name for the worktree:",
+  LIST_RENAME_BRANCH_PROMPT: "Enter a branch name (keep it to leave the branch as is):",
+  LIST_RENAMING: "Moving worktree...",
 
   // Validation errors
   ERROR_NOT_GIT_REPO: "Current directory is not a git repository.",
@@ -7,6 +7,7 @@ import { runCli } from "./cli/index.js"
 import { App } from "./components/app.js"
 import { MESSAGES } from "./constants/index.js"
 import type { AppMode } from "./types/index.js"
+import { EXIT_CODES, getExitCode, toErrorEnvelope } from "./utils/index.js"
 
 const VERSION = packageJson.version
 
@@ -17,8 +18,36 @@ function parseArguments(): {
   cliArgs: CliArgs | null
 } {
   const argv = minimist(process.argv.slice(2), {
-    string: ["mode", "name", "source", "branch", "path"],
-    boolean: ["help", "version", "from-wrapper", "json", "force"],
+    string: [
+      "mode",
+      "name",
+      "source",
+      "branch",
+      "path",
+      "pr",
+      "profile",
+      "var",
+      "older-than",
+      "from",
+      "to",
+    ],
+    boolean: [
+      "help",
+      "version",
+      "from-wrapper",
+      "json",
+      "force",
+      "dry-run",
+      "merged",
+      "gone",
+      "reuse-local",
+      "explain",
+      "global",
+      "repo",
+      "local",
+      "all",
+      "overwrite",
+    ],
     alias: {
       h: "help",
       v: "version",
@@ -54,11 +83,62 @@ function parseArguments(): {
     }
   }
 
+  // Commands that only exist in the non-interactive CLI; __complete is called by
+  // the shell completion scripts and left out of --help
+  const cliOnlyCommands = [
+    "move",
+    "status",
+    "prune",
+    "config",
+    "copy",
+    "sync",
+    "cd",
+    "switch",
+    "shell",
+    "__complete",
+  ] as const
+  const firstArg = String(argv._[0] ?? "")
+  if (cliOnlyCommands.includes(firstArg as (typeof cliOnlyCommands)[number])) {
+    return {
+      mode,
+      help: false,
+      isFromWrapper: false,
+      cliArgs: {
+        command: firstArg as CliArgs["command"],
+        branch: argv.branch || undefined,
+        json: argv.json || false,
+        force: argv.force || false,
+        dryRun: argv["dry-run"] || false,
+        merged: argv.merged || false,
+        gone: argv.gone || false,
+        // Kept even when empty, so a bare --older-than is rejected rather than ignored
+        olderThan: argv["older-than"],
+        explain: argv.explain || false,
+        global: argv.global || false,
+        repo: argv.repo || false,
+        local: argv.local || false,
+        from: argv.from || undefined,
+        to: argv.to || undefined,
+        all: argv.all || false,
+        overwrite: argv.overwrite || false,
+        positionals: argv._.slice(1).map(String),
+      },
+    }
+  }
+
   // Detect non-interactive CLI mode
   const cliCommands = ["create", "list", "delete"] as const
   const isCliCommand = cliCommands.includes(mode as (typeof cliCommands)[number])
   const hasCliFlags =
-    argv.name || argv.source || argv.branch || argv.path || argv.force || argv.json
+    argv.name ||
+    argv.source ||
+    argv.branch ||
+    argv.path ||
+    argv.pr ||
+    argv.profile ||
+    argv.var ||
+    argv.force ||
+    argv.json
 
   const isFromWrapper = argv["from-wrapper"] === true
 
@@ -73,8 +153,13 @@ function parseArguments(): {
         source: argv.source || undefined,
         branch: argv.branch || undefined,
         path: argv.path || undefined,
+        pr: argv.pr || undefined,
+        profile: argv.profile || undefined,
+        // Repeated --var flags arrive as an array
+        vars: [argv.var ?? []].flat().map(String),
         json: argv.json || false,
         force: argv.force || false,
+        reuseLocal: argv["reuse-local"] || false,
       },
     }
   }
@@ -93,6 +178,17 @@ Commands:
   create     Create a new worktree
   list       List all worktrees
   delete     Delete a worktree
+  move <worktree> [new-name]
+             Rename a worktree's directory, re-resolving worktreePathTemplate; -b also
+             renames its branch
+  status     Show dirty/ahead/behind/stash summary for every worktree
+  prune      Remove worktrees whose branches are merged, gone upstream, or inactive
+  config     Read, change and validate configuration (see Config Commands)
+  copy       Preview the files worktreeCopyPatterns would copy (with --dry-run)
+  sync       Copy worktreeCopyPatterns files from one worktree to others again
+  cd <name>  Print the path of the best-matching worktree (name or branch); '-' for the
+             previous one. With shell integration, changes into it. Alias: switch
+  shell      Install, uninstall, check or print shell integration (see Shell Commands)
   settings   Manage configuration
   (no command) Start interactive menu
 
@@ -104,11 +200,59 @@ Interactive Options:
 
 Non-Interactive Options:
   -n, --name <name>      Worktree directory name (create, delete)
-  -s, --source <branch>  Source branch (create)
+  -s, --source <branch>  Source branch (create); optional when the profile sets one
   -b, --branch <branch>  New branch name; defaults to source (create)
+                         Remote sources (origin/foo) create a local 'foo' tracking the remote
+                         Rename the worktree's branch to this (move)
+  --reuse-local          Check out the existing local branch when a remote source has one (create)
   -p, --path <path>      Worktree path (delete)
-  -f, --force            Force delete even with uncommitted changes (delete)
-  --json                 Output as JSON (list)
+  --pr <number>          Create from a pull/merge request; name defaults to pr-<n> (create)
+  --profile <name>       Apply a configured profile's copy patterns, post-create commands,
+                         path template, source branch and branch naming (create)
+  --var <NAME=value>     Value for a branchNameTemplate variable; repeatable (create)
+  -f, --force            Force delete even with uncommitted changes (delete, prune)
+  --merged               Prune worktrees whose branch is merged into the default branch
+  --gone                 Prune worktrees whose upstream branch was deleted on the remote
+  --older-than <age>     Prune worktrees with no commits in <age> (e.g. 12h, 30d, 2w, 6mo)
+  --dry-run              Show what prune, copy or sync would do, without changes
+  --from <worktree>      Worktree to sync from, by directory name or path; defaults to main (sync)
+  --to <worktree>        Worktree to sync into; defaults to the current worktree (sync)
+  --all                  Sync into every worktree except the source (sync)
+  --overwrite            Also replace files edited in the target since they were copied (sync)
+  --explain              Show each effective config value and its source layer (config)
+  --global               Read/write ~/.branchlet/settings.json (config)
+  --repo                 Read/write the repo's shared .branchlet.json (config)
+  --local                Read/write the repo's personal .branchlet.local.json (config)
+  --json                 Output as JSON (list, status, config, copy, sync, move); errors are
+                         printed to stderr as {code, message, gitOutput, field}
+
+Exit Codes:
+  0   success                 11  ALREADY_EXISTS         15  PATH_NOT_FOUND
+  1   unexpected error        12  INVALID_REF            16  NOT_GIT_REPO
+  2   VALIDATION_ERROR        13  REMOTE_REF_NOT_FOUND   17  UNCOMMITTED_CHANGES
+  3   CONFIG_ERROR            14  BRANCH_CHECKED_OUT     18  CORRUPTED_WORKTREE
+  4   POST_CREATE_FAILED      10  GIT_OPERATION_FAILED   19  BRANCH_DIVERGED
+  5   PRE_DELETE_FAILED
+  6   POST_DELETE_FAILED
+
+Config Commands:
+  config list                    Show the effective configuration (or one file with a scope flag)
+  config get <key>               Print a value
+  config set <key> <value>       Set a value; lists take a JSON array or comma-separated items
+  config unset <key>             Remove a key from the config file
+  config add <key> <value...>    Append items to a list
+  config remove <key> <value...> Remove items from a list
+  config validate                Check every config layer
+  config explain                 Same as config --explain
+  Writes go to .branchlet.json when it exists, otherwise the global settings file.
+
+Shell Commands:
+  shell status [shell]           Show whether the integration is installed and current
+  shell install [shell]          Install or upgrade the wrapper and completions
+  shell uninstall [shell]        Remove them
+  shell print [shell]            Print the generated script without installing it
+  [shell] is zsh, bash or fish and defaults to $SHELL. Files are backed up to
+  <file>.branchlet-backup-<time> before every change.
 
 Interactive Examples:
   branchlet                # Start interactive menu
@@ -121,18 +265,39 @@ Interactive Examples:
 Non-Interactive Examples:
   branchlet create -n my-feature -s main              # Create worktree from main
   branchlet create -n my-feature -s main -b feat/foo  # Create with new branch
+  branchlet create -n foo -s origin/foo               # Create local 'foo' tracking origin/foo
+  branchlet create --pr 1234                          # Check out pull request #1234 in pr-1234
+  branchlet create -n fix-login --profile hotfix      # Create using the 'hotfix' profile
+  branchlet create -n login -s main --var TYPE=feat   # Fill $TYPE in branchNameTemplate
   branchlet list --json                               # List worktrees as JSON
+  branchlet status                                    # Summarize every worktree
+  branchlet status --json                             # Summary as JSON
   branchlet delete -n my-feature                      # Delete worktree by name
   branchlet delete -p /path/to/worktree -f            # Force delete by path
+  branchlet move my-feature login-page                # Rename the my-feature worktree
+  branchlet move login-page -b feat/login-page        # Rename its branch too
+  branchlet prune --dry-run                           # Preview merged/gone worktrees
+  branchlet prune --older-than 30d                    # Remove worktrees inactive for 30 days
+  branchlet copy --dry-run                            # List files a new worktree would receive
+  branchlet sync --all                                # Refresh copied files in every worktree
+  branchlet cd feat-x                                 # Change into the worktree matching feat-x
+  branchlet cd -                                      # Change back to the previous worktree
+  branchlet config --explain                          # Show the source of each config value
+  branchlet config get terminalCommand                # Print the effective value
+  branchlet config set terminalCommand zed --global   # Set a global value
 
 Shell Integration:
-  Run 'branchlet' and select "Setup Shell Integration" to enable quick directory switching.
+  Run 'branchlet' and select "Setup Shell Integration" (or run 'branchlet shell install')
+  to enable quick directory switching.
   After setup, just run 'branchlet' to quickly change to any worktree directory.
 
 Configuration:
-  The tool looks for configuration files in the following order:
-  1. .branchlet.json in current directory
-  2. ~/.branchlet/settings.json (global config)
+  Settings are layered; each layer overrides the keys it sets:
+  1. ~/.branchlet/settings.json (global config)
+  2. .branchlet.json in the repository root (shared, committed)
+  3. .branchlet.local.json in the repository root (personal overrides)
+  4. BRANCHLET_* environment variables
+  Run 'branchlet config --explain' to see where each value comes from.
 
 For more information, visit: https://github.com/raghavpillai/git-worktree-manager
 `)
@@ -150,11 +315,15 @@ async function main(): Promise<void> {
   if (cliArgs) {
     try {
       await runCli(cliArgs)
-      process.exit(0)
+      process.exit(EXIT_CODES.SUCCESS)
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error)
-      process.stderr.write(`Error: ${message}\n`)
-      process.exit(1)
+      if (cliArgs.json) {
+        process.stderr.write(`${JSON.stringify(toErrorEnvelope(error), null, 2)}\n`)
+      } else {
+        const message = error instanceof Error ? error.message : String(error)
+        process.stderr.write(`Error: ${message}\n`)
+      }
+      process.exit(getExitCode(error))
     }
   }
 
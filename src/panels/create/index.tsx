@@ -1,3 +1,4 @@
+import { dirname } from "node:path"
 import { Box, Text, useInput } from "ink"
 import { useCallback, useEffect, useState } from "react"
 import {
@@ -8,16 +9,36 @@ import {
   StatusIndicator,
 } from "../../components/common/index.js"
 import { COLORS, MESSAGES } from "../../constants/index.js"
-import { copyFiles, executePostCreateCommands, openTerminal } from "../../services/file-service.js"
+import {
+  executePostCreateCommands,
+  getPostCreateCommandText,
+  openTerminal,
+} from "../../services/file-service.js"
 import type { WorktreeService } from "../../services/index.js"
-import type { CreateWorktreeState, GitBranch, SelectOption } from "../../types/index.js"
+import type {
+  CreateWorktreeState,
+  GitBranch,
+  PostCreateCommandResult,
+  SelectOption,
+} from "../../types/index.js"
 import {
+  appendOutputTail,
+  applyBranchPrefix,
+  getDerivedBranchVariables,
+  getPromptedBranchVariables,
+  getRepositoryBaseName,
   getRepositoryRoot,
   getWorktreePath,
-  validateBranchName,
+  parsePullRequestNumber,
+  renderBranchName,
+  resolveProfileSourceBranch,
+  validateBranchNameConvention,
   validateDirectoryName,
+  visibleOutputTail,
 } from "../../utils/index.js"
 
+const OUTPUT_TAIL_LINES = 5
+
 interface CreateWorktreeProps {
   worktreeService: WorktreeService
   onComplete: () => void
@@ -25,13 +46,16 @@ interface CreateWorktreeProps {
 }
 
 export function CreateWorktree({ worktreeService, onComplete, onCancel }: CreateWorktreeProps) {
+  const configService = worktreeService.getConfigService()
   const [state, setState] = useState<CreateWorktreeState>({
-    step: "directory",
+    // The profile step is only shown once profiles are configured
+    step: configService.getProfileNames().length > 0 ? "profile" : "directory",
     directoryName: "",
     sourceBranch: "",
     newBranch: "",
   })
   const [branches, setBranches] = useState<GitBranch[]>([])
+  const [remoteBranches, setRemoteBranches] = useState<GitBranch[]>([])
   const [loading, setLoading] = useState(false)
   const [repoPath, setRepoPath] = useState<string>("")
 
@@ -39,8 +63,12 @@ export function CreateWorktree({ worktreeService, onComplete, onCancel }: Create
     try {
       setLoading(true)
       const gitService = worktreeService.getGitService()
-      const allBranches = await gitService.listBranches()
+      const [allBranches, allRemoteBranches] = await Promise.all([
+        gitService.listBranches(),
+        gitService.listRemoteBranches(),
+      ])
       setBranches(allBranches)
+      setRemoteBranches(allRemoteBranches)
       setRepoPath(gitService.getGitRoot())
     } catch (error) {
       setState((prev) => ({
@@ -57,6 +85,11 @@ export function CreateWorktree({ worktreeService, onComplete, onCancel }: Create
   }, [loadBranches])
 
   useInput((input, key) => {
+    // Failed post-create commands keep the success step up until acknowledged
+    if (state.step === "success" && state.postCreateFailures?.length) {
+      onComplete()
+      return
+    }
     if (state.error) {
       if (key.escape || key.return || input) {
         setState((prev) => {
@@ -67,6 +100,30 @@ export function CreateWorktree({ worktreeService, onComplete, onCancel }: Create
     }
   })
 
+  const profile = state.profile !== undefined ? configService.getProfile(state.profile) : undefined
+  const profileSourceBranch = profile?.sourceBranch
+    ? resolveProfileSourceBranch(profile.sourceBranch, [...branches, ...remoteBranches])
+    : undefined
+  const activeConfig =
+    state.profile !== undefined
+      ? configService.getProfileConfig(state.profile)
+      : configService.getConfig()
+  const promptedVariables = getPromptedBranchVariables(activeConfig.branchNameTemplate)
+  const pendingVariable = promptedVariables.find(
+    (variable) => state.branchVariables?.[variable] === undefined
+  )
+
+  const handleProfileSelect = (profileName: string): void => {
+    setState((prev) => {
+      const { profile: _profile, ...rest } = prev
+      return {
+        ...rest,
+        ...(profileName && { profile: profileName }),
+        step: "directory",
+      }
+    })
+  }
+
   const handleDirectorySubmit = (directoryName: string): void => {
     setState((prev) => ({
       ...prev,
@@ -83,53 +140,139 @@ export function CreateWorktree({ worktreeService, onComplete, onCancel }: Create
       }))
       return
     }
+    if (sourceBranch === "__PULL_REQUEST__") {
+      setState((prev) => ({
+        ...prev,
+        step: "pull-request",
+      }))
+      return
+    }
+    setState((prev) => {
+      const { pullRequest: _pullRequest, ...rest } = clearRemoteSelection(prev)
+      return {
+        ...rest,
+        sourceBranch,
+        newBranch: "",
+        branchVariables: {},
+        step: getBranchNameStep(sourceBranch),
+      }
+    })
+  }
+
+  const handlePullRequestSubmit = (value: string): void => {
+    const prNumber = parsePullRequestNumber(value)
+    if (prNumber === null) return
+
+    // The PR head is fetched into a local pr-<n> branch, which the worktree checks out
+    const localBranch = `pr-${prNumber}`
     setState((prev) => ({
-      ...prev,
-      sourceBranch,
-      newBranch: "",
-      step: "new-branch",
+      ...clearRemoteSelection(prev),
+      pullRequest: prNumber,
+      sourceBranch: localBranch,
+      newBranch: localBranch,
+      step: "confirm",
     }))
   }
 
   const handleCustomRefSubmit = (ref: string): void => {
-    setState((prev) => ({
-      ...prev,
-      sourceBranch: ref.trim(),
-      newBranch: "",
-      step: "new-branch",
-    }))
+    setState((prev) => {
+      const { pullRequest: _pullRequest, ...rest } = clearRemoteSelection(prev)
+      return {
+        ...rest,
+        sourceBranch: ref.trim(),
+        newBranch: "",
+        branchVariables: {},
+        step: getBranchNameStep(ref.trim()),
+      }
+    })
+  }
+
+  const findRemoteBranch = (name: string): GitBranch | undefined =>
+    remoteBranches.find((b) => b.name === name)
+
+  // Remote sources default to a blank name so Enter creates the tracking branch,
+  // unless the profile picked the source as a base for a new branch
+  const offersTrackingBranch = (sourceBranch: string): boolean =>
+    findRemoteBranch(sourceBranch) !== undefined && sourceBranch !== profileSourceBranch
+
+  // Template variables are only asked for when the template suggests the name
+  const getBranchNameStep = (sourceBranch: string): CreateWorktreeState["step"] =>
+    promptedVariables.length > 0 && !offersTrackingBranch(sourceBranch)
+      ? "branch-variables"
+      : "new-branch"
+
+  const handleBranchVariableSubmit = (value: string): void => {
+    if (pendingVariable === undefined) return
+
+    setState((prev) => {
+      const branchVariables = { ...prev.branchVariables, [pendingVariable]: value.trim() }
+      const done = promptedVariables.every((variable) => branchVariables[variable] !== undefined)
+      return { ...prev, branchVariables, step: done ? "new-branch" : "branch-variables" }
+    })
+  }
+
+  const getSuggestedBranchName = (): string => {
+    const template = activeConfig.branchNameTemplate
+    const name = template
+      ? renderBranchName(template, {
+          ...getDerivedBranchVariables({
+            name: state.directoryName,
+            sourceBranch: state.sourceBranch,
+            baseName: getRepositoryBaseName(repoPath || getRepositoryRoot()),
+          }),
+          ...state.branchVariables,
+        })
+      : state.directoryName
+    return applyBranchPrefix(name, profile?.branchPrefix)
   }
 
   const handleNewBranchSubmit = (newBranch: string): void => {
     const trimmedBranch = newBranch.trim()
+    const remoteEntry = findRemoteBranch(state.sourceBranch)
+
     if (trimmedBranch) {
       setState((prev) => ({
-        ...prev,
+        ...clearRemoteSelection(prev),
         newBranch: trimmedBranch,
+        ...(remoteEntry && { remoteBranch: remoteEntry.name }),
+        step: "confirm",
+      }))
+    } else if (remoteEntry?.localName) {
+      // Remote source: create a local branch of the same short name tracking the
+      // remote, or offer to reuse the local branch if one already exists.
+      const localName = remoteEntry.localName
+      const hasLocal = branches.some((b) => b.name === localName && !b.isRemote)
+      setState((prev) => ({
+        ...prev,
+        newBranch: localName,
+        remoteBranch: remoteEntry.name,
+        reuseLocalBranch: hasLocal,
         step: "confirm",
       }))
     } else {
       // No new branch name — use source branch directly.
-      // For remote branches, derive a local name by stripping the remote prefix.
-      setState((prev) => {
-        const sourceBranch = prev.sourceBranch
-        const remoteEntry = branches.find((b) => b.name === sourceBranch && b.isRemote)
-        const derivedName = remoteEntry ? sourceBranch.replace(/^[^/]+\//, "") : sourceBranch
-        return {
-          ...prev,
-          newBranch: derivedName,
-          step: "confirm",
-        }
-      })
+      setState((prev) => ({
+        ...clearRemoteSelection(prev),
+        newBranch: prev.sourceBranch,
+        step: "confirm",
+      }))
     }
   }
 
+  const handleChooseAnotherName = (): void => {
+    setState((prev) => ({
+      ...clearRemoteSelection(prev),
+      newBranch: "",
+      step: "new-branch",
+    }))
+  }
+
   const validateNewBranchName = (name: string): string | undefined => {
     if (!name.trim()) {
       return undefined
     }
 
-    const formatError = validateBranchName(name)
+    const formatError = validateBranchNameConvention(name, activeConfig.branchNamePattern)
     if (formatError) {
       return formatError
     }
@@ -146,25 +289,49 @@ export function CreateWorktree({ worktreeService, onComplete, onCancel }: Create
     try {
       setState((prev) => ({ ...prev, step: "creating" }))
 
-      const config = worktreeService.getConfigService().getConfig()
+      const config = activeConfig
       const gitRoot = repoPath || getRepositoryRoot()
       const worktreePath = getWorktreePath(
         gitRoot,
         state.directoryName,
-        config.worktreePathTemplate
+        config.worktreePathTemplate,
+        state.newBranch,
+        state.sourceBranch
       )
-      const parentDir = worktreePath.replace(`/${state.directoryName}`, "")
+      const parentDir = dirname(worktreePath)
 
       const gitService = worktreeService.getGitService()
+      let postCreateFailures: PostCreateCommandResult[] = []
+
+      if (state.pullRequest !== undefined) {
+        setState((prev) => ({ ...prev, currentCommand: MESSAGES.CREATE_FETCHING_PULL_REQUEST }))
+        await gitService.fetchPullRequest(
+          state.pullRequest,
+          config.pullRequestRemote,
+          state.sourceBranch
+        )
+        setState((prev) => ({ ...prev, currentCommand: MESSAGES.CREATE_CREATING }))
+      }
+
+      // Reusing a local branch checks it out directly; otherwise a remote source is tracked
       await gitService.createWorktree({
         name: state.directoryName,
-        sourceBranch: state.sourceBranch,
+        sourceBranch: state.reuseLocalBranch ? state.newBranch : state.sourceBranch,
         newBranch: state.newBranch,
         basePath: parentDir,
+        track: state.remoteBranch !== undefined && !state.reuseLocalBranch,
       })
 
       if (config.worktreeCopyPatterns.length > 0) {
-        await copyFiles(gitRoot, worktreePath, config)
+        await worktreeService.copyFilesToWorktree(worktreePath, gitRoot, config)
+      }
+
+      const variables = {
+        BASE_PATH: gitRoot.split("/").pop() || "",
+        WORKTREE_PATH: worktreePath,
+        BRANCH_NAME: state.newBranch,
+        SOURCE_BRANCH: state.sourceBranch,
+        REPO_ROOT: gitRoot,
       }
 
       if (config.postCreateCmd.length > 0) {
@@ -172,18 +339,17 @@ export function CreateWorktree({ worktreeService, onComplete, onCancel }: Create
           ...prev,
           step: "running-commands",
           commandProgress: { current: 0, total: config.postCreateCmd.length },
-          postCreateCommands: config.postCreateCmd,
-          currentCommandIndex: 0,
+          postCreateCommands: config.postCreateCmd.map(getPostCreateCommandText),
+          postCreateStatuses: config.postCreateCmd.map(() => "pending"),
+          commandOutput: {},
         }))
 
-        const variables = {
-          BASE_PATH: gitRoot.split("/").pop() || "",
-          WORKTREE_PATH: worktreePath,
-          BRANCH_NAME: state.newBranch,
-          SOURCE_BRANCH: state.sourceBranch,
+        const logPath = await worktreeService.getPostCreateLogPath(worktreePath)
+        if (logPath) {
+          setState((prev) => ({ ...prev, postCreateLogPath: logPath }))
         }
 
-        await executePostCreateCommands(
+        const results = await executePostCreateCommands(
           config.postCreateCmd,
           variables,
           (command, current, total) => {
@@ -191,21 +357,49 @@ export function CreateWorktree({ worktreeService, onComplete, onCancel }: Create
               ...prev,
               currentCommand: command,
               commandProgress: { current, total },
-              currentCommandIndex: current - 1,
             }))
+          },
+          {
+            onStatusChange: (index, status) => {
+              setState((prev) => ({
+                ...prev,
+                postCreateStatuses: (prev.postCreateStatuses ?? []).map((current, i) =>
+                  i === index ? status : current
+                ),
+              }))
+            },
+            onOutput: (chunk, _command, index) => {
+              setState((prev) => ({
+                ...prev,
+                commandOutput: {
+                  ...prev.commandOutput,
+                  [index]: appendOutputTail(
+                    prev.commandOutput?.[index] ?? [],
+                    chunk,
+                    OUTPUT_TAIL_LINES
+                  ),
+                },
+              }))
+            },
+            ...(logPath && { logPath }),
+            continueOnError: config.postCreateContinueOnError,
+            timeoutSeconds: config.postCreateTimeoutSeconds,
           }
         )
+        postCreateFailures = results.filter((result) => !result.success)
       }
 
       if (config.terminalCommand) {
-        await openTerminal(config.terminalCommand, worktreePath)
+        await openTerminal(config.terminalCommand, worktreePath, variables)
       }
 
-      setState((prev) => ({ ...prev, step: "success" }))
+      setState((prev) => ({ ...prev, step: "success", postCreateFailures }))
 
-      setTimeout(() => {
-        onComplete()
-      }, 2000)
+      if (postCreateFailures.length === 0) {
+        setTimeout(() => {
+          onComplete()
+        }, 2000)
+      }
     } catch (error) {
       setState((prev) => ({
         ...prev,
@@ -215,17 +409,38 @@ export function CreateWorktree({ worktreeService, onComplete, onCancel }: Create
     }
   }
 
+  const getProfileOptions = (): SelectOption<string>[] => [
+    { label: MESSAGES.CREATE_PROFILE_NONE, value: "", description: "use the configuration as-is" },
+    ...Object.entries(configService.getConfig().profiles).map(([name, entry]) => ({
+      label: name,
+      value: name,
+      ...(entry.description && { description: entry.description }),
+    })),
+  ]
+
   const getBranchOptions = (): SelectOption<string>[] => {
     const options: SelectOption<string>[] = []
 
+    // A profile source that only exists on a remote isn't in the local branch list
+    if (profileSourceBranch && !branches.some((branch) => branch.name === profileSourceBranch)) {
+      options.push({
+        label: profileSourceBranch,
+        value: profileSourceBranch,
+        description: `profile ${state.profile}`,
+        isDefault: true,
+      })
+    }
+
     for (const branch of branches) {
       const option: SelectOption<string> = {
         label: branch.name,
         value: branch.name,
-        isDefault: branch.isCurrent,
+        isDefault: profileSourceBranch ? branch.name === profileSourceBranch : branch.isCurrent,
       }
 
-      if (branch.isCurrent) {
+      if (branch.name === profileSourceBranch) {
+        option.description = `profile ${state.profile}`
+      } else if (branch.isCurrent) {
         option.description = "current"
       } else if (branch.isDefault) {
         option.description = "default"
@@ -241,6 +456,12 @@ export function CreateWorktree({ worktreeService, onComplete, onCancel }: Create
       value: "__CUSTOM_REF__",
     })
 
+    options.push({
+      label: MESSAGES.CREATE_PULL_REQUEST_OPTION,
+      value: "__PULL_REQUEST__",
+      description: `fetch from ${configService.getConfig().pullRequestRemote}`,
+    })
+
     return options
   }
 
@@ -260,6 +481,16 @@ export function CreateWorktree({ worktreeService, onComplete, onCancel }: Create
   }
 
   switch (state.step) {
+    case "profile":
+      return (
+        <SelectPrompt
+          label={MESSAGES.CREATE_PROFILE_PROMPT}
+          options={getProfileOptions()}
+          onSelect={handleProfileSelect}
+          onCancel={onCancel}
+        />
+      )
+
     case "directory":
       return (
         <InputPrompt
@@ -297,27 +528,79 @@ export function CreateWorktree({ worktreeService, onComplete, onCancel }: Create
         />
       )
 
-    case "new-branch":
+    case "pull-request":
+      return (
+        <InputPrompt
+          label={MESSAGES.CREATE_PULL_REQUEST_PROMPT}
+          placeholder={MESSAGES.CREATE_PULL_REQUEST_PLACEHOLDER}
+          validate={(v) =>
+            parsePullRequestNumber(v) === null ? "Please enter a pull request number" : undefined
+          }
+          onSubmit={handlePullRequestSubmit}
+          onCancel={onCancel}
+        />
+      )
+
+    case "branch-variables":
       return (
         <InputPrompt
-          label={MESSAGES.CREATE_NEW_BRANCH_PROMPT}
+          key={pendingVariable}
+          label={`${MESSAGES.CREATE_BRANCH_VARIABLE_PROMPT} $${pendingVariable} (${activeConfig.branchNameTemplate}):`}
+          validate={(v) => (!v.trim() ? "Please enter a value" : undefined)}
+          onSubmit={handleBranchVariableSubmit}
+          onCancel={onCancel}
+        />
+      )
+
+    case "new-branch": {
+      const isRemoteSource = offersTrackingBranch(state.sourceBranch)
+      return (
+        <InputPrompt
+          label={
+            isRemoteSource
+              ? MESSAGES.CREATE_NEW_BRANCH_REMOTE_PROMPT
+              : MESSAGES.CREATE_NEW_BRANCH_PROMPT
+          }
           placeholder={MESSAGES.CREATE_NEW_BRANCH_PLACEHOLDER}
-          defaultValue={state.directoryName}
+          defaultValue={isRemoteSource ? "" : getSuggestedBranchName()}
           validate={validateNewBranchName}
           onSubmit={handleNewBranchSubmit}
           onCancel={onCancel}
         />
       )
+    }
 
     case "confirm": {
+      if (state.reuseLocalBranch) {
+        return (
+          <ConfirmDialog
+            title={MESSAGES.CREATE_REUSE_LOCAL_TITLE}
+            message={`Local branch '${state.newBranch}' already exists. Create worktree '${state.directoryName}' using it instead of a new branch from '${state.remoteBranch}'?`}
+            confirmLabel={MESSAGES.CREATE_REUSE_LOCAL_CONFIRM}
+            cancelLabel={MESSAGES.CREATE_REUSE_LOCAL_CANCEL}
+            onConfirm={handleConfirm}
+            onCancel={handleChooseAnotherName}
+          />
+        )
+      }
+
       const isUsingExistingBranch = state.newBranch === state.sourceBranch
-      const message = isUsingExistingBranch
-        ? `Create worktree '${state.directoryName}' using existing branch '${state.sourceBranch}'?`
-        : `Create worktree '${state.directoryName}' with new branch '${state.newBranch}' from '${state.sourceBranch}'?`
+      const message =
+        state.pullRequest !== undefined
+          ? `Create worktree '${state.directoryName}' from pull request #${state.pullRequest} as branch '${state.sourceBranch}'?`
+          : isUsingExistingBranch
+            ? `Create worktree '${state.directoryName}' using existing branch '${state.sourceBranch}'?`
+            : state.remoteBranch
+              ? `Create worktree '${state.directoryName}' with new branch '${state.newBranch}' tracking '${state.remoteBranch}'?`
+              : `Create worktree '${state.directoryName}' with new branch '${state.newBranch}' from '${state.sourceBranch}'?`
 
       return (
         <ConfirmDialog
-          title={MESSAGES.CREATE_CONFIRM_TITLE}
+          title={
+            state.profile !== undefined
+              ? `${MESSAGES.CREATE_CONFIRM_TITLE} (profile ${state.profile})`
+              : MESSAGES.CREATE_CONFIRM_TITLE
+          }
           message={message}
           onConfirm={handleConfirm}
           onCancel={onCancel}
@@ -326,20 +609,64 @@ export function CreateWorktree({ worktreeService, onComplete, onCancel }: Create
     }
 
     case "creating":
-      return <StatusIndicator status="loading" message={MESSAGES.CREATE_CREATING} />
+      return (
+        <StatusIndicator
+          status="loading"
+          message={state.currentCommand || MESSAGES.CREATE_CREATING}
+        />
+      )
 
     case "running-commands":
       return (
         <CommandListProgress
           commands={state.postCreateCommands || []}
-          currentIndex={state.currentCommandIndex || 0}
+          statuses={state.postCreateStatuses ?? []}
+          output={Object.fromEntries(
+            Object.entries(state.commandOutput ?? {}).map(([index, lines]) => [
+              index,
+              visibleOutputTail(lines, OUTPUT_TAIL_LINES),
+            ])
+          )}
         />
       )
 
     case "success":
-      return <StatusIndicator status="success" message={MESSAGES.CREATE_SUCCESS} spinner={false} />
+      return (
+        <Box flexDirection="column">
+          <StatusIndicator status="success" message={MESSAGES.CREATE_SUCCESS} spinner={false} />
+          {state.postCreateFailures && state.postCreateFailures.length > 0 && (
+            <Box flexDirection="column" marginTop={1}>
+              <Text color={COLORS.ERROR}>{MESSAGES.CREATE_POST_CREATE_FAILED}</Text>
+              {state.postCreateFailures.map((failure, index) => (
+                <Text key={`${index}-${failure.command}`} color={COLORS.ERROR}>
+                  {"  "}
+                  {failure.skipped ? "[SKIPPED]" : "[FAILED]"} {failure.command}
+                  {failure.error && !failure.skipped ? ` (${firstLine(failure.error)})` : ""}
+                </Text>
+              ))}
+            </Box>
+          )}
+          {state.postCreateLogPath && (
+            <Text color={COLORS.MUTED}>
+              {MESSAGES.CREATE_POST_CREATE_LOG} {state.postCreateLogPath}
+            </Text>
+          )}
+          {state.postCreateFailures && state.postCreateFailures.length > 0 && (
+            <Text color={COLORS.MUTED}>Press any key to continue...</Text>
+          )}
+        </Box>
+      )
 
     default:
       return <Text>Unknown step</Text>
   }
 }
+
+function firstLine(text: string): string {
+  return text.trim().split("\n")[0] ?? ""
+}
+
+function clearRemoteSelection(state: CreateWorktreeState): CreateWorktreeState {
+  const { remoteBranch: _remoteBranch, reuseLocalBranch: _reuseLocalBranch, ...rest } = state
+  return rest
+}
@@ -1,9 +1,31 @@
 import { Box, Text, useInput } from "ink"
 import { useCallback, useEffect, useState } from "react"
-import { ConfirmDialog, SelectPrompt, StatusIndicator } from "../../components/common/index.js"
+import {
+  CommandListProgress,
+  ConfirmDialog,
+  MultiSelectPrompt,
+  SelectPrompt,
+  StatusIndicator,
+} from "../../components/common/index.js"
 import { COLORS, MESSAGES } from "../../constants/index.js"
 import type { WorktreeService } from "../../services/index.js"
-import type { DeleteWorktreeState, GitWorktree, SelectOption } from "../../types/index.js"
+import type {
+  BulkDeleteResult,
+  DeleteWorktreeState,
+  GitWorktree,
+  PostCreateCommandResult,
+  SelectOption,
+  WorktreeDeleteHooks,
+} from "../../types/index.js"
+import { appendOutputTail, visibleOutputTail } from "../../utils/index.js"
+
+const MULTI_SELECT_OPTION = "__MULTI_SELECT__"
+const OUTPUT_TAIL_LINES = 5
+
+const formatPath = (path: string): string => {
+  const home = process.env.HOME || ""
+  return path.replace(home, "~")
+}
 
 interface DeleteWorktreeProps {
   worktreeService: WorktreeService
@@ -17,6 +39,7 @@ export function DeleteWorktree({ worktreeService, onComplete, onCancel }: Delete
     force: false,
   })
   const [worktrees, setWorktrees] = useState<GitWorktree[]>([])
+  const [mergedBranches, setMergedBranches] = useState<string[]>([])
   const [loading, setLoading] = useState(true)
   const config = worktreeService.getConfigService().getConfig()
 
@@ -24,10 +47,14 @@ export function DeleteWorktree({ worktreeService, onComplete, onCancel }: Delete
     try {
       setLoading(true)
       const gitService = worktreeService.getGitService()
-      const repoInfo = await gitService.getRepositoryInfo()
+      const [repoInfo, merged] = await Promise.all([
+        gitService.getRepositoryInfo(),
+        gitService.listMergedBranches(),
+      ])
 
       const deletableWorktrees = repoInfo.worktrees.filter((wt) => !wt.isMain)
       setWorktrees(deletableWorktrees)
+      setMergedBranches(merged)
     } catch (error) {
       setState((prev) => ({
         ...prev,
@@ -47,10 +74,25 @@ export function DeleteWorktree({ worktreeService, onComplete, onCancel }: Delete
       if (key.escape || key.return || input) {
         onCancel()
       }
+      return
+    }
+
+    if (state.step === "bulk-result" && (key.escape || key.return || input)) {
+      onComplete()
+    }
+
+    // Failed post-delete commands keep the success step up until acknowledged
+    if (state.step === "success" && getPostDeleteFailures(state).length > 0) {
+      onComplete()
     }
   })
 
   const handleWorktreeSelect = (path: string): void => {
+    if (path === MULTI_SELECT_OPTION) {
+      setState((prev) => ({ ...prev, step: "multi-select" }))
+      return
+    }
+
     setState((prev) => ({
       ...prev,
       selectedWorktree: path,
@@ -58,35 +100,118 @@ export function DeleteWorktree({ worktreeService, onComplete, onCancel }: Delete
     }))
   }
 
+  const deleteHooks: WorktreeDeleteHooks = {
+    onHookStart: (hook, commands) => {
+      setState((prev) => ({
+        ...prev,
+        deleteHook: hook,
+        hookCommands: commands,
+        hookStatuses: commands.map(() => "pending"),
+        hookOutput: {},
+      }))
+    },
+    onStatusChange: (index, status) => {
+      setState((prev) => ({
+        ...prev,
+        hookStatuses: (prev.hookStatuses ?? []).map((current, i) =>
+          i === index ? status : current
+        ),
+      }))
+    },
+    onOutput: (chunk, _command, index) => {
+      setState((prev) => ({
+        ...prev,
+        hookOutput: {
+          ...prev.hookOutput,
+          [index]: appendOutputTail(prev.hookOutput?.[index] ?? [], chunk, OUTPUT_TAIL_LINES),
+        },
+      }))
+    },
+  }
+
   const handleConfirm = async (force = false): Promise<void> => {
     if (!state.selectedWorktree) return
 
     try {
       setState((prev) => ({ ...prev, step: "deleting" }))
 
-      const result = await worktreeService.deleteWorktree(state.selectedWorktree, force)
+      const result = await worktreeService.deleteWorktree(
+        state.selectedWorktree,
+        force,
+        deleteHooks
+      )
 
       setState((prev) => ({ ...prev, step: "success", deleteResult: result }))
 
-      setTimeout(() => {
-        onComplete()
-      }, 2500)
+      if (!result.postDeleteResults?.some((command) => !command.success)) {
+        setTimeout(() => {
+          onComplete()
+        }, 2500)
+      }
     } catch (error) {
       setState((prev) => ({
-        ...prev,
+        ...clearHookProgress(prev),
         error: error instanceof Error ? error.message : String(error),
         step: "select",
       }))
     }
   }
 
-  const getWorktreeOptions = (): SelectOption<string>[] => {
-    return worktrees.map((worktree) => {
-      const formatPath = (path: string): string => {
-        const home = process.env.HOME || ""
-        return path.replace(home, "~")
+  const handleBulkSelect = (paths: string[]): void => {
+    setState((prev) => ({
+      ...prev,
+      selectedWorktrees: paths,
+      step: "bulk-confirm",
+    }))
+  }
+
+  const handleBulkConfirm = async (): Promise<void> => {
+    const targets = state.selectedWorktrees ?? []
+    const results: BulkDeleteResult[] = []
+
+    setState((prev) => ({ ...prev, step: "bulk-deleting", bulkCurrentIndex: 0, bulkResults: [] }))
+
+    // Delete one at a time: git serializes worktree metadata updates anyway
+    for (const [index, path] of targets.entries()) {
+      setState((prev) => ({ ...prev, bulkCurrentIndex: index }))
+
+      const worktree = worktrees.find((wt) => wt.path === path)
+      try {
+        const result = await worktreeService.deleteWorktree(
+          path,
+          worktree?.isClean === false,
+          deleteHooks
+        )
+        const postDeleteFailures =
+          result.postDeleteResults?.filter((command) => !command.success) ?? []
+        results.push({
+          path,
+          success: true,
+          branchDeleted: result.branchDeleted,
+          ...(result.branchName && { branchName: result.branchName }),
+          ...(postDeleteFailures.length > 0 && { postDeleteFailures }),
+        })
+      } catch (error) {
+        results.push({
+          path,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        })
       }
 
+      setState((prev) => ({ ...clearHookProgress(prev), bulkResults: [...results] }))
+    }
+
+    setState((prev) => ({ ...prev, step: "bulk-result", bulkCurrentIndex: targets.length }))
+  }
+
+  const getBulkLabel = (path: string): string => {
+    const worktree = worktrees.find((wt) => wt.path === path)
+    return `${formatPath(path)} [${worktree?.branch ?? "unknown"}]`
+  }
+
+  const getWorktreeOptions = (): SelectOption<string>[] => {
+    return worktrees.map((worktree) => {
       const statusParts: string[] = []
 
       if (!worktree.isClean) {
@@ -117,6 +242,23 @@ export function DeleteWorktree({ worktreeService, onComplete, onCancel }: Delete
     return worktrees.find((wt) => wt.path === state.selectedWorktree)
   }
 
+  const getSelectOptions = (): SelectOption<string>[] => {
+    const options = getWorktreeOptions()
+    if (worktrees.length > 1) {
+      options.push({ label: MESSAGES.DELETE_MULTI_SELECT_OPTION, value: MULTI_SELECT_OPTION })
+    }
+    return options
+  }
+
+  const getMultiSelectOptions = (): SelectOption<string>[] => {
+    return getWorktreeOptions().map((option) => {
+      const worktree = worktrees.find((wt) => wt.path === option.value)
+      const isMerged = worktree ? mergedBranches.includes(worktree.branch) : false
+      const description = [option.description, isMerged ? "merged" : ""].filter(Boolean).join(", ")
+      return { ...option, description }
+    })
+  }
+
   if (loading) {
     return <StatusIndicator status="loading" message={MESSAGES.LOADING_WORKTREES} />
   }
@@ -148,12 +290,159 @@ export function DeleteWorktree({ worktreeService, onComplete, onCancel }: Delete
       return (
         <SelectPrompt
           label={MESSAGES.DELETE_SELECT_PROMPT}
-          options={getWorktreeOptions()}
+          options={getSelectOptions()}
           onSelect={handleWorktreeSelect}
           onCancel={onCancel}
         />
       )
 
+    case "multi-select":
+      return (
+        <MultiSelectPrompt
+          label={MESSAGES.DELETE_MULTI_SELECT_PROMPT}
+          options={getMultiSelectOptions()}
+          shortcuts={[
+            {
+              key: "a",
+              label: "all clean",
+              values: worktrees.filter((wt) => wt.isClean).map((wt) => wt.path),
+            },
+            {
+              key: "m",
+              label: "all merged",
+              values: worktrees
+                .filter((wt) => mergedBranches.includes(wt.branch))
+                .map((wt) => wt.path),
+            },
+          ]}
+          onSubmit={handleBulkSelect}
+          onCancel={() => setState((prev) => ({ ...prev, step: "select" }))}
+        />
+      )
+
+    case "bulk-confirm": {
+      const selected = worktrees.filter((wt) => state.selectedWorktrees?.includes(wt.path))
+      const dirtyCount = selected.filter((wt) => !wt.isClean).length
+      const deletesBranches = config.deleteBranchWithWorktree
+
+      return (
+        <ConfirmDialog
+          title={dirtyCount > 0 ? "Force Delete Worktrees" : MESSAGES.DELETE_BULK_CONFIRM_TITLE}
+          message={
+            <Box flexDirection="column">
+              <Text>Delete {selected.length} worktrees?</Text>
+              <Box flexDirection="column" marginLeft={2}>
+                {selected.map((wt) => (
+                  <Text key={wt.path}>
+                    • <Text bold>{formatPath(wt.path)}</Text>{" "}
+                    <Text color={COLORS.SUCCESS}>[{wt.branch}]</Text>
+                    {!wt.isClean && <Text color={COLORS.WARNING}> has changes</Text>}
+                  </Text>
+                ))}
+              </Box>
+              {deletesBranches && (
+                <Text color={COLORS.WARNING}>Their branches will also be deleted!</Text>
+              )}
+              {dirtyCount > 0 && (
+                <Text color={COLORS.WARNING}>
+                  {dirtyCount} worktrees with uncommitted changes will be force deleted!
+                </Text>
+              )}
+              <Text>{MESSAGES.DELETE_WARNING}</Text>
+            </Box>
+          }
+          variant={dirtyCount > 0 || deletesBranches ? "danger" : "warning"}
+          confirmLabel={dirtyCount > 0 ? "Force Delete" : "Yes"}
+          onConfirm={handleBulkConfirm}
+          onCancel={() => setState((prev) => ({ ...prev, step: "multi-select" }))}
+        />
+      )
+    }
+
+    case "bulk-deleting":
+    case "bulk-result": {
+      const targets = state.selectedWorktrees ?? []
+      const results = state.bulkResults ?? []
+      const failures = results.filter((r) => !r.success)
+      const hookFailures = results.filter((r) => r.postDeleteFailures)
+      const isDone = state.step === "bulk-result"
+
+      return (
+        <Box flexDirection="column">
+          <CommandListProgress
+            title={MESSAGES.DELETE_BULK_DELETING}
+            commands={targets.map(getBulkLabel)}
+            statuses={targets.map((_, index) => {
+              const result = results[index]
+              if (result) return result.success ? "done" : "failed"
+              return index === state.bulkCurrentIndex ? "running" : "pending"
+            })}
+          />
+          {!isDone && state.hookCommands && (
+            <Box marginTop={1}>
+              <CommandListProgress
+                title={
+                  state.deleteHook === "preDeleteCmd"
+                    ? MESSAGES.DELETE_PRE_DELETE_RUNNING
+                    : MESSAGES.DELETE_POST_DELETE_RUNNING
+                }
+                commands={state.hookCommands}
+                statuses={state.hookStatuses ?? []}
+                output={Object.fromEntries(
+                  Object.entries(state.hookOutput ?? {}).map(([index, lines]) => [
+                    index,
+                    visibleOutputTail(lines, OUTPUT_TAIL_LINES),
+                  ])
+                )}
+              />
+            </Box>
+          )}
+          {failures.length > 0 && (
+            <Box flexDirection="column" marginTop={1}>
+              {failures.map((failure) => (
+                <Text key={failure.path} color={COLORS.ERROR}>
+                  {formatPath(failure.path)}: {failure.error}
+                </Text>
+              ))}
+            </Box>
+          )}
+          {hookFailures.length > 0 && (
+            <Box flexDirection="column" marginTop={1}>
+              <Text color={COLORS.ERROR}>{MESSAGES.DELETE_POST_DELETE_FAILED}</Text>
+              {hookFailures.map((result) => (
+                <Box key={result.path} flexDirection="column">
+                  <Text color={COLORS.ERROR}>
+                    {"  "}
+                    {formatPath(result.path)}
+                  </Text>
+                  {result.postDeleteFailures?.map((failure, index) => (
+                    <Text key={`${index}-${failure.command}`} color={COLORS.ERROR}>
+                      {"    "}
+                      {failure.skipped ? "[SKIPPED]" : "[FAILED]"} {failure.command}
+                    </Text>
+                  ))}
+                </Box>
+              ))}
+            </Box>
+          )}
+          {isDone && (
+            <Box flexDirection="column" marginTop={1}>
+              <Text
+                color={
+                  failures.length > 0 || hookFailures.length > 0 ? COLORS.WARNING : COLORS.SUCCESS
+                }
+              >
+                Deleted {results.length - failures.length} of {targets.length} worktrees
+                {results.some((r) => r.branchDeleted) &&
+                  ` (${results.filter((r) => r.branchDeleted).length} branches deleted)`}
+              </Text>
+              <Text color={COLORS.MUTED}>Press any key to go back...</Text>
+            </Box>
+          )}
+        </Box>
+      )
+    }
+
     case "confirm": {
       const selectedWorktree = getSelectedWorktree()
       const hasChanges = selectedWorktree && !selectedWorktree.isClean
@@ -221,7 +510,35 @@ export function DeleteWorktree({ worktreeService, onComplete, onCancel }: Delete
       const selectedWorktree = getSelectedWorktree()
       const branchName = selectedWorktree?.branch || ""
       const message = `${MESSAGES.DELETE_DELETING} (${branchName})`
-      return <StatusIndicator status="loading" message={message} />
+
+      if (!state.deleteHook || !state.hookCommands) {
+        return <StatusIndicator status="loading" message={message} />
+      }
+
+      return (
+        <Box flexDirection="column">
+          <CommandListProgress
+            title={
+              state.deleteHook === "preDeleteCmd"
+                ? MESSAGES.DELETE_PRE_DELETE_RUNNING
+                : MESSAGES.DELETE_POST_DELETE_RUNNING
+            }
+            commands={state.hookCommands}
+            statuses={state.hookStatuses ?? []}
+            output={Object.fromEntries(
+              Object.entries(state.hookOutput ?? {}).map(([index, lines]) => [
+                index,
+                visibleOutputTail(lines, OUTPUT_TAIL_LINES),
+              ])
+            )}
+          />
+          {state.deleteHook === "preDeleteCmd" && (
+            <Box marginTop={1}>
+              <Text color={COLORS.MUTED}>{message}</Text>
+            </Box>
+          )}
+        </Box>
+      )
     }
 
     case "success": {
@@ -234,10 +551,44 @@ export function DeleteWorktree({ worktreeService, onComplete, onCancel }: Delete
         message = `Worktree deleted. Branch '${result.branchName}' was kept.`
       }
 
-      return <StatusIndicator status="success" message={message} spinner={false} />
+      const failures = getPostDeleteFailures(state)
+      if (failures.length === 0) {
+        return <StatusIndicator status="success" message={message} spinner={false} />
+      }
+
+      return (
+        <Box flexDirection="column">
+          <StatusIndicator status="success" message={message} spinner={false} />
+          <Box flexDirection="column" marginTop={1}>
+            <Text color={COLORS.ERROR}>{MESSAGES.DELETE_POST_DELETE_FAILED}</Text>
+            {failures.map((failure, index) => (
+              <Text key={`${index}-${failure.command}`} color={COLORS.ERROR}>
+                {"  "}
+                {failure.skipped ? "[SKIPPED]" : "[FAILED]"} {failure.command}
+              </Text>
+            ))}
+          </Box>
+          <Text color={COLORS.MUTED}>Press any key to continue...</Text>
+        </Box>
+      )
     }
 
     default:
       return <Text>Unknown step</Text>
   }
 }
+
+function getPostDeleteFailures(state: DeleteWorktreeState): PostCreateCommandResult[] {
+  return state.deleteResult?.postDeleteResults?.filter((result) => !result.success) ?? []
+}
+
+function clearHookProgress(state: DeleteWorktreeState): DeleteWorktreeState {
+  const {
+    deleteHook: _deleteHook,
+    hookCommands: _hookCommands,
+    hookStatuses: _hookStatuses,
+    hookOutput: _hookOutput,
+    ...rest
+  } = state
+  return rest
+}
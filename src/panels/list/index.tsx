@@ -1,10 +1,19 @@
+import { basename } from "node:path"
 import { Box, Text, useInput } from "ink"
 import { useCallback, useEffect, useState } from "react"
-import { SelectPrompt, StatusIndicator } from "../../components/common/index.js"
+import { InputPrompt, SelectPrompt, StatusIndicator } from "../../components/common/index.js"
 import { COLORS, MESSAGES } from "../../constants/index.js"
+import { AppStateService } from "../../services/app-state-service.js"
 import { openTerminal } from "../../services/file-service.js"
 import type { WorktreeService } from "../../services/index.js"
-import type { GitWorktree, SelectOption } from "../../types/index.js"
+import type {
+  GitWorktree,
+  SelectOption,
+  SyncFileChange,
+  WorktreeMoveResult,
+  WorktreeSyncResult,
+} from "../../types/index.js"
+import { validateBranchNameConvention, validateDirectoryName } from "../../utils/index.js"
 
 interface ListWorktreesProps {
   worktreeService: WorktreeService
@@ -13,7 +22,21 @@ interface ListWorktreesProps {
   onPathSelect?: (path: string) => void
 }
 
-type NavigationMode = "list" | "action-menu"
+type NavigationMode = "list" | "action-menu" | "sync" | "rename"
+
+interface RenameState {
+  step: "name" | "branch" | "moving" | "done"
+  name: string
+  result?: WorktreeMoveResult
+  error?: string
+}
+
+const SYNC_STATUS_LABELS: Record<SyncFileChange["status"], string> = {
+  added: "added",
+  updated: "updated",
+  overwritten: "overwritten",
+  skipped: "modified locally, skipped",
+}
 
 export function ListWorktrees({
   worktreeService,
@@ -27,6 +50,11 @@ export function ListWorktrees({
   const [selectedIndex, setSelectedIndex] = useState(0)
   const [navigationMode, setNavigationMode] = useState<NavigationMode>("list")
   const [selectedWorktree, setSelectedWorktree] = useState<GitWorktree | null>(null)
+  const [mainWorktree, setMainWorktree] = useState<GitWorktree | null>(null)
+  const [syncing, setSyncing] = useState(false)
+  const [syncResult, setSyncResult] = useState<WorktreeSyncResult | null>(null)
+  const [syncError, setSyncError] = useState<string>()
+  const [rename, setRename] = useState<RenameState | null>(null)
 
   const loadWorktrees = useCallback(async (): Promise<void> => {
     try {
@@ -36,6 +64,7 @@ export function ListWorktrees({
       const repoInfo = await gitService.getRepositoryInfo()
       const additionalWorktrees = repoInfo.worktrees.filter((wt) => !wt.isMain)
       setWorktrees(additionalWorktrees)
+      setMainWorktree(repoInfo.worktrees.find((wt) => wt.isMain) ?? null)
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err))
     } finally {
@@ -67,6 +96,47 @@ export function ListWorktrees({
     [worktreeService, onBack]
   )
 
+  const handleSync = useCallback(
+    async (worktree: GitWorktree, overwrite: boolean) => {
+      if (!mainWorktree) return
+      setNavigationMode("sync")
+      setSyncing(true)
+      setSyncError(undefined)
+      try {
+        setSyncResult(
+          await worktreeService.syncWorktree(mainWorktree.path, worktree.path, { overwrite })
+        )
+      } catch (err) {
+        setSyncError(err instanceof Error ? err.message : String(err))
+      } finally {
+        setSyncing(false)
+      }
+    },
+    [worktreeService, mainWorktree]
+  )
+
+  const handleRename = useCallback(
+    async (worktree: GitWorktree, name: string, branch: string) => {
+      setRename({ step: "moving", name })
+      try {
+        const result = await worktreeService.moveWorktree(worktree.path, {
+          name,
+          ...(branch !== worktree.branch && { newBranch: branch }),
+        })
+        if (result.newPath !== result.oldPath) {
+          const appStateService = new AppStateService()
+          await appStateService.load()
+          appStateService.renameWorktreePath(result.oldPath, result.newPath)
+          await appStateService.save()
+        }
+        setRename({ step: "done", name, result })
+      } catch (err) {
+        setRename({ step: "done", name, error: err instanceof Error ? err.message : String(err) })
+      }
+    },
+    [worktreeService]
+  )
+
   const handleActionSelect = useCallback(
     (action: string) => {
       if (!selectedWorktree) return
@@ -80,14 +150,41 @@ export function ListWorktrees({
         case "command":
           handleOpenWithCommand(selectedWorktree)
           break
+        case "sync":
+          handleSync(selectedWorktree, false)
+          break
+        case "rename":
+          setRename({ step: "name", name: basename(selectedWorktree.path) })
+          setNavigationMode("rename")
+          break
       }
     },
-    [selectedWorktree, isFromWrapper, onPathSelect, handleOpenWithCommand]
+    [selectedWorktree, isFromWrapper, onPathSelect, handleOpenWithCommand, handleSync]
   )
 
   useInput((input, key) => {
     if (navigationMode === "action-menu") return
 
+    if (navigationMode === "rename") {
+      if (rename?.step !== "done") return
+      setRename(null)
+      setNavigationMode("list")
+      loadWorktrees()
+      return
+    }
+
+    if (navigationMode === "sync") {
+      if (syncing) return
+      const hasSkipped = syncResult?.changes.some((change) => change.status === "skipped")
+      if (hasSkipped && selectedWorktree && input.toLowerCase() === "o") {
+        handleSync(selectedWorktree, true)
+        return
+      }
+      setSyncResult(null)
+      setNavigationMode("list")
+      return
+    }
+
     if (key.escape) {
       onBack()
       return
@@ -186,6 +283,20 @@ export function ListWorktrees({
       })
     }
 
+    if (config.worktreeCopyPatterns.length > 0 && mainWorktree) {
+      actions.push({
+        label: "Sync Copied Files",
+        value: "sync",
+        description: "Copy worktreeCopyPatterns files from the main worktree again",
+      })
+    }
+
+    actions.push({
+      label: "Rename",
+      value: "rename",
+      description: "Move to a new directory name and optionally rename the branch",
+    })
+
     return (
       <Box flexDirection="column">
         <Box marginBottom={1}>
@@ -204,6 +315,134 @@ export function ListWorktrees({
     )
   }
 
+  if (navigationMode === "rename" && selectedWorktree && rename) {
+    const cancelRename = () => {
+      setRename(null)
+      setNavigationMode("list")
+    }
+
+    switch (rename.step) {
+      case "name":
+        return (
+          <InputPrompt
+            key="name"
+            label={MESSAGES.LIST_RENAME_DIRECTORY_PROMPT}
+            defaultValue={rename.name}
+            validate={validateDirectoryName}
+            onSubmit={(name) => {
+              // A detached HEAD has no branch to rename
+              if (selectedWorktree.branch === "detached") {
+                handleRename(selectedWorktree, name, selectedWorktree.branch)
+              } else {
+                setRename({ step: "branch", name })
+              }
+            }}
+            onCancel={cancelRename}
+          />
+        )
+
+      case "branch": {
+        const { branchNamePattern } = worktreeService.getConfigService().getConfig()
+        return (
+          <InputPrompt
+            key="branch"
+            label={MESSAGES.LIST_RENAME_BRANCH_PROMPT}
+            defaultValue={selectedWorktree.branch}
+            validate={(branch) =>
+              branch === selectedWorktree.branch
+                ? undefined
+                : validateBranchNameConvention(branch, branchNamePattern)
+            }
+            onSubmit={(branch) => handleRename(selectedWorktree, rename.name, branch)}
+            onCancel={cancelRename}
+          />
+        )
+      }
+
+      case "moving":
+        return <StatusIndicator status="loading" message={MESSAGES.LIST_RENAMING} />
+
+      case "done":
+        return (
+          <Box flexDirection="column">
+            {rename.error && <Text color={COLORS.ERROR}>{rename.error}</Text>}
+            {rename.result && rename.result.newPath !== rename.result.oldPath && (
+              <Text color={COLORS.SUCCESS}>✓ Moved to {formatPath(rename.result.newPath)}</Text>
+            )}
+            {rename.result?.newBranch && (
+              <Text color={COLORS.SUCCESS}>
+                ✓ Branch renamed: {rename.result.oldBranch} → {rename.result.newBranch}
+              </Text>
+            )}
+            <Box marginTop={1}>
+              <Text color={COLORS.MUTED}>Press any key to go back...</Text>
+            </Box>
+          </Box>
+        )
+    }
+  }
+
+  if (navigationMode === "sync" && selectedWorktree) {
+    if (syncing) {
+      return <StatusIndicator status="loading" message={MESSAGES.LIST_SYNCING} />
+    }
+
+    const skipped = syncResult?.changes.filter((change) => change.status === "skipped") ?? []
+
+    return (
+      <Box flexDirection="column">
+        <Box marginBottom={1}>
+          <Text>
+            Synced: <Text color={COLORS.PRIMARY}>{formatPath(selectedWorktree.path)}</Text>
+          </Text>
+        </Box>
+
+        {syncError && <Text color={COLORS.ERROR}>{syncError}</Text>}
+
+        {syncResult && syncResult.changes.length === 0 && syncResult.errors.length === 0 && (
+          <Text color={COLORS.SUCCESS}>{MESSAGES.LIST_SYNC_UP_TO_DATE}</Text>
+        )}
+
+        {syncResult && (
+          <Box flexDirection="column" marginLeft={2}>
+            {syncResult.changes.map((change) => (
+              <Text key={change.path}>
+                {change.status === "skipped" ? (
+                  <Text color={COLORS.WARNING}>! </Text>
+                ) : (
+                  <Text color={COLORS.SUCCESS}>✓ </Text>
+                )}
+                {change.path}{" "}
+                <Text color={COLORS.MUTED}>
+                  ({SYNC_STATUS_LABELS[change.status]}
+                  {change.linesAdded !== undefined &&
+                    `, +${change.linesAdded} -${change.linesRemoved}`}
+                  )
+                </Text>
+              </Text>
+            ))}
+            {syncResult.errors.map((error) => (
+              <Text key={error} color={COLORS.ERROR}>
+                ✗ {error}
+              </Text>
+            ))}
+            {syncResult.unchanged > 0 && (
+              <Text color={COLORS.MUTED}>{syncResult.unchanged} unchanged</Text>
+            )}
+          </Box>
+        )}
+
+        <Box marginTop={1}>
+          <Text color={COLORS.MUTED}>
+            {skipped.length > 0
+              ? `Press 'o' to overwrite ${skipped.length} locally modified file(s), any other key to go back`
+              : "Press any key to go back..."}
+          </Text>
+        </Box>
+      </Box>
+    )
+  }
+
   return (
     <Box flexDirection="column" width="100%">
       <Box justifyContent="space-between" width="100%">
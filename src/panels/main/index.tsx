@@ -26,6 +26,13 @@ export function MainPanel({
         color: COLORS.WARNING,
         description: "recommended",
       })
+    } else if (shellIntegrationStatus?.needsUpgrade) {
+      options.push({
+        label: MESSAGES.MENU_SETUP_UPGRADE,
+        value: "setup",
+        color: COLORS.WARNING,
+        description: "outdated",
+      })
     }
 
     options.push(
@@ -44,13 +51,19 @@ export function MainPanel({
       {
         label: MESSAGES.MENU_SETTINGS,
         value: "settings",
-      },
-      {
-        label: MESSAGES.MENU_EXIT,
-        value: "exit",
       }
     )
 
+    // Installed and current: still reachable for reinstalling or uninstalling
+    if (shellIntegrationStatus?.isInstalled && !shellIntegrationStatus.needsUpgrade) {
+      options.push({ label: MESSAGES.MENU_SHELL, value: "setup" })
+    }
+
+    options.push({
+      label: MESSAGES.MENU_EXIT,
+      value: "exit",
+    })
+
     return options
   }
 
@@ -2,16 +2,25 @@ import { Box, Text, useInput } from "ink"
 import { useCallback, useEffect, useState } from "react"
 import packageJson from "../../../package.json" with { type: "json" }
 import { SelectPrompt, StatusIndicator } from "../../components/common/index.js"
-import { GLOBAL_CONFIG_FILE } from "../../constants/default-config.js"
+import { COPY_MANIFEST_FILE_NAME, GLOBAL_CONFIG_FILE } from "../../constants/default-config.js"
 import { COLORS, MESSAGES } from "../../constants/index.js"
-import type { WorktreeConfig } from "../../schemas/config-schema.js"
+import type { CopyScope, PostCreateCommand, WorktreeConfig } from "../../schemas/config-schema.js"
 import { AppStateService } from "../../services/app-state-service.js"
+import { getCopyPatternText, getPostCreateCommandText } from "../../services/file-service.js"
 import type { WorktreeService } from "../../services/index.js"
 import type { UpdateCheckResult } from "../../services/update-service.js"
 import { checkForUpdates } from "../../services/update-service.js"
-import type { SelectOption } from "../../types/index.js"
+import type { CopyPreview, SelectOption } from "../../types/index.js"
+import { formatSize } from "../../utils/index.js"
 
 const VERSION = packageJson.version
+const MAX_PREVIEW_LINES = 15
+
+const COPY_SCOPE_LABELS: Record<CopyScope, string> = {
+  all: "all files",
+  untracked: "files git doesn't track",
+  ignored: "git-ignored files",
+}
 
 interface SettingsMenuProps {
   worktreeService: WorktreeService
@@ -21,9 +30,11 @@ interface SettingsMenuProps {
 type SettingsStep =
   | "menu"
   | "copy-patterns"
+  | "copy-preview"
   | "ignore-patterns"
   | "path-template"
   | "post-cmd"
+  | "delete-hooks"
   | "terminal-cmd"
   | "delete-branch"
   | "check-updates"
@@ -36,6 +47,8 @@ export function SettingsMenu({ worktreeService, onBack }: SettingsMenuProps) {
   const [configPath, setConfigPath] = useState<string>()
   const [checkingUpdates, setCheckingUpdates] = useState(false)
   const [manualUpdateResult, setManualUpdateResult] = useState<UpdateCheckResult | null>(null)
+  const [copyPreview, setCopyPreview] = useState<CopyPreview | null>(null)
+  const [copyPreviewError, setCopyPreviewError] = useState<string>()
 
   useInput((input, key) => {
     if (error && input?.toLowerCase() === "r") {
@@ -43,22 +56,32 @@ export function SettingsMenu({ worktreeService, onBack }: SettingsMenuProps) {
       return
     }
 
+    if (step === "copy-patterns" && input?.toLowerCase() === "p") {
+      setCopyPreview(null)
+      setCopyPreviewError(undefined)
+      setStep("copy-preview")
+      return
+    }
+
     if (key.escape) {
       if (step === "menu") {
         onBack()
       } else {
-        setStep("menu")
-        setManualUpdateResult(null)
+        leaveStep()
       }
       return
     }
 
     if (step !== "menu" && (key.return || input)) {
-      setStep("menu")
-      setManualUpdateResult(null)
+      leaveStep()
     }
   })
 
+  const leaveStep = (): void => {
+    setStep(step === "copy-preview" ? "copy-patterns" : "menu")
+    setManualUpdateResult(null)
+  }
+
   const loadConfig = useCallback(async (): Promise<void> => {
     try {
       setLoading(true)
@@ -100,6 +123,15 @@ export function SettingsMenu({ worktreeService, onBack }: SettingsMenuProps) {
     }
   }, [step, checkingUpdates, manualUpdateResult])
 
+  useEffect(() => {
+    if (step === "copy-preview" && !copyPreview && !copyPreviewError) {
+      worktreeService
+        .previewCopy()
+        .then(setCopyPreview)
+        .catch((err) => setCopyPreviewError(err instanceof Error ? err.message : String(err)))
+    }
+  }, [step, copyPreview, copyPreviewError, worktreeService])
+
   const resetConfig = async (): Promise<void> => {
     try {
       const configService = worktreeService.getConfigService()
@@ -134,6 +166,11 @@ export function SettingsMenu({ worktreeService, onBack }: SettingsMenuProps) {
       value: "post-cmd",
       description: `${config?.postCreateCmd.length || 0} commands`,
     },
+    {
+      label: "Delete Hooks",
+      value: "delete-hooks",
+      description: `${config?.preDeleteCmd.length || 0} pre, ${config?.postDeleteCmd.length || 0} post`,
+    },
     {
       label: "Terminal Command",
       value: "terminal-cmd",
@@ -235,19 +272,54 @@ export function SettingsMenu({ worktreeService, onBack }: SettingsMenuProps) {
           </Box>
 
           <Box flexDirection="column" marginLeft={2}>
-            {config?.worktreeCopyPatterns.map((pattern) => (
-              <Text key={pattern}>• {pattern}</Text>
-            ))}
+            {config?.worktreeCopyPatterns.map((entry) => {
+              const strategy = typeof entry === "string" ? undefined : entry.strategy
+              return (
+                <Text key={getCopyPatternText(entry)}>
+                  • {getCopyPatternText(entry)}
+                  {strategy && <Text color={COLORS.MUTED}> ({strategy})</Text>}
+                </Text>
+              )
+            })}
           </Box>
 
+          {config && (
+            <Box>
+              <Text color={COLORS.MUTED}>
+                Default strategy: {config.worktreeCopyStrategy}. Matched against:{" "}
+                {COPY_SCOPE_LABELS[config.worktreeCopyScope]}. A checked-in{" "}
+                {COPY_MANIFEST_FILE_NAME} adds and excludes files with .gitignore syntax.
+              </Text>
+            </Box>
+          )}
+
           <Box marginTop={1}>
             <Text color={COLORS.MUTED} dimColor>
-              Edit in {configPath || GLOBAL_CONFIG_FILE}. Press any key to go back.
+              Edit in {configPath || GLOBAL_CONFIG_FILE}. Press 'p' to preview matched files, any
+              other key to go back.
             </Text>
           </Box>
         </Box>
       )
 
+    case "copy-preview":
+      if (copyPreviewError) {
+        return (
+          <Box flexDirection="column">
+            <Text color={COLORS.ERROR}>Failed to preview copy patterns: {copyPreviewError}</Text>
+            <Box marginTop={1}>
+              <Text color={COLORS.MUTED}>Press any key to go back...</Text>
+            </Box>
+          </Box>
+        )
+      }
+
+      if (!copyPreview) {
+        return <StatusIndicator status="loading" message="Matching copy patterns..." />
+      }
+
+      return <CopyPreviewView preview={copyPreview} />
+
     case "ignore-patterns":
       return (
         <Box flexDirection="column">
@@ -322,21 +394,20 @@ export function SettingsMenu({ worktreeService, onBack }: SettingsMenuProps) {
 
           <Box>
             <Text color={COLORS.MUTED}>
-              Commands executed after creating a worktree (in order):
+              Commands executed after creating a worktree (in order unless they set needs):
             </Text>
           </Box>
 
-          <Box flexDirection="column" marginLeft={2}>
-            {config?.postCreateCmd.length === 0 ? (
-              <Text color={COLORS.MUTED}>(none)</Text>
-            ) : (
-              config?.postCreateCmd.map((command, index) => (
-                <Text key={command}>
-                  <Text color={COLORS.MUTED}>{index + 1}.</Text> {command}
-                </Text>
-              ))
-            )}
-          </Box>
+          <CommandEntries commands={config?.postCreateCmd ?? []} />
+
+          {config && (
+            <Box>
+              <Text color={COLORS.MUTED}>
+                On failure: {config.postCreateContinueOnError ? "continue" : "stop"}. Timeout:{" "}
+                {config.postCreateTimeoutSeconds ? `${config.postCreateTimeoutSeconds}s` : "none"}.
+              </Text>
+            </Box>
+          )}
 
           <Box>
             <Text color={COLORS.INFO}>Available variables:</Text>
@@ -355,6 +426,43 @@ export function SettingsMenu({ worktreeService, onBack }: SettingsMenuProps) {
         </Box>
       )
 
+    case "delete-hooks":
+      return (
+        <Box flexDirection="column">
+          <Box>
+            <Text bold color={COLORS.INFO}>
+              Delete Hooks
+            </Text>
+          </Box>
+
+          <Box>
+            <Text color={COLORS.MUTED}>
+              Run in the worktree before deleting it; a failure aborts the delete:
+            </Text>
+          </Box>
+          <CommandEntries commands={config?.preDeleteCmd ?? []} />
+
+          <Box>
+            <Text color={COLORS.MUTED}>Run from the repository root after deleting:</Text>
+          </Box>
+          <CommandEntries commands={config?.postDeleteCmd ?? []} />
+
+          <Box>
+            <Text color={COLORS.INFO}>Available variables:</Text>
+            <Box flexDirection="column" marginLeft={2}>
+              <Text color={COLORS.MUTED}>• $WORKTREE_PATH - Path of the deleted worktree</Text>
+              <Text color={COLORS.MUTED}>• $BRANCH_NAME - Branch checked out in it</Text>
+            </Box>
+          </Box>
+
+          <Box marginTop={1}>
+            <Text color={COLORS.MUTED} dimColor>
+              Edit in {configPath || GLOBAL_CONFIG_FILE}. Press any key to go back.
+            </Text>
+          </Box>
+        </Box>
+      )
+
     case "terminal-cmd":
       return (
         <Box flexDirection="column">
@@ -501,3 +609,95 @@ export function SettingsMenu({ worktreeService, onBack }: SettingsMenuProps) {
       return <Text>Unknown step</Text>
   }
 }
+
+function CopyPreviewView({ preview }: { preview: CopyPreview }) {
+  const { files, excluded, totalSize } = preview
+  const hiddenFiles = files.length - MAX_PREVIEW_LINES
+  const hiddenExclusions = excluded.length - MAX_PREVIEW_LINES
+
+  return (
+    <Box flexDirection="column">
+      <Box>
+        <Text bold color={COLORS.INFO}>
+          Matched Files
+        </Text>
+      </Box>
+
+      <Box>
+        <Text color={COLORS.MUTED}>
+          {files.length} file(s), {formatSize(totalSize)} would be copied to a new worktree:
+        </Text>
+      </Box>
+
+      <Box flexDirection="column" marginLeft={2}>
+        {files.slice(0, MAX_PREVIEW_LINES).map((file) => (
+          <Text key={file.path}>
+            • {file.path}{" "}
+            <Text color={COLORS.MUTED}>
+              ({formatSize(file.size)}, {file.strategy}, {file.pattern})
+            </Text>
+          </Text>
+        ))}
+        {hiddenFiles > 0 && <Text color={COLORS.MUTED}>…and {hiddenFiles} more</Text>}
+      </Box>
+
+      {excluded.length > 0 && (
+        <>
+          <Box marginTop={1}>
+            <Text color={COLORS.MUTED}>Excluded by ignore patterns:</Text>
+          </Box>
+          <Box flexDirection="column" marginLeft={2}>
+            {excluded.slice(0, MAX_PREVIEW_LINES).map((exclusion) => (
+              <Text key={exclusion.path} color={COLORS.MUTED}>
+                • {exclusion.path} ({exclusion.ignore})
+              </Text>
+            ))}
+            {hiddenExclusions > 0 && <Text color={COLORS.MUTED}>…and {hiddenExclusions} more</Text>}
+          </Box>
+        </>
+      )}
+
+      <Box marginTop={1}>
+        <Text color={COLORS.MUTED} dimColor>
+          Run 'branchlet copy --dry-run' for the full list. Press any key to go back.
+        </Text>
+      </Box>
+    </Box>
+  )
+}
+
+function CommandEntries({ commands }: { commands: PostCreateCommand[] }) {
+  return (
+    <Box flexDirection="column" marginLeft={2}>
+      {commands.length === 0 ? (
+        <Text color={COLORS.MUTED}>(none)</Text>
+      ) : (
+        commands.map((command, index) => (
+          <Text key={`${index}-${getPostCreateCommandText(command)}`}>
+            <Text color={COLORS.MUTED}>{index + 1}.</Text> {getPostCreateCommandText(command)}
+            {typeof command !== "string" && describePostCreateOptions(command) && (
+              <Text color={COLORS.MUTED}> ({describePostCreateOptions(command)})</Text>
+            )}
+          </Text>
+        ))
+      )}
+    </Box>
+  )
+}
+
+function describePostCreateOptions(command: Exclude<PostCreateCommand, string>): string {
+  const options: string[] = []
+  if (command.name) options.push(`name ${command.name}`)
+  if (command.needs) {
+    options.push(
+      command.needs.length > 0 ? `needs ${command.needs.join(", ")}` : "runs immediately"
+    )
+  }
+  if (command.continueOnError !== undefined) {
+    options.push(command.continueOnError ? "continue on error" : "stop on error")
+  }
+  if (command.timeoutSeconds) options.push(`timeout ${command.timeoutSeconds}s`)
+  if (command.cwd) options.push(`cwd ${command.cwd}`)
+  if (command.env) options.push(`env ${Object.keys(command.env).join(", ")}`)
+  return options.join(", ")
+}
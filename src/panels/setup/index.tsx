@@ -3,8 +3,13 @@ import { useEffect, useState } from "react"
 import { ConfirmDialog, SelectPrompt, StatusIndicator } from "../../components/common/index.js"
 import { COLORS } from "../../constants/index.js"
 import {
+  generateSetupBlock,
+  getBackupPath,
   installShellIntegration,
+  removeShellIntegration,
+  type ShellIntegrationChange,
   type ShellIntegrationStatus,
+  type ShellType,
 } from "../../services/shell-integration-service.js"
 import type { SelectOption } from "../../types/index.js"
 
@@ -14,15 +19,60 @@ interface SetupShellIntegrationProps {
   onCancel: () => void
 }
 
-type SetupStep = "select-shell" | "confirm" | "installing" | "success" | "error"
+type SetupStep =
+  | "manage"
+  | "select-shell"
+  | "confirm"
+  | "installing"
+  | "confirm-uninstall"
+  | "uninstalling"
+  | "success"
+  | "error"
+
+type ManageAction = "upgrade" | "uninstall"
+
+const SHELLS: ShellType[] = ["zsh", "bash", "fish"]
+
+const SHELL_CONFIG_FILES: Record<ShellType, string> = {
+  zsh: "~/.zshrc",
+  bash: "~/.bashrc",
+  fish: "~/.config/fish/functions/branchlet.fish",
+}
+
+/** The installed block, with the long bash/zsh completion functions left out */
+function getWrapperPreview(shell: ShellType, commandName: string): string {
+  const block = generateSetupBlock(shell, commandName)
+  if (shell === "fish") {
+    return `${block}
+
+# Tab completions go to ~/.config/fish/completions/${commandName}.fish`
+  }
+
+  const lines = block.split("\n")
+  const wrapperStart = lines.indexOf(`${commandName}() {`)
+  return [
+    lines[0],
+    `# Tab completions for ${commandName} commands`,
+    "# ...",
+    ...lines.slice(wrapperStart),
+  ].join("\n")
+}
+
+// Fish autoloads the function file, so only a new session is needed
+function getReloadCommand(shell: ShellType): string {
+  return shell === "fish" ? "exec fish" : `source ${SHELL_CONFIG_FILES[shell]}`
+}
 
 export function SetupShellIntegration({
   shellIntegrationStatus,
   onComplete,
   onCancel,
 }: SetupShellIntegrationProps) {
-  const [step, setStep] = useState<SetupStep>("select-shell")
-  const [selectedShell, setSelectedShell] = useState<"zsh" | "bash" | null>(null)
+  const isInstalled = shellIntegrationStatus?.isInstalled ?? false
+  const [step, setStep] = useState<SetupStep>(isInstalled ? "manage" : "select-shell")
+  const [selectedShell, setSelectedShell] = useState<ShellType | null>(null)
+  const [change, setChange] = useState<ShellIntegrationChange>()
+  const [action, setAction] = useState<"install" | "uninstall">("install")
   const [error, setError] = useState<string>()
 
   useInput((input, key) => {
@@ -40,7 +90,7 @@ export function SetupShellIntegration({
     }
   }, [shellIntegrationStatus])
 
-  const handleShellSelect = (shell: "zsh" | "bash") => {
+  const handleShellSelect = (shell: ShellType) => {
     setSelectedShell(shell)
     setStep("confirm")
   }
@@ -50,11 +100,34 @@ export function SetupShellIntegration({
       return
     }
 
+    setAction("install")
     setStep("installing")
     setError(undefined)
 
     try {
-      await installShellIntegration(selectedShell, "branchlet")
+      setChange(await installShellIntegration(selectedShell, "branchlet"))
+      setStep("success")
+
+      setTimeout(() => {
+        onComplete()
+      }, 2000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      setStep("error")
+    }
+  }
+
+  const handleUninstall = async () => {
+    if (!selectedShell) {
+      return
+    }
+
+    setAction("uninstall")
+    setStep("uninstalling")
+    setError(undefined)
+
+    try {
+      setChange(await removeShellIntegration(selectedShell, "branchlet"))
       setStep("success")
 
       setTimeout(() => {
@@ -66,24 +139,53 @@ export function SetupShellIntegration({
     }
   }
 
+  const handleManageSelect = (action: ManageAction) => {
+    setStep(action === "upgrade" ? "confirm" : "confirm-uninstall")
+  }
+
   const handleCancel = () => {
-    if (step === "confirm") {
-      setStep("select-shell")
+    if (step === "confirm" || step === "confirm-uninstall") {
+      setStep(isInstalled ? "manage" : "select-shell")
     } else {
       onCancel()
     }
   }
 
-  if (step === "installing") {
+  if (step === "installing" || step === "uninstalling") {
+    const message =
+      step === "installing" ? "Installing shell integration..." : "Removing shell integration..."
     return (
       <Box flexDirection="column">
-        <StatusIndicator status="loading" message="Installing shell integration..." spinner />
+        <StatusIndicator status="loading" message={message} spinner />
+      </Box>
+    )
+  }
+
+  if (step === "success" && action === "uninstall") {
+    return (
+      <Box flexDirection="column" gap={1}>
+        <StatusIndicator status="success" message="Shell integration removed" />
+        <Box marginTop={1} flexDirection="column">
+          {change?.files.map((file) => (
+            <Text key={file} color={COLORS.INFO}>
+              Removed from: <Text bold>{file}</Text>
+            </Text>
+          ))}
+          {change?.backups.map((backup) => (
+            <Text key={backup} color={COLORS.MUTED} dimColor>
+              Backup: {backup}
+            </Text>
+          ))}
+          <Text color={COLORS.MUTED} dimColor>
+            Open a new shell to drop the wrapper from the current session
+          </Text>
+        </Box>
       </Box>
     )
   }
 
   if (step === "success") {
-    const configFile = selectedShell === "zsh" ? "~/.zshrc" : "~/.bashrc"
+    const configFile = selectedShell ? SHELL_CONFIG_FILES[selectedShell] : ""
     return (
       <Box flexDirection="column" gap={1}>
         <StatusIndicator status="success" message="Shell integration installed successfully!" />
@@ -91,8 +193,14 @@ export function SetupShellIntegration({
           <Text color={COLORS.INFO}>
             Added to: <Text bold>{configFile}</Text>
           </Text>
+          {change?.backups.map((backup) => (
+            <Text key={backup} color={COLORS.MUTED} dimColor>
+              Backup: {backup}
+            </Text>
+          ))}
           <Text color={COLORS.MUTED} dimColor>
-            Reload your shell: <Text color={COLORS.PRIMARY}>source {configFile}</Text>
+            Reload your shell:{" "}
+            <Text color={COLORS.PRIMARY}>{selectedShell && getReloadCommand(selectedShell)}</Text>
           </Text>
           <Box marginTop={1}>
             <Text color={COLORS.SUCCESS}>
@@ -107,7 +215,7 @@ export function SetupShellIntegration({
   if (step === "error") {
     return (
       <Box flexDirection="column" gap={1}>
-        <StatusIndicator status="error" message="Failed to install shell integration" />
+        <StatusIndicator status="error" message={`Failed to ${action} shell integration`} />
         {error && (
           <Box marginLeft={2}>
             <Text color={COLORS.ERROR}>{error}</Text>
@@ -121,16 +229,18 @@ export function SetupShellIntegration({
   }
 
   if (step === "confirm" && selectedShell) {
-    const configFile = selectedShell === "zsh" ? "~/.zshrc" : "~/.bashrc"
+    const configFile = SHELL_CONFIG_FILES[selectedShell]
     const commandName = "branchlet"
 
     return (
       <ConfirmDialog
-        title="Install Shell Integration"
+        title={isInstalled ? "Upgrade Shell Integration" : "Install Shell Integration"}
         message={
           <Box flexDirection="column" gap={1}>
             <Text>
-              This will add the following to <Text bold>{configFile}</Text>:
+              This will {isInstalled ? "replace the Branchlet block in" : "add the following to"}{" "}
+              <Text bold>{configFile}</Text>
+              {isInstalled ? " with:" : ":"}
             </Text>
             <Box
               marginTop={1}
@@ -141,31 +251,18 @@ export function SetupShellIntegration({
               borderColor={COLORS.MUTED}
             >
               <Text color={COLORS.MUTED} dimColor>
-                {`# Tab completions for ${commandName} commands
-# ...
-
-# Shell wrapper for directory switching
-${commandName}() {
-  if [ $# -eq 0 ]; then
-    local dir=$(FORCE_COLOR=3 command ${commandName} --from-wrapper)
-    if [ -n "$dir" ]; then
-      builtin cd "$dir" && echo "Branchlet: Navigated to $(pwd)"
-    fi
-  else
-    command ${commandName} "$@"
-  fi
-}`}
+                {getWrapperPreview(selectedShell, commandName)}
               </Text>
             </Box>
             <Text color={COLORS.INFO}>
-              After installation, run: <Text bold>source {configFile}</Text>
+              After installation, run: <Text bold>{getReloadCommand(selectedShell)}</Text>
             </Text>
             <Text color={COLORS.SUCCESS}>
               Then use: <Text bold>{commandName}</Text> to quickly switch directories
             </Text>
           </Box>
         }
-        confirmLabel="Install"
+        confirmLabel={isInstalled ? "Upgrade" : "Install"}
         cancelLabel="Cancel"
         onConfirm={handleConfirm}
         onCancel={handleCancel}
@@ -174,20 +271,67 @@ ${commandName}() {
     )
   }
 
-  // Step: select-shell
-  const shellOptions: SelectOption<"zsh" | "bash">[] = []
-
-  if (shellIntegrationStatus?.shell === "zsh") {
-    shellOptions.push({ label: "zsh (~/.zshrc)", value: "zsh", description: "detected" })
-    shellOptions.push({ label: "bash (~/.bashrc)", value: "bash" })
-  } else if (shellIntegrationStatus?.shell === "bash") {
-    shellOptions.push({ label: "zsh (~/.zshrc)", value: "zsh" })
-    shellOptions.push({ label: "bash (~/.bashrc)", value: "bash", description: "detected" })
-  } else {
-    shellOptions.push({ label: "zsh (~/.zshrc)", value: "zsh" })
-    shellOptions.push({ label: "bash (~/.bashrc)", value: "bash" })
+  if (step === "confirm-uninstall" && selectedShell) {
+    const configFile = SHELL_CONFIG_FILES[selectedShell]
+
+    return (
+      <ConfirmDialog
+        title="Uninstall Shell Integration"
+        message={
+          <Box flexDirection="column" gap={1}>
+            <Text>
+              This will remove the Branchlet wrapper and completions from{" "}
+              <Text bold>{configFile}</Text>.
+            </Text>
+            <Text color={COLORS.MUTED} dimColor>
+              The current file is saved to {getBackupPath(configFile, "<time>")} first.
+            </Text>
+          </Box>
+        }
+        confirmLabel="Uninstall"
+        cancelLabel="Cancel"
+        onConfirm={handleUninstall}
+        onCancel={handleCancel}
+        variant="danger"
+      />
+    )
+  }
+
+  if (step === "manage" && shellIntegrationStatus) {
+    const { installedVersion, needsUpgrade, reason, configPath } = shellIntegrationStatus
+    const manageOptions: SelectOption<ManageAction>[] = [
+      needsUpgrade
+        ? { label: "Upgrade", value: "upgrade", color: COLORS.WARNING, description: "recommended" }
+        : { label: "Reinstall", value: "upgrade" },
+      { label: "Uninstall", value: "uninstall" },
+    ]
+
+    return (
+      <Box flexDirection="column">
+        <Box marginBottom={1} flexDirection="column">
+          <Text color={COLORS.INFO}>
+            Installed in <Text bold>{configPath}</Text> (integration v{installedVersion})
+          </Text>
+          {needsUpgrade && reason && <Text color={COLORS.WARNING}>{reason}</Text>}
+        </Box>
+
+        <SelectPrompt
+          label="Shell integration:"
+          options={manageOptions}
+          onSelect={handleManageSelect}
+          onCancel={onCancel}
+        />
+      </Box>
+    )
   }
 
+  // Step: select-shell
+  const shellOptions: SelectOption<ShellType>[] = SHELLS.map((shell) => ({
+    label: `${shell} (${SHELL_CONFIG_FILES[shell]})`,
+    value: shell,
+    ...(shellIntegrationStatus?.shell === shell && { description: "detected" }),
+  }))
+
   return (
     <Box flexDirection="column">
       <Box marginBottom={1}>
@@ -202,7 +346,7 @@ ${commandName}() {
         options={shellOptions}
         onSelect={handleShellSelect}
         onCancel={onCancel}
-        defaultIndex={selectedShell === "zsh" ? 0 : selectedShell === "bash" ? 1 : 0}
+        defaultIndex={selectedShell ? SHELLS.indexOf(selectedShell) : 0}
       />
     </Box>
   )
@@ -7,6 +7,10 @@ export const AppStateSchema = z.object({
     .describe("Timestamp of last update check (milliseconds since epoch)"),
   latestVersion: z.string().optional().describe("Latest version available on npm"),
   checkedVersion: z.string().optional().describe("Version that was current when last checked"),
+  visitedWorktrees: z
+    .record(z.string(), z.array(z.string()))
+    .optional()
+    .describe("Worktree paths changed into per repository (main worktree path), most recent first"),
 })
 
 export type AppState = z.infer<typeof AppStateSchema>
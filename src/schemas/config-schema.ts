@@ -1,39 +1,215 @@
 import { z } from "zod"
+import { resolvePostCreateDependencies } from "../utils/post-create-graph.js"
+import {
+  TEMPLATE_VARIABLES,
+  type TemplateCheckOptions,
+  validateTemplate,
+} from "../utils/template.js"
+
+/** Array entry that splices in the value inherited from lower config layers */
+export const CONFIG_INHERIT_MARKER = "..."
+
+function templateString(options: TemplateCheckOptions) {
+  return z.string().superRefine((template, ctx) => {
+    const error = validateTemplate(template, options)
+    if (error) {
+      ctx.addIssue({ code: "custom", message: error })
+    }
+  })
+}
+
+/** Commands go through a shell, which resolves anything the template leaves alone */
+const CommandTemplateSchema = templateString({ variables: TEMPLATE_VARIABLES })
+const PathTemplateSchema = templateString({ variables: TEMPLATE_VARIABLES, strict: true })
+
+export const PostCreateCommandSchema = z.union([
+  CommandTemplateSchema,
+  z
+    .object({
+      run: CommandTemplateSchema.describe(
+        "Command to run. Variables are resolved as in string commands"
+      ),
+      name: z.string().min(1).optional().describe("Name other commands can list in needs"),
+      needs: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Names of commands that must succeed first. Commands with needs run concurrently once their needs are met; commands without it run after the previous entry"
+        ),
+      continueOnError: z
+        .boolean()
+        .optional()
+        .describe(
+          "Keep running later commands if this one fails (overrides postCreateContinueOnError)"
+        ),
+      timeoutSeconds: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Kill the command after this many seconds; 0 disables the timeout"),
+      env: z
+        .record(z.string(), CommandTemplateSchema)
+        .optional()
+        .describe("Extra environment variables for the command"),
+      cwd: CommandTemplateSchema.optional().describe(
+        "Working directory, relative to the new worktree"
+      ),
+    })
+    .strict(),
+])
+
+export const CopyStrategySchema = z
+  .enum(["copy", "symlink", "hardlink", "reflink"])
+  .describe(
+    "How matched files reach the new worktree: copy, symlink to the original, hardlink, or reflink (copy-on-write clone, falling back to a copy)"
+  )
+
+export const CopyScopeSchema = z
+  .enum(["all", "untracked", "ignored"])
+  .describe(
+    "Files worktreeCopyPatterns are matched against: all files on disk, files git doesn't track (untracked or ignored), or only git-ignored files"
+  )
+
+export const CopyPatternSchema = z.union([
+  z.string(),
+  z
+    .object({
+      pattern: z.string().describe("Glob pattern, as in string entries"),
+      strategy: CopyStrategySchema.optional().describe(
+        "Strategy for files this pattern matches (overrides worktreeCopyStrategy)"
+      ),
+    })
+    .strict(),
+])
+
+const CommandListSchema = z.array(PostCreateCommandSchema).superRefine((commands, ctx) => {
+  // A list that splices in inherited commands can't be checked until merged
+  if (commands.includes(CONFIG_INHERIT_MARKER)) return
+  const { error } = resolvePostCreateDependencies(commands)
+  if (error) {
+    ctx.addIssue({ code: "custom", message: error })
+  }
+})
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const WorktreeProfileSchema = z
+  .object({
+    description: z.string().optional().describe("Shown next to the profile name when picking one"),
+    worktreeCopyPatterns: z
+      .array(CopyPatternSchema)
+      .optional()
+      .describe('Replaces worktreeCopyPatterns; include "..." to keep the configured patterns'),
+    worktreePathTemplate: PathTemplateSchema.optional().describe("Replaces worktreePathTemplate"),
+    postCreateCmd: CommandListSchema.optional().describe(
+      'Replaces postCreateCmd; [] runs nothing, include "..." to keep the configured commands'
+    ),
+    sourceBranch: z
+      .string()
+      .optional()
+      .describe(
+        "Default source branch. Glob patterns (e.g. release/*) pick the most recently committed matching branch"
+      ),
+    branchPrefix: z
+      .string()
+      .optional()
+      .describe(
+        "Prefix added to new branch names (e.g. hotfix/) unless they already start with it"
+      ),
+    branchNameTemplate: templateString({ strict: true })
+      .optional()
+      .describe("Replaces branchNameTemplate"),
+  })
+  .strict()
 
 export const WorktreeConfigSchema = z
   .object({
     worktreeCopyPatterns: z
-      .array(z.string())
+      .array(CopyPatternSchema)
       .default([".env*", ".vscode/**"])
-      .describe("File patterns to copy to new worktrees (glob patterns supported)"),
+      .describe(
+        "File patterns to copy to new worktrees (glob patterns supported), as strings or { pattern, strategy } objects"
+      ),
+    worktreeCopyStrategy: CopyStrategySchema.default("copy").describe(
+      "Default strategy for worktreeCopyPatterns entries that don't set one"
+    ),
+    worktreeCopyScope: CopyScopeSchema.default("all"),
     worktreeCopyIgnores: z
       .array(z.string())
       .default(["**/node_modules/**", "**/dist/**", "**/.git/**", "**/Thumbs.db", "**/.DS_Store"])
       .describe("File patterns to ignore when copying (glob patterns supported)"),
-    worktreePathTemplate: z
+    worktreePathTemplate: PathTemplateSchema.default("$BASE_PATH.worktree").describe(
+      "Template for worktree directory names. Variables: $BASE_PATH, $WORKTREE_PATH, $BRANCH_NAME, $SOURCE_BRANCH, $REPO_ROOT, $USER, $DATE. Braced references take filters ({BRANCH_NAME|slug}, {DATE|yyyy-mm-dd}), defaults ({SOURCE_BRANCH:-main}) and environment variables ({env.HOME}), each written with a leading $"
+    ),
+    branchNameTemplate: templateString({ strict: true })
+      .default("")
+      .describe(
+        "Template for suggested new branch names, e.g. $USER/$TYPE/$NAME. $NAME (worktree directory), $SLUG, $USER, $SOURCE_BRANCH, $BASE_PATH and $DATE are filled in; other variables are prompted for or passed with --var. Empty suggests the directory name"
+      ),
+    branchNamePattern: z
       .string()
-      .default("$BASE_PATH.worktree")
+      .default("")
+      .refine(isValidRegExp, { message: "Invalid regular expression" })
       .describe(
-        "Template for worktree directory names. Variables: $BASE_PATH, $WORKTREE_PATH, $BRANCH_NAME, $SOURCE_BRANCH"
+        "Regular expression new branch names must match, e.g. ^(feat|fix|chore)/[a-z0-9-]+$. Empty accepts any valid git branch name"
       ),
-    postCreateCmd: z
-      .array(z.string())
-      .default([])
+    postCreateCmd: CommandListSchema.default([]).describe(
+      "Commands to run after creating a worktree, as strings or { run, continueOnError, timeoutSeconds, env, cwd } objects. Variables: as in worktreePathTemplate; unknown $NAMES are left for the shell"
+    ),
+    postCreateContinueOnError: z
+      .boolean()
+      .default(true)
       .describe(
-        "Commands to run after creating a worktree. Variables: $BASE_PATH, $WORKTREE_PATH, $BRANCH_NAME, $SOURCE_BRANCH"
+        "Keep running post-create commands after one fails; false stops at the first failure"
       ),
-    terminalCommand: z
-      .string()
-      .default("")
-      .describe("Command to open terminal in new worktree directory (e.g., 'code $WORKTREE_PATH')"),
+    postCreateTimeoutSeconds: z
+      .number()
+      .int()
+      .min(0)
+      .default(0)
+      .describe("Default timeout for each post-create command in seconds; 0 disables the timeout"),
+    terminalCommand: CommandTemplateSchema.default("").describe(
+      "Command to open terminal in new worktree directory (e.g., 'code $WORKTREE_PATH')"
+    ),
     deleteBranchWithWorktree: z
       .boolean()
       .default(false)
       .describe("Also delete the associated git branch when deleting a worktree"),
+    preDeleteCmd: CommandListSchema.default([]).describe(
+      "Commands to run in a worktree before deleting it; a failing command aborts the delete. Same entry format and variables as postCreateCmd"
+    ),
+    postDeleteCmd: CommandListSchema.default([]).describe(
+      "Commands to run from the repository root after a worktree is deleted. Same entry format and variables as postCreateCmd"
+    ),
+    pullRequestRemote: z
+      .string()
+      .default("origin")
+      .describe(
+        "Remote to fetch pull/merge request refs from (refs/pull/<n>/head or refs/merge-requests/<n>/head)"
+      ),
+    profiles: z
+      .record(z.string().min(1), WorktreeProfileSchema)
+      .default({})
+      .describe(
+        "Named setups chosen when creating a worktree (--profile <name>), overriding copy patterns, post-create commands, path template, source branch and branch naming"
+      ),
   })
   .describe("Configuration for Git worktree management tool")
 
 export type WorktreeConfig = z.infer<typeof WorktreeConfigSchema>
+export type PostCreateCommand = z.infer<typeof PostCreateCommandSchema>
+export type CopyStrategy = z.infer<typeof CopyStrategySchema>
+export type CopyPattern = z.infer<typeof CopyPatternSchema>
+export type CopyScope = z.infer<typeof CopyScopeSchema>
+export type WorktreeProfile = z.infer<typeof WorktreeProfileSchema>
 
 export function validateConfig(config: unknown): {
   success: boolean
@@ -1,20 +1,26 @@
 import { access, mkdir, readFile, writeFile } from "node:fs/promises"
+import { dirname } from "node:path"
 import { GLOBAL_CONFIG_DIR } from "../constants/index"
 import { AppStateSchema, DEFAULT_APP_STATE, type AppState } from "../schemas/app-state-schema.js"
+import type { GitWorktree } from "../types/index.js"
+import { findWorktreeContaining } from "../utils/path-utils.js"
 
 const STATE_FILE = `${GLOBAL_CONFIG_DIR}/state.json`
+const MAX_VISITED_WORKTREES = 20
 
 export class AppStateService {
   private state: AppState
+  private stateFile: string
 
-  constructor() {
+  constructor(stateFile: string = STATE_FILE) {
     this.state = { ...DEFAULT_APP_STATE }
+    this.stateFile = stateFile
   }
 
   async load(): Promise<AppState> {
     try {
-      await access(STATE_FILE)
-      const content = await readFile(STATE_FILE, "utf-8")
+      await access(this.stateFile)
+      const content = await readFile(this.stateFile, "utf-8")
       const parsed = JSON.parse(content)
       const result = AppStateSchema.safeParse(parsed)
       if (result.success) {
@@ -28,8 +34,8 @@ export class AppStateService {
 
   async save(): Promise<void> {
     try {
-      await mkdir(GLOBAL_CONFIG_DIR, { recursive: true })
-      await writeFile(STATE_FILE, JSON.stringify(this.state, null, 2), "utf-8")
+      await mkdir(dirname(this.stateFile), { recursive: true })
+      await writeFile(this.stateFile, JSON.stringify(this.state, null, 2), "utf-8")
     } catch {
       // Non-critical, silently ignore
     }
@@ -43,4 +49,59 @@ export class AppStateService {
     this.state = { ...this.state, ...updates }
     return this.getState()
   }
+
+  /**
+   * Remember a change of directory into `targetPath`. The worktree `cwd` is in is
+   * recorded just behind it, so `getPreviousWorktree` from the target leads back.
+   */
+  recordWorktreeVisit(worktrees: GitWorktree[], targetPath: string, cwd = process.cwd()): void {
+    const repoKey = getRepositoryKey(worktrees)
+    if (!repoKey) return
+
+    const current = findWorktreeContaining(worktrees, cwd)
+    const visited = this.state.visitedWorktrees ?? {}
+    const history = [targetPath, current?.path, ...(visited[repoKey] ?? [])].filter(
+      (path): path is string => path !== undefined
+    )
+
+    this.update({
+      visitedWorktrees: {
+        ...visited,
+        [repoKey]: [...new Set(history)].slice(0, MAX_VISITED_WORKTREES),
+      },
+    })
+  }
+
+  /** Point history entries for a moved worktree at its new location */
+  renameWorktreePath(oldPath: string, newPath: string): void {
+    const visited = this.state.visitedWorktrees
+    if (!visited) return
+
+    this.update({
+      visitedWorktrees: Object.fromEntries(
+        Object.entries(visited).map(([repoKey, paths]) => [
+          repoKey,
+          [...new Set(paths.map((path) => (path === oldPath ? newPath : path)))],
+        ])
+      ),
+    })
+  }
+
+  /** The most recently visited worktree that still exists and isn't the one `cwd` is in */
+  getPreviousWorktree(worktrees: GitWorktree[], cwd = process.cwd()): GitWorktree | undefined {
+    const repoKey = getRepositoryKey(worktrees)
+    if (!repoKey) return undefined
+
+    const current = findWorktreeContaining(worktrees, cwd)
+    for (const path of this.state.visitedWorktrees?.[repoKey] ?? []) {
+      const worktree = worktrees.find((candidate) => candidate.path === path)
+      if (worktree && worktree !== current) return worktree
+    }
+    return undefined
+  }
+}
+
+// History is shared by every worktree of a repository, so it is keyed by the main one
+function getRepositoryKey(worktrees: GitWorktree[]): string | undefined {
+  return worktrees.find((worktree) => worktree.isMain)?.path
 }
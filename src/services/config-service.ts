@@ -1,59 +1,91 @@
 import { access, mkdir, readFile, writeFile } from "node:fs/promises"
 import { dirname, join } from "node:path"
 import {
+  CONFIG_ENV_PREFIX,
+  CONFIG_INHERIT_MARKER,
   DEFAULT_CONFIG,
   GLOBAL_CONFIG_DIR,
   GLOBAL_CONFIG_FILE,
   LOCAL_CONFIG_FILE_NAME,
+  LOCAL_OVERRIDE_CONFIG_FILE_NAME,
 } from "../constants/index"
 import {
   validateConfig,
   type WorktreeConfig,
   WorktreeConfigSchema,
+  type WorktreeProfile,
 } from "../schemas/config-schema.js"
-import type { ConfigFile } from "../types/index"
-import { ConfigError } from "../utils/index"
+import type {
+  ConfigExplanation,
+  ConfigFileContent,
+  ConfigLayer,
+  ConfigLayerName,
+  ConfigLayerValidation,
+  ConfigScope,
+} from "../types/index"
+import { applyWorktreeProfile, ConfigError, ValidationError } from "../utils/index"
 
 export class ConfigService {
   private config: WorktreeConfig
   private configPath?: string
+  private layers: ConfigLayer[] = []
+  private origins = new Map<keyof WorktreeConfig, ConfigLayerName[]>()
+  private projectDir?: string
 
-  constructor() {
+  constructor(projectDir?: string) {
     this.config = { ...DEFAULT_CONFIG }
+    if (projectDir) {
+      this.projectDir = projectDir
+    }
   }
 
   async loadConfig(projectPath?: string): Promise<WorktreeConfig> {
     await this.ensureGlobalConfig()
 
-    const configFile = await this.findConfigFile(projectPath)
-
-    if (configFile) {
-      try {
-        const content = await readFile(configFile.path, "utf-8")
-        const parsed = JSON.parse(content)
-
-        const validation = validateConfig(parsed)
-        if (!validation.success) {
-          throw new ConfigError(`Invalid configuration: ${validation.error}`, configFile.path)
-        }
+    const baseDir = projectPath || this.projectDir || process.cwd()
+    this.projectDir = baseDir
+    const globalLayer = await this.readFileLayer("global", GLOBAL_CONFIG_FILE)
+    const repoConfigPath = join(baseDir, LOCAL_CONFIG_FILE_NAME)
+    const repoLayer = await this.readFileLayer("repo", repoConfigPath)
+    const layers: ConfigLayer[] = [
+      { name: "default", found: true, values: { ...DEFAULT_CONFIG } },
+      globalLayer,
+      repoLayer,
+      await this.readFileLayer("local", join(baseDir, LOCAL_OVERRIDE_CONFIG_FILE_NAME)),
+      readEnvLayer(process.env),
+    ]
 
-        this.config = validation.data || DEFAULT_CONFIG
-        this.configPath = configFile.path
-      } catch (error) {
-        if (error instanceof ConfigError) {
-          throw error
-        }
-        throw new ConfigError(
-          `Failed to load config from ${configFile.path}: ${error}`,
-          configFile.path
-        )
-      }
+    const { config, origins } = mergeConfigLayers(layers)
+    const validation = validateConfig(config)
+    if (!validation.success) {
+      throw new ConfigError(`Invalid configuration: ${validation.error}`)
     }
 
+    this.config = validation.data || DEFAULT_CONFIG
+    this.layers = layers
+    this.origins = origins
+    // Saves go to the most specific shared config file, as before layering existed
+    this.configPath = repoLayer.found ? repoConfigPath : GLOBAL_CONFIG_FILE
+
     return this.config
   }
 
-  async saveConfig(config: WorktreeConfig, path?: string): Promise<void> {
+  /** Describe each config layer and which layers produced every effective value */
+  explainConfig(): ConfigExplanation {
+    const values = (Object.keys(this.config) as (keyof WorktreeConfig)[]).map((key) => ({
+      key,
+      value: this.config[key],
+      sources: this.origins.get(key) ?? ["default"],
+    }))
+
+    return { layers: this.layers, values }
+  }
+
+  /**
+   * Write config to a file. Partial content is written as-is so a layer only
+   * overrides the keys it sets; the effective config is then re-resolved.
+   */
+  async saveConfig(config: ConfigFileContent, path?: string): Promise<void> {
     const configPath = path || this.configPath
 
     if (!configPath) {
@@ -68,18 +100,129 @@ export class ConfigService {
     try {
       await mkdir(dirname(configPath), { recursive: true })
       await writeFile(configPath, JSON.stringify(config, null, 2), "utf-8")
+    } catch (error) {
+      throw new ConfigError(`Failed to save config to ${configPath}: ${error}`)
+    }
 
-      this.config = { ...config }
+    if (this.layers.length > 0) {
+      await this.loadConfig(this.projectDir)
+    } else {
+      this.config = validation.data || DEFAULT_CONFIG
       this.configPath = configPath
+    }
+  }
+
+  /**
+   * Config file a scope reads and writes. Without a scope this is the file saves
+   * default to: the repo config when it exists, otherwise the global one.
+   */
+  async getScopePath(scope?: ConfigScope): Promise<string> {
+    const repoConfigPath = join(this.projectDir || process.cwd(), LOCAL_CONFIG_FILE_NAME)
+    if (scope === "global") return GLOBAL_CONFIG_FILE
+    if (scope === "repo") return repoConfigPath
+    if (scope === "local") {
+      return join(this.projectDir || process.cwd(), LOCAL_OVERRIDE_CONFIG_FILE_NAME)
+    }
+
+    try {
+      await access(repoConfigPath)
+      return repoConfigPath
+    } catch {
+      return GLOBAL_CONFIG_FILE
+    }
+  }
+
+  /** Raw content of a config file without defaults applied; empty when the file is missing */
+  async readConfigFile(path: string): Promise<ConfigFileContent> {
+    let content: string
+    try {
+      content = await readFile(path, "utf-8")
     } catch (error) {
-      throw new ConfigError(`Failed to save config to ${configPath}: ${error}`)
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {}
+      }
+      throw new ConfigError(`Failed to load config from ${path}: ${error}`, path)
+    }
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(content)
+    } catch (error) {
+      throw new ConfigError(`Failed to load config from ${path}: ${error}`, path)
+    }
+
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new ConfigError("Invalid configuration: expected a JSON object", path)
+    }
+
+    return parsed as ConfigFileContent
+  }
+
+  /** Check every config layer independently, collecting errors instead of throwing */
+  async validateLayers(projectPath?: string): Promise<ConfigLayerValidation[]> {
+    const baseDir = projectPath || this.projectDir || process.cwd()
+    const files: [ConfigLayerName, string][] = [
+      ["global", GLOBAL_CONFIG_FILE],
+      ["repo", join(baseDir, LOCAL_CONFIG_FILE_NAME)],
+      ["local", join(baseDir, LOCAL_OVERRIDE_CONFIG_FILE_NAME)],
+    ]
+
+    const results: ConfigLayerValidation[] = []
+    for (const [name, path] of files) {
+      try {
+        const layer = await this.readFileLayer(name, path)
+        results.push({ name, path, found: layer.found })
+      } catch (error) {
+        results.push({
+          name,
+          path,
+          found: true,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
     }
+
+    try {
+      const layer = readEnvLayer(process.env)
+      results.push({ name: "env", found: layer.found })
+    } catch (error) {
+      results.push({
+        name: "env",
+        found: true,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+
+    return results
   }
 
   getConfig(): WorktreeConfig {
     return { ...this.config }
   }
 
+  getProfileNames(): string[] {
+    return Object.keys(this.config.profiles)
+  }
+
+  getProfile(name: string): WorktreeProfile {
+    const profile = this.config.profiles[name]
+    if (!profile) {
+      const names = this.getProfileNames()
+      throw new ValidationError(
+        names.length > 0
+          ? `Unknown profile '${name}'. Available profiles: ${names.join(", ")}`
+          : `Unknown profile '${name}': no profiles are configured`,
+        "profile"
+      )
+    }
+    return profile
+  }
+
+  /** Effective config with a profile's overrides applied */
+  getProfileConfig(name: string): WorktreeConfig {
+    return applyWorktreeProfile(this.getConfig(), this.getProfile(name))
+  }
+
   updateConfig(updates: Partial<WorktreeConfig>): WorktreeConfig {
     this.config = { ...this.config, ...updates }
     return this.getConfig()
@@ -90,25 +233,20 @@ export class ConfigService {
     return this.getConfig()
   }
 
-  private async findConfigFile(projectPath?: string): Promise<ConfigFile | null> {
-    const searchPaths: string[] = []
-    const baseDir = projectPath || process.cwd()
-
-    searchPaths.push(join(baseDir, LOCAL_CONFIG_FILE_NAME))
-    searchPaths.push(GLOBAL_CONFIG_FILE)
+  private async readFileLayer(name: ConfigLayerName, path: string): Promise<ConfigLayer> {
+    try {
+      await access(path)
+    } catch {
+      return { name, path, found: false, values: {} }
+    }
 
-    for (const path of searchPaths) {
-      try {
-        await access(path)
-        return {
-          config: this.config,
-          path,
-          isGlobal: path.includes(GLOBAL_CONFIG_DIR),
-        }
-      } catch {}
+    const parsed = await this.readConfigFile(path)
+    const validation = validateConfig(parsed)
+    if (!validation.success) {
+      throw new ConfigError(`Invalid configuration: ${validation.error}`, path)
     }
 
-    return null
+    return { name, path, found: true, values: pickConfigKeys(parsed) }
   }
 
   async ensureGlobalConfig(): Promise<void> {
@@ -144,3 +282,147 @@ export class ConfigService {
     return this.configPath
   }
 }
+
+const CONFIG_KEYS = Object.keys(WorktreeConfigSchema.shape) as (keyof WorktreeConfig)[]
+
+/** worktreeCopyPatterns -> BRANCHLET_WORKTREE_COPY_PATTERNS */
+export function getConfigEnvVarName(key: keyof WorktreeConfig): string {
+  return `${CONFIG_ENV_PREFIX}${key.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase()}`
+}
+
+export function isConfigKey(key: string): key is keyof WorktreeConfig {
+  return (CONFIG_KEYS as string[]).includes(key)
+}
+
+/**
+ * Parse a config value given as text (CLI argument or environment variable).
+ * Arrays take a JSON array or a comma-separated list; booleans take true/false/1/0;
+ * objects take JSON.
+ */
+export function parseConfigValue(
+  key: keyof WorktreeConfig,
+  value: string
+): { success: boolean; value?: unknown; error?: string } {
+  const defaultValue = DEFAULT_CONFIG[key]
+
+  if (Array.isArray(defaultValue)) {
+    if (value.trim().startsWith("[")) {
+      try {
+        return { success: true, value: JSON.parse(value) }
+      } catch (error) {
+        return { success: false, error: `invalid JSON: ${error}` }
+      }
+    }
+    return {
+      success: true,
+      value: value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean),
+    }
+  }
+
+  if (isPlainObject(defaultValue)) {
+    try {
+      const parsed: unknown = JSON.parse(value)
+      return isPlainObject(parsed)
+        ? { success: true, value: parsed }
+        : { success: false, error: "expected a JSON object" }
+    } catch (error) {
+      return { success: false, error: `invalid JSON: ${error}` }
+    }
+  }
+
+  if (typeof defaultValue === "boolean") {
+    if (!["true", "false", "1", "0"].includes(value)) {
+      return { success: false, error: "expected true or false" }
+    }
+    return { success: true, value: value === "true" || value === "1" }
+  }
+
+  if (typeof defaultValue === "number") {
+    const number = Number(value)
+    if (value.trim() === "" || !Number.isFinite(number)) {
+      return { success: false, error: "expected a number" }
+    }
+    return { success: true, value: number }
+  }
+
+  return { success: true, value }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function pickConfigKeys(raw: Record<string, unknown>): Partial<WorktreeConfig> {
+  const values: Record<string, unknown> = {}
+  for (const key of CONFIG_KEYS) {
+    if (raw[key] !== undefined) {
+      values[key] = raw[key]
+    }
+  }
+  return values as Partial<WorktreeConfig>
+}
+
+function readEnvLayer(env: NodeJS.ProcessEnv): ConfigLayer {
+  const raw: Record<string, unknown> = {}
+
+  for (const key of CONFIG_KEYS) {
+    const name = getConfigEnvVarName(key)
+    const value = env[name]
+    if (value === undefined) continue
+
+    const parsed = parseConfigValue(key, value)
+    if (!parsed.success) {
+      throw new ConfigError(`Invalid value for ${name}: ${parsed.error}`)
+    }
+    raw[key] = parsed.value
+  }
+
+  const validation = validateConfig(raw)
+  if (!validation.success) {
+    throw new ConfigError(`Invalid configuration in environment: ${validation.error}`)
+  }
+
+  const values = pickConfigKeys(raw)
+  return { name: "env", found: Object.keys(values).length > 0, values }
+}
+
+/**
+ * Apply layers in order. Later layers replace earlier values; an array containing
+ * the inherit marker splices the inherited array in at the marker's position, and
+ * objects (profiles) merge by name so each layer can add or replace entries.
+ */
+function mergeConfigLayers(layers: ConfigLayer[]): {
+  config: Record<string, unknown>
+  origins: Map<keyof WorktreeConfig, ConfigLayerName[]>
+} {
+  const config: Record<string, unknown> = {}
+  const origins = new Map<keyof WorktreeConfig, ConfigLayerName[]>()
+
+  for (const layer of layers) {
+    for (const key of CONFIG_KEYS) {
+      const value = layer.values[key]
+      if (value === undefined) continue
+
+      if (Array.isArray(value) && value.includes(CONFIG_INHERIT_MARKER)) {
+        const inherited = Array.isArray(config[key]) ? (config[key] as unknown[]) : []
+        config[key] = value.flatMap((item) => (item === CONFIG_INHERIT_MARKER ? inherited : [item]))
+        origins.set(key, [...(origins.get(key) ?? []), layer.name])
+      } else if (
+        isPlainObject(value) &&
+        isPlainObject(config[key]) &&
+        Object.keys(config[key]).length > 0
+      ) {
+        config[key] = { ...config[key], ...value }
+        origins.set(key, [...(origins.get(key) ?? []), layer.name])
+      } else {
+        config[key] = value
+        origins.set(key, [layer.name])
+      }
+    }
+  }
+
+  return { config, origins }
+}
@@ -1,10 +1,56 @@
 import { spawn } from "node:child_process"
-import { copyFile, mkdir, readdir, stat } from "node:fs/promises"
-import { dirname, join, relative } from "node:path"
-import type { WorktreeConfig } from "../schemas/config-schema.js"
-import type { TemplateVariables } from "../types/index.js"
-import { fileExists, isDirectory, matchFiles, shouldIgnoreFile } from "../utils/file-patterns.js"
+import { createHash } from "node:crypto"
+import { constants, createWriteStream, type WriteStream } from "node:fs"
+import {
+  copyFile,
+  link,
+  lstat,
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  symlink,
+} from "node:fs/promises"
+import { dirname, join, relative, resolve } from "node:path"
+import { COPY_MANIFEST_FILE_NAME } from "../constants/index.js"
+import type {
+  CopyPattern,
+  CopyStrategy,
+  PostCreateCommand,
+  WorktreeConfig,
+} from "../schemas/config-schema.js"
+import type {
+  CommandRunStatus,
+  CopyPreview,
+  CopyPreviewExclusion,
+  PostCreateCommandOptions,
+  PostCreateCommandResult,
+  SyncFileChange,
+  TemplateVariables,
+} from "../types/index.js"
+import {
+  type CopyManifestRule,
+  evaluateCopyManifest,
+  parseCopyManifest,
+} from "../utils/copy-manifest.js"
+import { ConfigError, GitWorktreeError } from "../utils/error-handlers.js"
+import {
+  fileExists,
+  findIgnoreRule,
+  isDirectory,
+  matchFiles,
+  matchFilesWithExclusions,
+  matchPathList,
+} from "../utils/file-patterns.js"
+import { listUntrackedPaths } from "../utils/git-commands.js"
 import { resolveTemplate } from "../utils/path-utils.js"
+import { resolvePostCreateDependencies } from "../utils/post-create-graph.js"
+
+/** Glob of a worktreeCopyPatterns entry */
+export function getCopyPatternText(entry: CopyPattern): string {
+  return typeof entry === "string" ? entry : entry.pattern
+}
 
 export async function copyFiles(
   sourceDir: string,
@@ -20,13 +66,15 @@ export async function copyFiles(
   try {
     await mkdir(targetDir, { recursive: true })
 
-    const filesToCopy = await matchFiles(
-      sourceDir,
-      config.worktreeCopyPatterns,
-      config.worktreeCopyIgnores
-    )
+    const { matched, findExclusion } = await matchCopyRules(sourceDir, config)
+
+    // A matched directory is placed as a whole, so paths inside it are already handled
+    const placedDirectories: string[] = []
+
+    for (const filePath of Array.from(matched.keys()).sort()) {
+      if (placedDirectories.some((dir) => filePath.startsWith(`${dir}/`))) continue
+      const strategy = matched.get(filePath)?.strategy ?? "copy"
 
-    for (const filePath of filesToCopy) {
       try {
         const sourcePath = join(sourceDir, filePath)
         const targetPath = join(targetDir, filePath)
@@ -37,16 +85,24 @@ export async function copyFiles(
         }
 
         if (await isDirectory(sourcePath)) {
-          await copyDirectoryRecursive(
-            sourcePath,
-            targetPath,
-            result,
-            config.worktreeCopyIgnores,
-            sourceDir
-          )
+          placedDirectories.push(filePath)
+          if (strategy === "symlink" && !(await fileExists(targetPath))) {
+            await mkdir(dirname(targetPath), { recursive: true })
+            await symlink(sourcePath, targetPath)
+            result.copied.push(filePath)
+          } else {
+            await copyDirectoryRecursive(
+              sourcePath,
+              targetPath,
+              result,
+              findExclusion,
+              sourceDir,
+              strategy
+            )
+          }
         } else {
           await mkdir(dirname(targetPath), { recursive: true })
-          await copyFile(sourcePath, targetPath)
+          await placeFile(sourcePath, targetPath, strategy)
           result.copied.push(filePath)
         }
       } catch (error) {
@@ -60,23 +116,342 @@ export async function copyFiles(
   return result
 }
 
+interface CopyMatch {
+  /** worktreeCopyPatterns entry or .branchletcopy line that selected the path */
+  pattern: string
+  strategy: CopyStrategy
+}
+
+/**
+ * Match worktreeCopyPatterns and the include lines of .branchletcopy within
+ * worktreeCopyScope. The first pattern that matches a path decides its strategy.
+ * `findExclusion` names the ignore pattern or .branchletcopy line that excludes
+ * a path, for filtering the contents of matched directories.
+ */
+async function matchCopyRules(
+  sourceDir: string,
+  config: WorktreeConfig,
+  options: { trackExclusions?: boolean } = {}
+): Promise<{
+  matched: Map<string, CopyMatch>
+  excluded: Map<string, CopyPreviewExclusion>
+  findExclusion: (path: string, isDirectory: boolean) => string | undefined
+}> {
+  const ignores = config.worktreeCopyIgnores
+  const manifest = await readCopyManifest(sourceDir)
+  const describeRule = (rule: CopyManifestRule): string =>
+    `${COPY_MANIFEST_FILE_NAME}: ${rule.source}`
+
+  const entries = [
+    ...config.worktreeCopyPatterns.map((entry) => ({
+      glob: getCopyPatternText(entry),
+      pattern: getCopyPatternText(entry),
+      strategy:
+        (typeof entry === "string" ? undefined : entry.strategy) ?? config.worktreeCopyStrategy,
+      fromManifest: false,
+    })),
+    ...manifest
+      .filter((rule) => !rule.negate)
+      .map((rule) => ({
+        glob: rule.glob,
+        pattern: describeRule(rule),
+        strategy: config.worktreeCopyStrategy,
+        fromManifest: true,
+      })),
+  ]
+
+  let candidates: string[] | undefined
+  if (config.worktreeCopyScope !== "all" && entries.length > 0) {
+    const paths = await listUntrackedPaths(sourceDir, {
+      ignoredOnly: config.worktreeCopyScope === "ignored",
+    })
+    if (!paths) {
+      throw new GitWorktreeError(
+        `Could not list untracked files in ${sourceDir}`,
+        "GIT_OPERATION_FAILED"
+      )
+    }
+    candidates = paths
+  }
+
+  const matched = new Map<string, CopyMatch>()
+  const excluded = new Map<string, CopyPreviewExclusion>()
+
+  for (const entry of entries) {
+    const result = candidates
+      ? await matchPathList(sourceDir, candidates, entry.glob, ignores)
+      : options.trackExclusions
+        ? await matchFilesWithExclusions(sourceDir, entry.glob, ignores)
+        : { matches: await matchFiles(sourceDir, [entry.glob], ignores), excluded: [] }
+
+    for (const match of result.matches) {
+      if (matched.has(match)) continue
+      const rule =
+        manifest.length > 0
+          ? evaluateCopyManifest(manifest, match, await isDirectory(join(sourceDir, match)))
+          : undefined
+      if (rule?.negate) {
+        excluded.set(match, { path: match, pattern: entry.pattern, ignore: describeRule(rule) })
+      } else if (rule || !entry.fromManifest) {
+        // Manifest lines are globbed loosely; the manifest itself decides what they select
+        matched.set(match, { pattern: entry.pattern, strategy: entry.strategy })
+      }
+    }
+    for (const { path, ignore } of result.excluded) {
+      if (!excluded.has(path)) excluded.set(path, { path, pattern: entry.pattern, ignore })
+    }
+  }
+
+  const findExclusion = (path: string, isDirectory: boolean): string | undefined => {
+    const ignore = findIgnoreRule(path, ignores)
+    if (ignore !== undefined) return ignore
+    const rule = evaluateCopyManifest(manifest, path, isDirectory)
+    return rule?.negate ? describeRule(rule) : undefined
+  }
+
+  return { matched, excluded, findExclusion }
+}
+
+async function readCopyManifest(sourceDir: string): Promise<CopyManifestRule[]> {
+  try {
+    return parseCopyManifest(await readFile(join(sourceDir, COPY_MANIFEST_FILE_NAME), "utf-8"))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Work out what copyFiles would place in a new worktree without touching the
+ * filesystem: every file with its size, strategy and the pattern that matched it,
+ * plus the matched paths that an ignore rule excluded. A directory matched with
+ * the symlink strategy is one entry, as copyFiles links it whole, unless
+ * `expandSymlinkedDirectories` asks for its files.
+ */
+export async function previewCopyFiles(
+  sourceDir: string,
+  config: WorktreeConfig,
+  options: { expandSymlinkedDirectories?: boolean } = {}
+): Promise<CopyPreview> {
+  const preview: CopyPreview = { files: [], excluded: [], totalSize: 0 }
+  const { matched, excluded, findExclusion } = await matchCopyRules(sourceDir, config, {
+    trackExclusions: true,
+  })
+
+  const placedDirectories: string[] = []
+  const addEntry = async (filePath: string, match: CopyMatch): Promise<void> => {
+    const stats = await stat(join(sourceDir, filePath)).catch(() => undefined)
+    if (!stats) return
+
+    if (!stats.isDirectory()) {
+      preview.files.push({ path: filePath, ...match, size: stats.size })
+      preview.totalSize += stats.size
+      return
+    }
+
+    if (match.strategy === "symlink" && !options.expandSymlinkedDirectories) {
+      const size = await getDirectorySize(join(sourceDir, filePath))
+      preview.files.push({ path: filePath, ...match, size })
+      preview.totalSize += size
+      return
+    }
+
+    // Directory contents are filtered as in copyDirectoryRecursive
+    const entries = await readdir(join(sourceDir, filePath), { withFileTypes: true })
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const childPath = join(filePath, entry.name)
+      const ignore = findExclusion(childPath, entry.isDirectory())
+      if (ignore === undefined) {
+        await addEntry(childPath, match)
+      } else {
+        excluded.set(childPath, { path: childPath, pattern: match.pattern, ignore })
+      }
+    }
+  }
+
+  for (const filePath of Array.from(matched.keys()).sort()) {
+    if (placedDirectories.some((dir) => filePath.startsWith(`${dir}/`))) continue
+    if (await isDirectory(join(sourceDir, filePath))) placedDirectories.push(filePath)
+    await addEntry(filePath, matched.get(filePath) ?? { pattern: "", strategy: "copy" })
+  }
+
+  // A path excluded for one pattern may still be copied through another
+  const copied = new Set(preview.files.map((file) => file.path))
+  preview.excluded = Array.from(excluded.values())
+    .filter((exclusion) => !copied.has(exclusion.path) && !matched.has(exclusion.path))
+    .sort((a, b) => a.path.localeCompare(b.path))
+
+  return preview
+}
+
+/** Content hashes of the files branchlet copied into a worktree, by relative path */
+export type CopiedFileHashes = Record<string, string>
+
+/** Hash the regular files among copyFiles' `copied` paths; links share their source's content */
+export async function hashCopiedFiles(
+  targetDir: string,
+  paths: string[]
+): Promise<CopiedFileHashes> {
+  const hashes: CopiedFileHashes = {}
+  for (const path of paths) {
+    try {
+      const targetPath = join(targetDir, path)
+      if ((await lstat(targetPath)).isFile()) {
+        hashes[path] = hashContent(await readFile(targetPath))
+      }
+    } catch {
+      // A file that vanished since it was copied is simply not recorded
+    }
+  }
+  return hashes
+}
+
+/**
+ * Re-apply worktreeCopyPatterns from one checkout to another. A target file that
+ * differs from both the source and the hash recorded when branchlet last copied
+ * it was edited locally and is skipped unless `overwrite` is set. Returns the
+ * hashes to record for the target afterwards.
+ */
+export async function syncFiles(
+  sourceDir: string,
+  targetDir: string,
+  config: WorktreeConfig,
+  options: { overwrite?: boolean; dryRun?: boolean; recorded?: CopiedFileHashes } = {}
+): Promise<{
+  changes: SyncFileChange[]
+  unchanged: number
+  errors: string[]
+  recorded: CopiedFileHashes
+}> {
+  const { overwrite = false, dryRun = false } = options
+  const result = {
+    changes: [] as SyncFileChange[],
+    unchanged: 0,
+    errors: [] as string[],
+    recorded: { ...options.recorded },
+  }
+
+  const { files } = await previewCopyFiles(sourceDir, config, {
+    expandSymlinkedDirectories: true,
+  })
+
+  for (const file of files) {
+    const sourcePath = join(sourceDir, file.path)
+    const targetPath = join(targetDir, file.path)
+
+    try {
+      const source = await readFile(sourcePath)
+      const targetStats = await stat(targetPath).catch(() => undefined)
+
+      if (!targetStats) {
+        if (!dryRun) {
+          await mkdir(dirname(targetPath), { recursive: true })
+          await placeFile(sourcePath, targetPath, file.strategy)
+          result.recorded[file.path] = hashContent(source)
+        }
+        result.changes.push({ path: file.path, status: "added" })
+        continue
+      }
+
+      // Symlinked and hardlinked files are the source file itself
+      const sourceStats = await stat(sourcePath)
+      if (sourceStats.dev === targetStats.dev && sourceStats.ino === targetStats.ino) {
+        result.unchanged++
+        continue
+      }
+
+      const target = await readFile(targetPath)
+      if (source.equals(target)) {
+        result.recorded[file.path] = hashContent(source)
+        result.unchanged++
+        continue
+      }
+
+      const modified = result.recorded[file.path] !== hashContent(target)
+      const lineChanges = countLineChanges(target, source)
+      if (modified && !overwrite) {
+        result.changes.push({ path: file.path, status: "skipped", ...lineChanges })
+        continue
+      }
+
+      if (!dryRun) {
+        await placeFile(sourcePath, targetPath, file.strategy)
+        result.recorded[file.path] = hashContent(source)
+      }
+      result.changes.push({
+        path: file.path,
+        status: modified ? "overwritten" : "updated",
+        ...lineChanges,
+      })
+    } catch (error) {
+      result.errors.push(`${file.path}: ${error}`)
+    }
+  }
+
+  return result
+}
+
+async function getDirectorySize(path: string): Promise<number> {
+  let size = 0
+  for (const entry of await readdir(path, { withFileTypes: true })) {
+    const entryPath = join(path, entry.name)
+    if (entry.isDirectory()) {
+      size += await getDirectorySize(entryPath)
+    } else {
+      size += (await lstat(entryPath)).size
+    }
+  }
+  return size
+}
+
+function hashContent(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex")
+}
+
+// Lines are compared as multisets, so a moved line isn't counted; enough for a summary
+function countLineChanges(
+  before: Buffer,
+  after: Buffer
+): { linesAdded: number; linesRemoved: number } | undefined {
+  if (before.includes(0) || after.includes(0)) return undefined
+
+  const remaining = new Map<string, number>()
+  for (const line of before.toString().split("\n")) {
+    remaining.set(line, (remaining.get(line) ?? 0) + 1)
+  }
+
+  let linesAdded = 0
+  for (const line of after.toString().split("\n")) {
+    const count = remaining.get(line) ?? 0
+    if (count > 0) {
+      remaining.set(line, count - 1)
+    } else {
+      linesAdded++
+    }
+  }
+
+  let linesRemoved = 0
+  for (const count of remaining.values()) linesRemoved += count
+  return { linesAdded, linesRemoved }
+}
+
 async function copyDirectoryRecursive(
   sourceDir: string,
   targetDir: string,
   result: { copied: string[]; skipped: string[]; errors: string[] },
-  ignorePatterns: string[],
-  baseRoot: string
+  findExclusion: (path: string, isDirectory: boolean) => string | undefined,
+  baseRoot: string,
+  strategy: CopyStrategy = "copy"
 ): Promise<void> {
   try {
     await mkdir(targetDir, { recursive: true })
-    const entries = await readdir(sourceDir)
+    const entries = await readdir(sourceDir, { withFileTypes: true })
 
     for (const entry of entries) {
-      const sourcePath = join(sourceDir, entry)
-      const targetPath = join(targetDir, entry)
+      const sourcePath = join(sourceDir, entry.name)
+      const targetPath = join(targetDir, entry.name)
       const relativePath = relative(baseRoot, sourcePath)
 
-      if (shouldIgnoreFile(relativePath, ignorePatterns)) {
+      if (findExclusion(relativePath, entry.isDirectory()) !== undefined) {
         result.skipped.push(relativePath)
         continue
       }
@@ -85,9 +460,22 @@ async function copyDirectoryRecursive(
         const stats = await stat(sourcePath)
 
         if (stats.isDirectory()) {
-          await copyDirectoryRecursive(sourcePath, targetPath, result, ignorePatterns, baseRoot)
+          // Directories the checkout already created are merged into file by file
+          if (strategy === "symlink" && !(await fileExists(targetPath))) {
+            await symlink(sourcePath, targetPath)
+            result.copied.push(relativePath)
+          } else {
+            await copyDirectoryRecursive(
+              sourcePath,
+              targetPath,
+              result,
+              findExclusion,
+              baseRoot,
+              strategy
+            )
+          }
         } else {
-          await copyFile(sourcePath, targetPath)
+          await placeFile(sourcePath, targetPath, strategy)
           result.copied.push(relativePath)
         }
       } catch (error) {
@@ -99,75 +487,286 @@ async function copyDirectoryRecursive(
   }
 }
 
+async function placeFile(
+  sourcePath: string,
+  targetPath: string,
+  strategy: CopyStrategy
+): Promise<void> {
+  switch (strategy) {
+    case "symlink":
+      await rm(targetPath, { force: true })
+      await symlink(sourcePath, targetPath)
+      return
+    case "hardlink":
+      await rm(targetPath, { force: true })
+      try {
+        await link(sourcePath, targetPath)
+      } catch {
+        // Hardlinks can't cross filesystems
+        await copyFile(sourcePath, targetPath)
+      }
+      return
+    case "reflink":
+      // FICLONE falls back to a regular copy where the filesystem can't clone
+      await copyFile(sourcePath, targetPath, constants.COPYFILE_FICLONE)
+      return
+    default:
+      await copyFile(sourcePath, targetPath)
+  }
+}
+
+/** Command line of a post-create entry, as shown in progress output and results */
+export function getPostCreateCommandText(command: PostCreateCommand): string {
+  return typeof command === "string" ? command : command.run
+}
+
+/**
+ * Run post-create commands. Entries without `needs` wait for the entry before
+ * them; entries with `needs` start as soon as every named command has succeeded,
+ * so independent commands run concurrently. Results keep the input order.
+ */
 export async function executePostCreateCommands(
-  commands: string[],
+  commands: PostCreateCommand[],
   variables: TemplateVariables,
-  onProgress?: (command: string, index: number, total: number) => void
-): Promise<Array<{ command: string; success: boolean; output: string; error?: string }>> {
+  onProgress?: (command: string, index: number, total: number) => void,
+  options: PostCreateCommandOptions = {}
+): Promise<PostCreateCommandResult[]> {
   if (commands.length === 0) {
     return []
   }
 
-  const results: Array<{ command: string; success: boolean; output: string; error?: string }> = []
+  const { dependencies, error } = resolvePostCreateDependencies(commands)
+  if (error) {
+    throw new ConfigError(`Invalid postCreateCmd: ${error}`)
+  }
 
-  for (let i = 0; i < commands.length; i++) {
-    const command = commands[i]
-    if (!command?.trim()) {
-      results.push({
-        command: command || "",
-        success: true,
-        output: "",
-      })
-      continue
+  const specs = commands.map((entry) => (typeof entry === "string" ? { run: entry } : entry))
+  const statuses: CommandRunStatus[] = specs.map(() => "pending")
+  const results = new Array<PostCreateCommandResult>(specs.length)
+  const running = new Map<number, Promise<void>>()
+  const log = options.logPath ? await openLog(options.logPath) : undefined
+  let stopped = false
+
+  const setStatus = (index: number, status: CommandRunStatus): void => {
+    statuses[index] = status
+    options.onStatusChange?.(index, status)
+  }
+
+  const skip = (index: number, reason?: string): void => {
+    results[index] = {
+      command: specs[index]?.run ?? "",
+      success: false,
+      output: "",
+      skipped: true,
+      ...(reason && { error: reason }),
     }
+    setStatus(index, "skipped")
+  }
 
-    onProgress?.(command, i + 1, commands.length)
+  const run = async (index: number): Promise<void> => {
+    const spec = specs[index] ?? { run: "" }
+    const command = spec.run
+    const baseDir = options.cwd ?? variables.WORKTREE_PATH
+    setStatus(index, "running")
+    onProgress?.(command, index + 1, specs.length)
 
     const resolvedCommand = resolveTemplate(command, variables)
-    const result = await executeCommand(resolvedCommand, variables.WORKTREE_PATH)
+    const timeoutSeconds = spec.timeoutSeconds ?? options.timeoutSeconds ?? 0
+    // Buffered per command so concurrent output doesn't interleave in the log
+    let transcript = `$ ${resolvedCommand}\n`
+    const result = await executeCommand(resolvedCommand, {
+      cwd: spec.cwd ? resolve(baseDir, resolveTemplate(spec.cwd, variables)) : baseDir,
+      ...(spec.env && { env: resolveEnv(spec.env, variables) }),
+      timeoutMs: timeoutSeconds * 1000,
+      onData: (chunk) => {
+        transcript += chunk
+        options.onOutput?.(chunk, command, index)
+      },
+    })
+    const outcome = result.timedOut
+      ? `timed out after ${timeoutSeconds}s`
+      : result.success
+        ? "succeeded"
+        : "failed"
+    log?.write(`${transcript}[${outcome}]\n\n`)
 
-    results.push({
+    results[index] = {
       command,
       success: result.success,
       output: result.output,
       ...(result.error && { error: result.error }),
-    })
+      ...(result.timedOut && { timedOut: true }),
+    }
+    setStatus(index, result.success ? "done" : "failed")
+
+    if (!result.success && !(spec.continueOnError ?? options.continueOnError ?? true)) {
+      stopped = true
+    }
+  }
+
+  const isFinished = (index: number): boolean =>
+    statuses[index] !== "pending" && statuses[index] !== "running"
+
+  while (true) {
+    // Skips and empty commands settle synchronously and may unblock earlier entries
+    let changed = false
+
+    for (const [index, spec] of specs.entries()) {
+      if (statuses[index] !== "pending") continue
+      const { needs, after } = dependencies[index] ?? { needs: [], after: [] }
+      const unmet = needs.find((need) => isFinished(need) && statuses[need] !== "done")
+      const waiting =
+        !stopped &&
+        unmet === undefined &&
+        (!needs.every((need) => statuses[need] === "done") || !after.every(isFinished))
+      if (waiting) continue
+
+      changed = true
+      if (stopped) {
+        skip(index)
+      } else if (unmet !== undefined) {
+        skip(index, `needs '${specs[unmet]?.run}', which did not succeed`)
+      } else if (!spec.run.trim()) {
+        results[index] = { command: spec.run, success: true, output: "" }
+        setStatus(index, "done")
+      } else {
+        running.set(
+          index,
+          run(index).finally(() => running.delete(index))
+        )
+      }
+    }
+
+    if (changed) continue
+    if (running.size === 0) break
+    await Promise.race(running.values())
+  }
+
+  if (log) {
+    await new Promise<void>((resolve) => log.end(resolve))
   }
 
   return results
 }
 
+function resolveEnv(
+  env: Record<string, string>,
+  variables: TemplateVariables
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(env).map(([name, value]) => [name, resolveTemplate(value, variables)])
+  )
+}
+
+async function openLog(logPath: string): Promise<WriteStream | undefined> {
+  try {
+    await mkdir(dirname(logPath), { recursive: true })
+    const log = createWriteStream(logPath)
+    // A log that can't be written must not fail the commands themselves
+    log.on("error", () => {})
+    return log
+  } catch {
+    return undefined
+  }
+}
+
 async function executeCommand(
   command: string,
-  cwd: string
-): Promise<{ success: boolean; output: string; error?: string }> {
+  options: {
+    cwd: string
+    env?: Record<string, string>
+    timeoutMs?: number
+    onData?: (chunk: string) => void
+  }
+): Promise<{ success: boolean; output: string; error?: string; timedOut?: boolean }> {
+  const { cwd, env, timeoutMs = 0, onData } = options
+
   return new Promise((resolve) => {
+    // A timed command gets its own process group so the whole tree can be killed
     const child = spawn(command, {
       cwd,
       stdio: "pipe",
       shell: true,
+      detached: timeoutMs > 0,
+      env: env ? { ...process.env, ...env } : process.env,
     })
 
     let stdout = ""
     let stderr = ""
+    let timedOut = false
+
+    const killGroup = (signal: NodeJS.Signals): void => {
+      try {
+        process.kill(-(child.pid as number), signal)
+      } catch {
+        child.kill(signal)
+      }
+    }
+
+    // Outside our process group, the child no longer sees Ctrl+C or our exit
+    const forwardSignal = (signal: NodeJS.Signals): void => {
+      killGroup(signal)
+      stopForwarding()
+      // Re-raise so a signal nobody else handles still ends this process
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal)
+      }
+    }
+    const killOnExit = (): void => killGroup("SIGTERM")
+    const stopForwarding = (): void => {
+      process.off("SIGINT", forwardSignal)
+      process.off("SIGTERM", forwardSignal)
+      process.off("exit", killOnExit)
+    }
+
+    if (timeoutMs > 0) {
+      process.on("SIGINT", forwardSignal)
+      process.on("SIGTERM", forwardSignal)
+      process.on("exit", killOnExit)
+    }
+
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true
+            killGroup("SIGKILL")
+          }, timeoutMs)
+        : undefined
 
     child.stdout?.on("data", (data) => {
-      stdout += data.toString()
+      const chunk = data.toString()
+      stdout += chunk
+      onData?.(chunk)
     })
 
     child.stderr?.on("data", (data) => {
-      stderr += data.toString()
+      const chunk = data.toString()
+      stderr += chunk
+      onData?.(chunk)
     })
 
     child.on("close", (code) => {
+      clearTimeout(timer)
+      stopForwarding()
+      if (timedOut) {
+        resolve({
+          success: false,
+          output: stdout,
+          error: `Timed out after ${timeoutMs / 1000}s`,
+          timedOut: true,
+        })
+        return
+      }
       resolve({
         success: code === 0,
         output: stdout,
-        ...(code !== 0 && stderr ? { error: stderr } : {}),
+        ...(code !== 0 && { error: stderr || `Exited with code ${code}` }),
       })
     })
 
     child.on("error", (error) => {
+      clearTimeout(timer)
+      stopForwarding()
       resolve({
         success: false,
         output: "",
@@ -179,20 +778,21 @@ async function executeCommand(
 
 export async function openTerminal(
   terminalCommand: string,
-  worktreePath: string
+  worktreePath: string,
+  variables: Partial<TemplateVariables> = {}
 ): Promise<{ success: boolean; command: string; error?: string }> {
   if (!terminalCommand.trim()) {
     return { success: true, command: "" }
   }
 
-  const variables: TemplateVariables = {
+  const resolvedCommand = resolveTemplate(terminalCommand, {
     BASE_PATH: "",
-    WORKTREE_PATH: worktreePath,
     BRANCH_NAME: "",
     SOURCE_BRANCH: "",
-  }
-
-  const resolvedCommand = resolveTemplate(terminalCommand, variables)
+    REPO_ROOT: "",
+    ...variables,
+    WORKTREE_PATH: worktreePath,
+  })
 
   return new Promise((resolve) => {
     const child = spawn(resolvedCommand, {
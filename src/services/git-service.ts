@@ -3,19 +3,27 @@ import type {
   GitBranch,
   GitRepository,
   GitWorktree,
+  ListWorktreesOptions,
+  WorktreeChanges,
   WorktreeCreateOptions,
   WorktreeDeleteOptions,
 } from "../types/index.js"
 import {
   executeGitCommand,
+  GitWorktreeError,
   getCurrentBranch,
   getDefaultBranch,
   handleGitError,
   isGitRepository,
+  mapWithConcurrency,
 } from "../utils/index.js"
 
+// Upper bound on git processes spawned at once while collecting per-worktree status
+const STATUS_CONCURRENCY = 8
+
 export class GitService {
   private gitRoot: string
+  private defaultBranch?: Promise<string>
 
   constructor(gitRoot?: string) {
     this.gitRoot = gitRoot || process.cwd()
@@ -52,10 +60,14 @@ export class GitService {
   }
 
   async getDefaultBranch(): Promise<string> {
-    return await getDefaultBranch(this.gitRoot)
+    // The default branch does not change during a session, so resolve it once per instance
+    if (!this.defaultBranch) {
+      this.defaultBranch = getDefaultBranch(this.gitRoot)
+    }
+    return await this.defaultBranch
   }
 
-  async listWorktrees(): Promise<GitWorktree[]> {
+  async listWorktrees(options: ListWorktreesOptions = {}): Promise<GitWorktree[]> {
     const result = await executeGitCommand(["worktree", "list", "--porcelain"], this.gitRoot)
 
     if (!result.success) {
@@ -98,23 +110,120 @@ export class GitService {
     }
 
     for (const worktree of worktrees) {
-      worktree.isClean = await this.isWorktreeClean(worktree.path)
       if (!worktree.branch) {
         worktree.branch = "detached"
-      } else {
-        const branchStatus = await this.getBranchStatus(worktree.branch)
-        if (branchStatus) {
-          worktree.branchStatus = branchStatus
-        }
       }
     }
 
+    if (options.fast) {
+      return worktrees
+    }
+
+    const compareBranches = await Promise.all([this.getDefaultBranch(), this.getCurrentBranch()])
+
+    await mapWithConcurrency(worktrees, STATUS_CONCURRENCY, async (worktree) => {
+      const [isClean, branchStatus] = await Promise.all([
+        this.isWorktreeClean(worktree.path),
+        worktree.branch === "detached"
+          ? null
+          : this.getBranchStatus(worktree.branch, compareBranches),
+      ])
+
+      worktree.isClean = isClean
+      if (branchStatus) {
+        worktree.branchStatus = branchStatus
+      }
+    })
+
+    return worktrees
+  }
+
+  async listWorktreesWithStatus(): Promise<GitWorktree[]> {
+    const [worktrees, stashCounts] = await Promise.all([
+      this.listWorktrees(),
+      this.getStashCounts(),
+    ])
+
+    await mapWithConcurrency(worktrees, STATUS_CONCURRENCY, async (worktree) => {
+      const [changes, lastCommitDate] = await Promise.all([
+        this.getWorktreeChanges(worktree.path),
+        this.getCommitDate(worktree.commit),
+      ])
+
+      worktree.changes = changes
+      worktree.stashCount = stashCounts.get(worktree.branch) ?? 0
+      if (lastCommitDate) {
+        worktree.lastCommitDate = lastCommitDate
+      }
+    })
+
     return worktrees
   }
 
+  async getWorktreeChanges(worktreePath: string): Promise<WorktreeChanges> {
+    const changes: WorktreeChanges = { staged: 0, unstaged: 0, untracked: 0 }
+
+    // Porcelain v2 never starts a line with whitespace, so the trimmed output stays parseable
+    const result = await executeGitCommand(["status", "--porcelain=v2"], worktreePath)
+    if (!result.success) {
+      return changes
+    }
+
+    for (const line of result.stdout.split("\n")) {
+      if (line.startsWith("? ")) {
+        changes.untracked++
+      } else if (line.startsWith("u ")) {
+        changes.unstaged++
+      } else if (line.startsWith("1 ") || line.startsWith("2 ")) {
+        const [stagedFlag, unstagedFlag] = line.substring(2, 4)
+        if (stagedFlag !== ".") changes.staged++
+        if (unstagedFlag !== ".") changes.unstaged++
+      }
+    }
+
+    return changes
+  }
+
+  async getStashCounts(): Promise<Map<string, number>> {
+    const counts = new Map<string, number>()
+    const result = await executeGitCommand(["stash", "list", "--format=%gs"], this.gitRoot)
+
+    if (!result.success) {
+      return counts
+    }
+
+    // Stashes live in the shared repository, so attribute each one to the branch
+    // recorded in its subject ("WIP on <branch>: ..." or "On <branch>: ...")
+    for (const line of result.stdout.split("\n")) {
+      const match = line.match(/^(?:WIP on|On) ([^:]+):/)
+      if (match?.[1]) {
+        const branch = match[1] === "(no branch)" ? "detached" : match[1]
+        counts.set(branch, (counts.get(branch) ?? 0) + 1)
+      }
+    }
+
+    return counts
+  }
+
+  async getCommitDate(commit: string): Promise<Date | null> {
+    if (!commit) {
+      return null
+    }
+
+    const result = await executeGitCommand(["log", "-1", "--format=%cI", commit], this.gitRoot)
+    if (!result.success || !result.stdout) {
+      return null
+    }
+
+    const date = new Date(result.stdout)
+    return Number.isNaN(date.getTime()) ? null : date
+  }
+
   async listBranches(): Promise<GitBranch[]> {
-    const currentBranch = await this.getCurrentBranch()
-    const defaultBranch = await this.getDefaultBranch()
+    const [currentBranch, defaultBranch] = await Promise.all([
+      this.getCurrentBranch(),
+      this.getDefaultBranch(),
+    ])
 
     const result = await executeGitCommand(
       [
@@ -179,7 +288,7 @@ export class GitService {
       [
         "for-each-ref",
         "--sort=-committerdate",
-        "--format=%(refname:short)|%(objectname:short)|%(committerdate:iso8601)",
+        "--format=%(refname:short)|%(objectname:short)|%(committerdate:iso8601)|%(refname:lstrip=3)",
         "refs/remotes/",
       ],
       this.gitRoot
@@ -193,7 +302,7 @@ export class GitService {
     const lines = result.stdout.split("\n").filter((line) => line.trim())
 
     for (const line of lines) {
-      const [name, commit, dateStr] = line.split("|")
+      const [name, commit, dateStr, localName] = line.split("|")
       if (name && commit && dateStr) {
         // Skip HEAD refs — refname:short collapses "origin/HEAD" to "origin",
         // so also skip names without a "/" (bare remote name = HEAD symref)
@@ -207,6 +316,7 @@ export class GitService {
           isCurrent: false,
           isDefault: false,
           isRemote: true,
+          ...(localName && { localName }),
         })
       }
     }
@@ -242,12 +352,15 @@ export class GitService {
   }
 
   async createWorktree(options: WorktreeCreateOptions): Promise<void> {
-    const { name, sourceBranch, newBranch, basePath } = options
+    const { name, sourceBranch, newBranch, basePath, track } = options
     const worktreePath = `${basePath}/${name}`
 
     const args = ["worktree", "add"]
 
     if (newBranch !== sourceBranch) {
+      if (track) {
+        args.push("--track")
+      }
       args.push("-b", newBranch)
     }
 
@@ -260,6 +373,70 @@ export class GitService {
     }
   }
 
+  async fetchPullRequest(prNumber: number, remote: string, localBranch: string): Promise<void> {
+    // GitHub publishes refs/pull/<n>/head, GitLab publishes refs/merge-requests/<n>/head
+    const refs = [`refs/pull/${prNumber}/head`, `refs/merge-requests/${prNumber}/head`]
+    let stderr = ""
+
+    // The fetch force-updates the branch to the PR head, which would strand a checkout of it
+    const worktrees = await this.listWorktrees({ fast: true })
+    const checkedOut = worktrees.find((worktree) => worktree.branch === localBranch)
+    if (checkedOut) {
+      throw new GitWorktreeError(
+        `Branch '${localBranch}' is checked out at '${checkedOut.path}'`,
+        "BRANCH_CHECKED_OUT"
+      )
+    }
+
+    for (const ref of refs) {
+      const result = await executeGitCommand(["fetch", remote, ref], this.gitRoot)
+      if (result.success) {
+        const head = await executeGitCommand(["rev-parse", "FETCH_HEAD"], this.gitRoot)
+        await this.movePullRequestBranch(
+          prNumber,
+          localBranch,
+          head.stdout,
+          `fetch ${remote} ${ref}`
+        )
+        return
+      }
+
+      stderr = result.stderr
+      if (!stderr.includes("couldn't find remote ref")) break
+    }
+
+    throw handleGitError(stderr, "fetch pull request")
+  }
+
+  /**
+   * Point the pr-<n> branch at the fetched head. A rewritten pull request may
+   * replace what an earlier fetch stored, but not commits made on the branch.
+   */
+  private async movePullRequestBranch(
+    prNumber: number,
+    branch: string,
+    head: string,
+    reason: string
+  ): Promise<void> {
+    const ref = `refs/heads/${branch}`
+    const current = await executeGitCommand(["rev-parse", "--verify", "--quiet", ref], this.gitRoot)
+    if (current.success && current.stdout !== head) {
+      const [contained, lastUpdate] = await Promise.all([
+        executeGitCommand(["merge-base", "--is-ancestor", current.stdout, head], this.gitRoot),
+        executeGitCommand(["reflog", "show", "-n", "1", "--format=%gs", ref], this.gitRoot),
+      ])
+      if (!contained.success && !lastUpdate.stdout.startsWith("fetch ")) {
+        throw new GitWorktreeError(
+          `Branch '${branch}' has commits that are not in pull request #${prNumber}; rename or delete it first`,
+          "BRANCH_DIVERGED"
+        )
+      }
+    }
+
+    const result = await executeGitCommand(["update-ref", "-m", reason, ref, head], this.gitRoot)
+    if (!result.success) throw handleGitError(result.stderr, "fetch pull request")
+  }
+
   async deleteWorktree(options: WorktreeDeleteOptions): Promise<void> {
     const { path, force } = options
 
@@ -284,6 +461,14 @@ export class GitService {
     throw handleGitError(result.stderr, "delete worktree")
   }
 
+  async moveWorktree(fromPath: string, toPath: string): Promise<void> {
+    const result = await executeGitCommand(["worktree", "move", fromPath, toPath], this.gitRoot)
+
+    if (!result.success) {
+      throw handleGitError(result.stderr, "move worktree")
+    }
+  }
+
   async isWorktreeClean(worktreePath: string): Promise<boolean> {
     const statusResult = await executeGitCommand(["status", "--porcelain"], worktreePath)
     return statusResult.success && statusResult.stdout.trim() === ""
@@ -297,15 +482,27 @@ export class GitService {
     return result.success
   }
 
+  /** Private git directory of a worktree (.git/worktrees/<name> for linked worktrees) */
+  async getWorktreeGitDir(worktreePath: string): Promise<string | null> {
+    const result = await executeGitCommand(["rev-parse", "--absolute-git-dir"], worktreePath)
+    return result.success && result.stdout ? result.stdout : null
+  }
+
   async worktreeExists(worktreePath: string): Promise<boolean> {
-    const worktrees = await this.listWorktrees()
+    const worktrees = await this.listWorktrees({ fast: true })
     return worktrees.some((wt) => wt.path === worktreePath)
   }
 
-  async getBranchStatus(branchName: string): Promise<BranchStatus | null> {
+  async getBranchStatus(
+    branchName: string,
+    compareBranches?: Array<string | null>
+  ): Promise<BranchStatus | null> {
     try {
       // Try default branch first, then current branch as fallback
-      const candidates = [await this.getDefaultBranch(), await this.getCurrentBranch()]
+      const candidates = compareBranches ?? [
+        await this.getDefaultBranch(),
+        await this.getCurrentBranch(),
+      ]
 
       for (const compareBranch of candidates) {
         if (!compareBranch || compareBranch === branchName) {
@@ -333,9 +530,72 @@ export class GitService {
     }
   }
 
+  /**
+   * Branches whose commits are all in the target. `git branch --merged` also
+   * lists branches that have no commits of their own yet, such as one just
+   * created for a new worktree; those are left out.
+   */
+  async listMergedBranches(targetBranch?: string): Promise<string[]> {
+    const target = targetBranch ?? (await this.getDefaultBranch())
+    const [result, targetTip] = await Promise.all([
+      executeGitCommand(
+        ["branch", "--merged", target, "--format=%(refname:short)|%(objectname)"],
+        this.gitRoot
+      ),
+      executeGitCommand(["rev-parse", "--verify", `${target}^{commit}`], this.gitRoot),
+    ])
+
+    if (!result.success) {
+      return []
+    }
+
+    const candidates = result.stdout
+      .split("\n")
+      .map((line) => line.trim().split("|"))
+      .filter(([name, commit]) => name && name !== target && commit !== targetTip.stdout.trim())
+      .map(([name]) => name as string)
+
+    const hasOwnCommits = await mapWithConcurrency(candidates, STATUS_CONCURRENCY, (name) =>
+      this.hasOwnCommits(name)
+    )
+    return candidates.filter((_, index) => hasOwnCommits[index])
+  }
+
+  // A reflog holding only the branch's creation means nothing was ever committed on it
+  private async hasOwnCommits(branchName: string): Promise<boolean> {
+    const result = await executeGitCommand(
+      ["reflog", "show", "--format=%H", `refs/heads/${branchName}`],
+      this.gitRoot
+    )
+    if (!result.success || !result.stdout.trim()) {
+      return true
+    }
+    return result.stdout.trim().split("\n").length > 1
+  }
+
+  async listGoneBranches(): Promise<string[]> {
+    const result = await executeGitCommand(
+      ["for-each-ref", "--format=%(refname:short)|%(upstream:track)", "refs/heads/"],
+      this.gitRoot
+    )
+
+    if (!result.success) {
+      return []
+    }
+
+    // "[gone]" means the branch tracks an upstream that no longer exists on the remote
+    return result.stdout
+      .split("\n")
+      .map((line) => line.split("|"))
+      .filter(([name, track]) => name && track === "[gone]")
+      .map(([name]) => name as string)
+  }
+
   async deleteBranch(branchName: string, force = false): Promise<void> {
-    const currentBranch = await this.getCurrentBranch()
-    const defaultBranch = await this.getDefaultBranch()
+    const [currentBranch, defaultBranch] = await Promise.all([
+      this.getCurrentBranch(),
+      this.getDefaultBranch(),
+    ])
 
     if (branchName === currentBranch) {
       throw new Error(`Cannot delete current branch '${branchName}'`)
@@ -352,4 +612,12 @@ export class GitService {
       throw handleGitError(result.stderr, "delete branch")
     }
   }
+
+  async renameBranch(branchName: string, newName: string): Promise<void> {
+    const result = await executeGitCommand(["branch", "-m", branchName, newName], this.gitRoot)
+
+    if (!result.success) {
+      throw handleGitError(result.stderr, "rename branch")
+    }
+  }
 }
@@ -1,23 +1,44 @@
 import { existsSync } from "node:fs"
-import { readFile, writeFile } from "node:fs/promises"
+import { copyFile, mkdir, readFile, unlink, writeFile } from "node:fs/promises"
 import { homedir } from "node:os"
-import { join } from "node:path"
+import { dirname, join } from "node:path"
+
+export type ShellType = "zsh" | "bash" | "fish"
 
 export interface ShellIntegrationStatus {
   isInstalled: boolean
-  shell: "zsh" | "bash" | "unknown"
+  shell: ShellType | "unknown"
   configPath: string | null
+  /** Version stamped in the installed block; 1 for blocks written before stamping */
+  installedVersion?: number
+  /** The installed block is older than this release or damaged and should be reinstalled */
+  needsUpgrade?: boolean
   reason?: string
 }
 
+export interface ShellIntegrationChange {
+  /** Files written or deleted */
+  files: string[]
+  /** Copies of those files taken before they were changed */
+  backups: string[]
+}
+
+/**
+ * Bump whenever the generated wrapper or completions change, so installed
+ * blocks from older releases are offered an upgrade.
+ */
+export const SHELL_INTEGRATION_VERSION = 8
+
 const WRAPPER_SIGNATURE = "# Branchlet setup: added on"
 const SETUP_END_MARKER = "# End Branchlet setup"
+const BACKUP_SUFFIX = ".branchlet-backup"
 
 /**
- * Detects if shell integration is installed
+ * Detects if shell integration is installed, and whether it is current
  */
-export async function detectShellIntegration(): Promise<ShellIntegrationStatus> {
-  const shell = detectShell()
+export async function detectShellIntegration(
+  shell: ShellType | "unknown" = detectShell()
+): Promise<ShellIntegrationStatus> {
   const configPath = getConfigPath(shell)
 
   if (!configPath) {
@@ -42,19 +63,36 @@ export async function detectShellIntegration(): Promise<ShellIntegrationStatus>
     const content = await readFile(configPath, "utf-8")
     const isInstalled = content.includes(WRAPPER_SIGNATURE)
 
-    if (isInstalled) {
+    if (!isInstalled) {
       return {
         isInstalled,
         shell,
         configPath,
+        reason: "Shell integration not found in config",
       }
     }
 
+    const { version, problem } = inspectSetupBlock(content)
+    const completionsPath = getFishCompletionsPath()
+    const missingCompletions =
+      shell === "fish" &&
+      (!existsSync(completionsPath) ||
+        !(await readFile(completionsPath, "utf-8")).includes(WRAPPER_SIGNATURE))
+
+    const reason =
+      problem ??
+      (missingCompletions ? `Fish completions are missing from ${completionsPath}` : undefined) ??
+      (version < SHELL_INTEGRATION_VERSION
+        ? `Installed integration is v${version}; this release writes v${SHELL_INTEGRATION_VERSION}`
+        : undefined)
+
     return {
       isInstalled,
       shell,
       configPath,
-      reason: "Shell integration not found in config",
+      installedVersion: version,
+      needsUpgrade: reason !== undefined,
+      ...(reason !== undefined && { reason }),
     }
   } catch (error) {
     return {
@@ -67,52 +105,136 @@ export async function detectShellIntegration(): Promise<ShellIntegrationStatus>
 }
 
 /**
- * Installs shell integration to the user's shell config
+ * Reads the version stamp of the first Branchlet block in a config file and
+ * reports damage: duplicate blocks or a block without its end marker.
+ */
+export function inspectSetupBlock(content: string): { version: number; problem?: string } {
+  const lines = content.split("\n")
+  const starts = lines.flatMap((line, index) => (line.includes(WRAPPER_SIGNATURE) ? [index] : []))
+  const [first] = starts
+  if (first === undefined) {
+    return { version: 0, problem: "Shell integration not found in config" }
+  }
+
+  const stamp = lines[first]?.match(/\(integration v(\d+)\)/)
+  const version = stamp?.[1] ? Number.parseInt(stamp[1], 10) : 1
+
+  if (starts.length > 1) {
+    return { version, problem: `Found ${starts.length} Branchlet blocks; only one should exist` }
+  }
+  if (!lines.slice(first + 1).some((line) => line.includes(SETUP_END_MARKER))) {
+    return { version, problem: `The Branchlet block has no '${SETUP_END_MARKER}' line` }
+  }
+  return { version }
+}
+
+/**
+ * Installs shell integration to the user's shell config. Fish gets its wrapper
+ * and completions as autoloaded files instead of an rc file block. Existing
+ * files are backed up first.
  */
 export async function installShellIntegration(
-  shell: "zsh" | "bash",
+  shell: ShellType,
   commandName = "branchlet"
-): Promise<void> {
-  const configPath = getConfigPath(shell)
+): Promise<ShellIntegrationChange> {
+  const configPath = getConfigPath(shell, commandName)
   if (!configPath) {
     throw new Error("Could not determine shell config path")
   }
 
-  const setupBlock = generateSetupBlock(shell, commandName)
-
-  // Check if already installed
-  if (existsSync(configPath)) {
-    const content = await readFile(configPath, "utf-8")
-    if (content.includes(WRAPPER_SIGNATURE)) {
-      const lines = content.split("\n")
-      const startIndex = lines.findIndex((line) => line.includes(WRAPPER_SIGNATURE))
+  const change: ShellIntegrationChange = { files: [], backups: [] }
+  await writeSetupBlock(configPath, generateSetupBlock(shell, commandName), change)
+  if (shell === "fish") {
+    await writeSetupBlock(
+      getFishCompletionsPath(commandName),
+      generateFishCompletionsBlock(commandName),
+      change
+    )
+  }
+  return change
+}
 
-      if (startIndex !== -1) {
-        const endIndex = findSetupEndIndex(lines, startIndex)
+/**
+ * Removes shell integration from config file, backing it up first
+ */
+export async function removeShellIntegration(
+  shell: ShellType,
+  commandName = "branchlet"
+): Promise<ShellIntegrationChange> {
+  const change: ShellIntegrationChange = { files: [], backups: [] }
+  const configPath = getConfigPath(shell, commandName)
+  if (!configPath) {
+    return change
+  }
 
-        // Remove old integration
-        lines.splice(startIndex, endIndex - startIndex + 1)
-        await writeFile(configPath, lines.join("\n"), "utf-8")
-      }
-    }
+  // Fish files only hold the integration, so drop them once the block is gone
+  const deleteIfEmpty = shell === "fish"
+  await removeSetupBlock(configPath, deleteIfEmpty, change)
+  if (shell === "fish") {
+    await removeSetupBlock(getFishCompletionsPath(commandName), deleteIfEmpty, change)
   }
+  return change
+}
 
-  // Append new integration
-  const contentToAppend = `\n${setupBlock}\n`
+/**
+ * Where a config file is copied before Branchlet rewrites it. Each backup is
+ * stamped with its time, so later rewrites never replace the original file.
+ */
+export function getBackupPath(configPath: string, stamp = formatBackupStamp(new Date())): string {
+  return `${configPath}${BACKUP_SUFFIX}-${stamp}`
+}
 
+function formatBackupStamp(date: Date): string {
+  return date.toISOString().replace(/[-:.]/g, "")
+}
+
+async function backupConfigFile(configPath: string, change: ShellIntegrationChange) {
+  const stamp = formatBackupStamp(new Date())
+  let backupPath = getBackupPath(configPath, stamp)
+  for (let attempt = 1; existsSync(backupPath); attempt++) {
+    backupPath = getBackupPath(configPath, `${stamp}-${attempt}`)
+  }
+  await copyFile(configPath, backupPath)
+  change.backups.push(backupPath)
+}
+
+async function writeSetupBlock(
+  configPath: string,
+  setupBlock: string,
+  change: ShellIntegrationChange
+): Promise<void> {
+  let content = ""
   if (existsSync(configPath)) {
-    await writeFile(configPath, contentToAppend, { flag: "a", encoding: "utf-8" })
+    await backupConfigFile(configPath, change)
+    content = await readFile(configPath, "utf-8")
   } else {
-    await writeFile(configPath, contentToAppend, "utf-8")
+    await mkdir(dirname(configPath), { recursive: true })
+  }
+
+  // Drop every old block, so duplicates left by earlier bugs or hand edits go too
+  const lines = content.split("\n")
+  let startIndex = lines.findIndex((line) => line.includes(WRAPPER_SIGNATURE))
+  while (startIndex !== -1) {
+    const endIndex = findSetupEndIndex(lines, startIndex)
+    lines.splice(startIndex, endIndex - startIndex + 1)
+    startIndex = lines.findIndex((line) => line.includes(WRAPPER_SIGNATURE))
+  }
+
+  // Append new integration after a single blank line
+  while (lines.length > 0 && lines[lines.length - 1]?.trim() === "") {
+    lines.pop()
   }
+  const before = lines.length > 0 ? `${lines.join("\n")}\n\n` : ""
+  await writeFile(configPath, `${before}${setupBlock}\n`, "utf-8")
+  change.files.push(configPath)
 }
 
-/**
- * Removes shell integration from config file
- */
-export async function removeShellIntegration(shell: "zsh" | "bash"): Promise<void> {
-  const configPath = getConfigPath(shell)
-  if (!configPath || !existsSync(configPath)) {
+async function removeSetupBlock(
+  configPath: string,
+  deleteIfEmpty: boolean,
+  change: ShellIntegrationChange
+): Promise<void> {
+  if (!existsSync(configPath)) {
     return
   }
 
@@ -121,10 +243,12 @@ export async function removeShellIntegration(shell: "zsh" | "bash"): Promise<voi
     return
   }
 
+  await backupConfigFile(configPath, change)
+
   const lines = content.split("\n")
-  const startIndex = lines.findIndex((line) => line.includes(WRAPPER_SIGNATURE))
+  let startIndex = lines.findIndex((line) => line.includes(WRAPPER_SIGNATURE))
 
-  if (startIndex !== -1) {
+  while (startIndex !== -1) {
     const endIndex = findSetupEndIndex(lines, startIndex)
 
     // Remove the integration block including surrounding blank lines
@@ -134,14 +258,24 @@ export async function removeShellIntegration(shell: "zsh" | "bash"): Promise<voi
       endIndex + 1 < lines.length && lines[endIndex + 1]?.trim() === "" ? endIndex + 1 : endIndex
 
     lines.splice(removeStart, removeEnd - removeStart + 1)
-    await writeFile(configPath, lines.join("\n"), "utf-8")
+    startIndex = lines.findIndex((line) => line.includes(WRAPPER_SIGNATURE))
+  }
+
+  const remaining = lines.join("\n")
+  if (deleteIfEmpty && remaining.trim() === "") {
+    await unlink(configPath)
+  } else {
+    // Splicing out a block at the end also takes the file's final newline
+    const ending = remaining === "" || remaining.endsWith("\n") ? "" : "\n"
+    await writeFile(configPath, `${remaining}${ending}`, "utf-8")
   }
+  change.files.push(configPath)
 }
 
 /**
  * Detects the user's shell from environment
  */
-export function detectShell(): "zsh" | "bash" | "unknown" {
+export function detectShell(): ShellType | "unknown" {
   const shell = process.env.SHELL?.toLowerCase() || ""
 
   if (shell.includes("zsh")) {
@@ -150,14 +284,21 @@ export function detectShell(): "zsh" | "bash" | "unknown" {
   if (shell.includes("bash")) {
     return "bash"
   }
+  if (shell.includes("fish")) {
+    return "fish"
+  }
 
   return "unknown"
 }
 
 /**
- * Gets the config file path for the given shell
+ * Gets the config file path for the given shell. For fish this is the
+ * autoloaded function file, which must be named after the command.
  */
-export function getConfigPath(shell: "zsh" | "bash" | "unknown"): string | null {
+export function getConfigPath(
+  shell: ShellType | "unknown",
+  commandName = "branchlet"
+): string | null {
   const home = homedir()
 
   switch (shell) {
@@ -165,11 +306,20 @@ export function getConfigPath(shell: "zsh" | "bash" | "unknown"): string | null
       return join(home, ".zshrc")
     case "bash":
       return join(home, ".bashrc")
+    case "fish":
+      return join(home, ".config", "fish", "functions", `${commandName}.fish`)
     default:
       return null
   }
 }
 
+/**
+ * Gets the autoloaded fish completions file for the command
+ */
+export function getFishCompletionsPath(commandName = "branchlet"): string {
+  return join(homedir(), ".config", "fish", "completions", `${commandName}.fish`)
+}
+
 /**
  * Finds the end index of the setup block, using end marker with fallback
  */
@@ -196,12 +346,31 @@ export function findSetupEndIndex(lines: string[], startIndex: number): number {
 /**
  * Generates the full setup block including completions and wrapper function
  */
-export function generateSetupBlock(shell: "zsh" | "bash", commandName: string): string {
+export function generateSetupBlock(shell: ShellType, commandName: string): string {
   const today = new Date().toISOString().split("T")[0]
+  if (shell === "fish") {
+    return `${WRAPPER_SIGNATURE} ${today} (integration v${SHELL_INTEGRATION_VERSION})
+function ${commandName} --description "Switch between Git worktrees"
+    if test (count $argv) -eq 0
+        # env runs the executable rather than this function, like command does
+        set -l dir (env FORCE_COLOR=3 ${commandName} --from-wrapper)
+        if test -n "$dir"
+            builtin cd "$dir"; and echo "Branchlet: Navigated to "(pwd)
+        end
+    else if contains -- $argv[1] cd switch
+        set -l dir (command ${commandName} $argv); or return
+        builtin cd "$dir"; and echo "Branchlet: Navigated to "(pwd)
+    else
+        command ${commandName} $argv
+    end
+end
+${SETUP_END_MARKER}`
+  }
+
   const completions =
     shell === "zsh" ? generateZshCompletions() : generateBashCompletions()
 
-  return `${WRAPPER_SIGNATURE} ${today}
+  return `${WRAPPER_SIGNATURE} ${today} (integration v${SHELL_INTEGRATION_VERSION})
 ${completions}
 ${commandName}() {
   if [ $# -eq 0 ]; then
@@ -209,6 +378,10 @@ ${commandName}() {
     if [ -n "$dir" ]; then
       builtin cd "$dir" && echo "Branchlet: Navigated to $(pwd)"
     fi
+  elif [ "$1" = "cd" ] || [ "$1" = "switch" ]; then
+    local dir
+    dir=$(command ${commandName} "$@") || return
+    builtin cd "$dir" && echo "Branchlet: Navigated to $(pwd)"
   else
     command ${commandName} "$@"
   fi
@@ -217,26 +390,112 @@ ${SETUP_END_MARKER}`
 }
 
 function generateBashCompletions(): string {
-  return `_branchlet_completions() {
+  return `_branchlet_complete_values() {
+  COMPREPLY=($(compgen -W "$(command branchlet __complete "$1" 2>/dev/null)" -- "\${cur}"))
+}
+_branchlet_completions() {
   local cur="\${COMP_WORDS[COMP_CWORD]}"
-  local commands="create list delete settings"
+  local prev="\${COMP_WORDS[COMP_CWORD-1]}"
+  local command="\${COMP_WORDS[1]}"
+  local commands="create list delete move status prune config copy sync cd switch shell settings"
   local flags="--help --version --mode --from-wrapper"
+  case "\${prev}" in
+    -m|--mode)
+      COMPREPLY=($(compgen -W "menu create list delete settings" -- "\${cur}"))
+      return
+      ;;
+    -n|--name)
+      [[ "\${command}" == "delete" ]] && _branchlet_complete_values worktrees
+      return
+      ;;
+    -p|--path)
+      _branchlet_complete_values worktree-paths
+      return
+      ;;
+    -s|--source|-b|--branch)
+      _branchlet_complete_values branches
+      return
+      ;;
+    --from|--to)
+      _branchlet_complete_values worktrees
+      return
+      ;;
+    --profile)
+      _branchlet_complete_values profiles
+      return
+      ;;
+    --pr|--var|--older-than)
+      return
+      ;;
+  esac
   if [[ \${COMP_CWORD} -eq 1 ]]; then
     COMPREPLY=($(compgen -W "\${commands} \${flags}" -- "\${cur}"))
-  elif [[ "\${COMP_WORDS[1]}" == "--mode" || "\${COMP_WORDS[1]}" == "-m" ]]; then
-    COMPREPLY=($(compgen -W "menu create list delete settings" -- "\${cur}"))
+    return
   fi
+  local options=""
+  case "\${command}" in
+    create) options="--name --source --branch --pr --profile --var --reuse-local --json" ;;
+    delete) options="--name --path --force --json" ;;
+    list|status) options="--json" ;;
+    prune) options="--merged --gone --older-than --dry-run --force --json" ;;
+    copy) options="--dry-run --json" ;;
+    sync) options="--from --to --all --overwrite --dry-run --json" ;;
+    move)
+      if [[ \${COMP_CWORD} -eq 2 ]]; then
+        _branchlet_complete_values worktrees
+        return
+      fi
+      options="--branch --json"
+      ;;
+    cd|switch)
+      [[ \${COMP_CWORD} -eq 2 ]] && _branchlet_complete_values worktrees
+      return
+      ;;
+    config)
+      if [[ \${COMP_CWORD} -eq 2 ]]; then
+        options="list get set unset add remove validate explain --explain --global --repo --local --json"
+      elif [[ \${COMP_CWORD} -eq 3 && " get set unset add remove " == *" \${prev} "* ]]; then
+        _branchlet_complete_values config-keys
+        return
+      else
+        options="--global --repo --local --json"
+      fi
+      ;;
+    shell)
+      if [[ \${COMP_CWORD} -eq 2 ]]; then
+        options="status install uninstall print"
+      elif [[ \${COMP_CWORD} -eq 3 ]]; then
+        options="zsh bash fish"
+      fi
+      ;;
+  esac
+  COMPREPLY=($(compgen -W "\${options}" -- "\${cur}"))
 }
 complete -F _branchlet_completions branchlet`
 }
 
 function generateZshCompletions(): string {
-  return `_branchlet() {
+  return `_branchlet_values() {
+  local -a values
+  values=(\${(f)"$(command branchlet __complete $1 2>/dev/null)"})
+  compadd -a values
+}
+_branchlet() {
+  local curcontext="$curcontext" state line
   local -a commands
   commands=(
     'create:Create a new worktree'
     'list:List all worktrees'
     'delete:Delete a worktree'
+    'move:Rename a worktree and optionally its branch'
+    'status:Summarize every worktree'
+    'prune:Remove merged, gone or inactive worktrees'
+    'config:Read, change and validate configuration'
+    'copy:Preview the files copied into new worktrees'
+    'sync:Copy files from one worktree to others again'
+    'cd:Change into a worktree by name or branch'
+    'switch:Change into a worktree by name or branch'
+    'shell:Install, uninstall, check or print shell integration'
     'settings:Manage configuration'
   )
   _arguments -C \\
@@ -244,12 +503,130 @@ function generateZshCompletions(): string {
     '(-v --version)'{-v,--version}'[Show version]' \\
     '(-m --mode)'{-m,--mode}'[Set mode]:mode:(menu create list delete settings)' \\
     '--from-wrapper[Called from shell wrapper]' \\
-    '1:command:->command'
+    '(-n --name)'{-n,--name}'[Worktree directory name]:name:->name' \\
+    '(-s --source)'{-s,--source}'[Source branch]:branch:->branch' \\
+    '(-b --branch)'{-b,--branch}'[New branch name]:branch:->branch' \\
+    '(-p --path)'{-p,--path}'[Worktree path]:path:->path' \\
+    '--pr[Create from a pull request]:number:' \\
+    '--profile[Config profile to create with]:profile:->profile' \\
+    '*--var[Value for a branchNameTemplate variable]:NAME=value:' \\
+    '--reuse-local[Check out the existing local branch]' \\
+    '(-f --force)'{-f,--force}'[Force delete]' \\
+    '--merged[Prune worktrees whose branch is merged]' \\
+    '--gone[Prune worktrees whose upstream is gone]' \\
+    '--older-than[Prune worktrees inactive for this long]:age:' \\
+    '--dry-run[Show what would change]' \\
+    '--from[Worktree to sync from]:worktree:->worktree' \\
+    '--to[Worktree to sync into]:worktree:->worktree' \\
+    '--all[Sync into every worktree]' \\
+    '--overwrite[Replace files edited since they were copied]' \\
+    '--explain[Show the source of each config value]' \\
+    '--global[Use the global settings file]' \\
+    '--repo[Use the shared repository config file]' \\
+    '--local[Use the personal repository config file]' \\
+    '--json[Output as JSON]' \\
+    '1:command:->command' \\
+    '*::argument:->argument'
   case "$state" in
     command)
       _describe -t commands 'branchlet commands' commands
       ;;
+    name)
+      [[ $line[1] == delete ]] && _branchlet_values worktrees
+      ;;
+    branch)
+      _branchlet_values branches
+      ;;
+    path)
+      _branchlet_values worktree-paths
+      ;;
+    worktree)
+      _branchlet_values worktrees
+      ;;
+    profile)
+      _branchlet_values profiles
+      ;;
+    argument)
+      if [[ $line[1] == (cd|switch|move) ]] && (( CURRENT == 2 )); then
+        _branchlet_values worktrees
+      elif [[ $line[1] == config ]]; then
+        if (( CURRENT == 2 )); then
+          compadd list get set unset add remove validate explain
+        elif (( CURRENT == 3 )) && [[ $words[2] == (get|set|unset|add|remove) ]]; then
+          _branchlet_values config-keys
+        fi
+      elif [[ $line[1] == shell ]]; then
+        if (( CURRENT == 2 )); then
+          compadd status install uninstall print
+        elif (( CURRENT == 3 )); then
+          compadd zsh bash fish
+        fi
+      fi
+      ;;
   esac
 }
 compdef _branchlet branchlet`
 }
+
+/**
+ * Generates the fish completions file content. Fish autoloads completions
+ * separately from functions, so these live in their own file.
+ */
+export function generateFishCompletionsBlock(commandName: string): string {
+  const today = new Date().toISOString().split("T")[0]
+  const values = (context: string) => `"(command ${commandName} __complete ${context} 2>/dev/null)"`
+  const seen = (commands: string) => `-n "__fish_seen_subcommand_from ${commands}"`
+  const complete = `complete -c ${commandName}`
+  const configActions = "list get set unset add remove validate explain"
+  const shellActions = "status install uninstall print"
+
+  return `${WRAPPER_SIGNATURE} ${today} (integration v${SHELL_INTEGRATION_VERSION})
+${complete} -f
+${complete} -n __fish_use_subcommand -a create -d "Create a new worktree"
+${complete} -n __fish_use_subcommand -a list -d "List all worktrees"
+${complete} -n __fish_use_subcommand -a delete -d "Delete a worktree"
+${complete} -n __fish_use_subcommand -a move -d "Rename a worktree and optionally its branch"
+${complete} -n __fish_use_subcommand -a status -d "Summarize every worktree"
+${complete} -n __fish_use_subcommand -a prune -d "Remove merged, gone or inactive worktrees"
+${complete} -n __fish_use_subcommand -a config -d "Read, change and validate configuration"
+${complete} -n __fish_use_subcommand -a copy -d "Preview the files copied into new worktrees"
+${complete} -n __fish_use_subcommand -a sync -d "Copy files from one worktree to others again"
+${complete} -n __fish_use_subcommand -a cd -d "Change into a worktree by name or branch"
+${complete} -n __fish_use_subcommand -a switch -d "Change into a worktree by name or branch"
+${complete} -n __fish_use_subcommand -a shell -d "Install, uninstall, check or print shell integration"
+${complete} -n __fish_use_subcommand -a settings -d "Manage configuration"
+${complete} -s h -l help -d "Show help"
+${complete} -s v -l version -d "Show version"
+${complete} -s m -l mode -x -a "menu create list delete settings" -d "Set mode"
+${complete} -l from-wrapper -d "Called from shell wrapper"
+${complete} -n "not __fish_use_subcommand" -l json -d "Output as JSON"
+${complete} ${seen("create")} -s n -l name -x -d "Worktree directory name"
+${complete} ${seen("delete")} -s n -l name -x -a ${values("worktrees")} -d "Worktree directory name"
+${complete} ${seen("create")} -s s -l source -x -a ${values("branches")} -d "Source branch"
+${complete} ${seen("create move")} -s b -l branch -x -a ${values("branches")} -d "New branch name"
+${complete} ${seen("create")} -l pr -x -d "Create from a pull request"
+${complete} ${seen("create")} -l profile -x -a ${values("profiles")} -d "Config profile to create with"
+${complete} ${seen("create")} -l var -x -d "Value for a branchNameTemplate variable"
+${complete} ${seen("create")} -l reuse-local -d "Check out the existing local branch"
+${complete} ${seen("delete")} -s p -l path -x -a ${values("worktree-paths")} -d "Worktree path"
+${complete} ${seen("delete prune")} -s f -l force -d "Force delete"
+${complete} ${seen("prune")} -l merged -d "Prune worktrees whose branch is merged"
+${complete} ${seen("prune")} -l gone -d "Prune worktrees whose upstream is gone"
+${complete} ${seen("prune")} -l older-than -x -d "Prune worktrees inactive for this long"
+${complete} ${seen("prune copy sync")} -l dry-run -d "Show what would change"
+${complete} ${seen("sync")} -l from -x -a ${values("worktrees")} -d "Worktree to sync from"
+${complete} ${seen("sync")} -l to -x -a ${values("worktrees")} -d "Worktree to sync into"
+${complete} ${seen("sync")} -l all -d "Sync into every worktree"
+${complete} ${seen("sync")} -l overwrite -d "Replace files edited since they were copied"
+${complete} ${seen("cd switch")} -a ${values("worktrees")}
+${complete} -n "__fish_seen_subcommand_from move; and test (count (commandline -opc)) -eq 2" -a ${values("worktrees")}
+${complete} ${seen("config")} -l explain -d "Show the source of each config value"
+${complete} ${seen("config")} -l global -d "Use the global settings file"
+${complete} ${seen("config")} -l repo -d "Use the shared repository config file"
+${complete} ${seen("config")} -l local -d "Use the personal repository config file"
+${complete} -n "__fish_seen_subcommand_from config; and not __fish_seen_subcommand_from ${configActions}" -a "${configActions}"
+${complete} -n "__fish_seen_subcommand_from config; and __fish_seen_subcommand_from get set unset add remove" -a ${values("config-keys")}
+${complete} -n "__fish_seen_subcommand_from shell; and not __fish_seen_subcommand_from ${shellActions}" -a "${shellActions}"
+${complete} -n "__fish_seen_subcommand_from shell; and test (count (commandline -opc)) -eq 3" -a "zsh bash fish"
+${SETUP_END_MARKER}`
+}
@@ -1,10 +1,44 @@
-import { rmdir } from "node:fs/promises"
-import type { TemplateVariables, WorktreeCreateOptions } from "../types/index.js"
-import { GitWorktreeError, ValidationError } from "../utils/error-handlers.js"
+import { existsSync } from "node:fs"
+import { mkdir, readFile, rmdir, writeFile } from "node:fs/promises"
+import { basename, dirname, join } from "node:path"
+import { POST_CREATE_LOG_FILE_NAME, SYNC_MANIFEST_FILE_NAME } from "../constants/index.js"
+import type { PostCreateCommand, WorktreeConfig } from "../schemas/config-schema.js"
+import type {
+  CopyPreview,
+  PostCreateCommandOptions,
+  TemplateVariables,
+  WorktreeCreateOptions,
+  WorktreeCreateResult,
+  WorktreeDeleteHooks,
+  WorktreeDeleteResult,
+  WorktreeMoveOptions,
+  WorktreeMoveResult,
+  WorktreeSyncResult,
+} from "../types/index.js"
+import { validateBranchNameConvention } from "../utils/branch-name.js"
+import {
+  GitWorktreeError,
+  PreDeleteCommandError,
+  ValidationError,
+} from "../utils/error-handlers.js"
 import { executeGitCommand } from "../utils/git-commands.js"
-import { getRepositoryBaseName, getRepositoryRoot, getWorktreePath } from "../utils/path-utils.js"
+import {
+  getRepositoryBaseName,
+  getRepositoryRoot,
+  getWorktreePath,
+  validateDirectoryName,
+} from "../utils/path-utils.js"
 import { ConfigService } from "./config-service.js"
-import { copyFiles, executePostCreateCommands, openTerminal } from "./file-service.js"
+import {
+  type CopiedFileHashes,
+  copyFiles,
+  executePostCreateCommands,
+  getPostCreateCommandText,
+  hashCopiedFiles,
+  openTerminal,
+  previewCopyFiles,
+  syncFiles,
+} from "./file-service.js"
 import { GitService } from "./git-service.js"
 
 export class WorktreeService {
@@ -15,7 +49,7 @@ export class WorktreeService {
   constructor(gitRoot?: string | undefined) {
     this.gitRoot = gitRoot
     this.gitService = new GitService(gitRoot)
-    this.configService = new ConfigService()
+    this.configService = new ConfigService(gitRoot)
   }
 
   async initialize(): Promise<void> {
@@ -27,8 +61,15 @@ export class WorktreeService {
     await this.configService.loadConfig(this.gitRoot)
   }
 
-  async createWorktree(options: WorktreeCreateOptions): Promise<void> {
-    const config = this.configService.getConfig()
+  async createWorktree(
+    options: WorktreeCreateOptions,
+    hooks: Pick<PostCreateCommandOptions, "onOutput"> & {
+      onProgress?: (command: string, index: number, total: number) => void
+    } = {}
+  ): Promise<WorktreeCreateResult> {
+    const config = options.profile
+      ? this.configService.getProfileConfig(options.profile)
+      : this.configService.getConfig()
     // Use the initialized git root so file copying preserves repo-relative paths
     const gitRoot = this.gitRoot || getRepositoryRoot()
 
@@ -58,36 +99,63 @@ export class WorktreeService {
     })
 
     if (config.worktreeCopyPatterns.length > 0) {
-      await copyFiles(gitRoot, worktreePath, config)
+      await this.copyFilesToWorktree(worktreePath, gitRoot, config)
+    }
+
+    const result: WorktreeCreateResult = { worktreePath }
+    const variables: TemplateVariables = {
+      BASE_PATH: getRepositoryBaseName(gitRoot),
+      WORKTREE_PATH: worktreePath,
+      BRANCH_NAME: options.newBranch,
+      SOURCE_BRANCH: options.sourceBranch,
+      REPO_ROOT: gitRoot,
     }
 
     if (config.postCreateCmd.length > 0) {
-      const variables: TemplateVariables = {
-        BASE_PATH: getRepositoryBaseName(gitRoot),
-        WORKTREE_PATH: worktreePath,
-        BRANCH_NAME: options.newBranch,
-        SOURCE_BRANCH: options.sourceBranch,
+      const logPath = await this.getPostCreateLogPath(worktreePath)
+      result.postCreateResults = await executePostCreateCommands(
+        config.postCreateCmd,
+        variables,
+        hooks.onProgress,
+        {
+          ...(hooks.onOutput && { onOutput: hooks.onOutput }),
+          ...(logPath && { logPath }),
+          continueOnError: config.postCreateContinueOnError,
+          timeoutSeconds: config.postCreateTimeoutSeconds,
+        }
+      )
+      if (logPath) {
+        result.postCreateLogPath = logPath
       }
-
-      await executePostCreateCommands(config.postCreateCmd, variables)
     }
 
     if (config.terminalCommand) {
-      await openTerminal(config.terminalCommand, worktreePath)
+      await openTerminal(config.terminalCommand, worktreePath, variables)
     }
+
+    return result
+  }
+
+  /** Where post-create output for a worktree is logged; kept out of the working tree */
+  async getPostCreateLogPath(worktreePath: string): Promise<string | null> {
+    const gitDir = await this.gitService.getWorktreeGitDir(worktreePath)
+    return gitDir ? join(gitDir, POST_CREATE_LOG_FILE_NAME) : null
   }
 
   async deleteWorktree(
     worktreePath: string,
-    force = false
-  ): Promise<{ worktreeDeleted: boolean; branchDeleted: boolean; branchName?: string }> {
+    force = false,
+    hooks: WorktreeDeleteHooks = {}
+  ): Promise<WorktreeDeleteResult> {
     const config = this.configService.getConfig()
+    const gitRoot = this.gitRoot || getRepositoryRoot()
+    const runsHooks = config.preDeleteCmd.length > 0 || config.postDeleteCmd.length > 0
 
     let branchName: string | undefined
     let branchDeleted = false
 
-    if (config.deleteBranchWithWorktree) {
-      const worktrees = await this.gitService.listWorktrees()
+    if (config.deleteBranchWithWorktree || runsHooks) {
+      const worktrees = await this.gitService.listWorktrees({ fast: true })
       const targetWorktree = worktrees.find((wt) => wt.path === worktreePath)
       branchName = targetWorktree?.branch
     }
@@ -99,6 +167,38 @@ export class WorktreeService {
       }
     }
 
+    // The source branch isn't recorded for existing worktrees, so it resolves empty
+    const variables: TemplateVariables = {
+      BASE_PATH: getRepositoryBaseName(gitRoot),
+      WORKTREE_PATH: worktreePath,
+      BRANCH_NAME: branchName ?? "",
+      SOURCE_BRANCH: "",
+      REPO_ROOT: gitRoot,
+    }
+    const callbacks: PostCreateCommandOptions = {
+      ...(hooks.onOutput && { onOutput: hooks.onOutput }),
+      ...(hooks.onStatusChange && { onStatusChange: hooks.onStatusChange }),
+    }
+
+    if (config.preDeleteCmd.length > 0) {
+      hooks.onHookStart?.("preDeleteCmd", config.preDeleteCmd.map(getPostCreateCommandText))
+      const results = await executePostCreateCommands(config.preDeleteCmd, variables, undefined, {
+        ...callbacks,
+        continueOnError: false,
+      })
+      // A command marked continueOnError may fail without blocking the delete
+      const blocking = results.filter(
+        (result, index) =>
+          !result.success && !result.skipped && !allowsFailure(config.preDeleteCmd[index])
+      )
+      if (blocking.length > 0) {
+        throw new PreDeleteCommandError(
+          `'${blocking[0]?.command}' failed${blocking[0]?.error ? `: ${blocking[0].error.trim()}` : ""}. The worktree was not deleted.`,
+          blocking.map((result) => result.command)
+        )
+      }
+    }
+
     try {
       await this.gitService.deleteWorktree({ path: worktreePath, force })
     } catch (error) {
@@ -119,11 +219,150 @@ export class WorktreeService {
       }
     }
 
-    return {
+    const result: WorktreeDeleteResult = {
       worktreeDeleted: true,
       branchDeleted,
-      ...(branchName && { branchName }),
+      ...(branchName && config.deleteBranchWithWorktree && { branchName }),
     }
+
+    if (config.postDeleteCmd.length > 0) {
+      hooks.onHookStart?.("postDeleteCmd", config.postDeleteCmd.map(getPostCreateCommandText))
+      // The worktree directory is gone, so post-delete commands run from the repository root
+      result.postDeleteResults = await executePostCreateCommands(
+        config.postDeleteCmd,
+        variables,
+        undefined,
+        { ...callbacks, cwd: gitRoot }
+      )
+    }
+
+    return result
+  }
+
+  /**
+   * Rename a worktree's directory and optionally its branch. The new location is
+   * resolved through worktreePathTemplate as for a new worktree, so a template using
+   * $BRANCH_NAME follows the renamed branch.
+   */
+  async moveWorktree(
+    worktreePath: string,
+    options: WorktreeMoveOptions
+  ): Promise<WorktreeMoveResult> {
+    const config = this.configService.getConfig()
+    const gitRoot = this.gitRoot || getRepositoryRoot()
+
+    const worktrees = await this.gitService.listWorktrees({ fast: true })
+    const worktree = worktrees.find((wt) => wt.path === worktreePath)
+    if (!worktree) {
+      throw new ValidationError(`No worktree found at '${worktreePath}'`, "path")
+    }
+    if (worktree.isMain) {
+      throw new ValidationError("The main worktree cannot be moved", "path")
+    }
+
+    const name = options.name ?? basename(worktreePath)
+    const nameError = validateDirectoryName(name)
+    if (nameError) {
+      throw new ValidationError(nameError, "name")
+    }
+
+    const oldBranch = worktree.branch
+    const newBranch = options.newBranch !== oldBranch ? options.newBranch : undefined
+    if (newBranch !== undefined) {
+      if (oldBranch === "detached") {
+        throw new ValidationError(
+          "The worktree has a detached HEAD; there is no branch to rename",
+          "branch"
+        )
+      }
+      const branchError = validateBranchNameConvention(newBranch, config.branchNamePattern)
+      if (branchError) {
+        throw new ValidationError(branchError, "branch")
+      }
+      if (await this.gitService.branchExists(newBranch)) {
+        throw new ValidationError(`Branch '${newBranch}' already exists`, "branch")
+      }
+    }
+
+    // The source branch isn't recorded for existing worktrees, so it resolves empty
+    const branch = newBranch ?? (oldBranch === "detached" ? "" : oldBranch)
+    const newPath = getWorktreePath(gitRoot, name, config.worktreePathTemplate, branch)
+    const moves = newPath !== worktreePath
+    if (!moves && newBranch === undefined) {
+      throw new ValidationError(`Worktree is already at '${worktreePath}'`, "name")
+    }
+    if (moves && existsSync(newPath)) {
+      throw new ValidationError(`'${newPath}' already exists`, "name")
+    }
+
+    if (newBranch !== undefined) {
+      await this.gitService.renameBranch(oldBranch, newBranch)
+    }
+
+    if (moves) {
+      try {
+        await mkdir(dirname(newPath), { recursive: true })
+        await this.gitService.moveWorktree(worktreePath, newPath)
+      } catch (error) {
+        // Undo the rename so a failed move leaves everything as it was
+        if (newBranch !== undefined) {
+          await this.gitService.renameBranch(newBranch, oldBranch).catch(() => undefined)
+        }
+        throw error
+      }
+    }
+
+    return {
+      oldPath: worktreePath,
+      newPath,
+      ...(newBranch !== undefined && { oldBranch, newBranch }),
+    }
+  }
+
+  /** Copy worktreeCopyPatterns into a new worktree and record what was copied for sync */
+  async copyFilesToWorktree(
+    worktreePath: string,
+    sourceDir: string = this.gitRoot || getRepositoryRoot(),
+    config: WorktreeConfig = this.configService.getConfig()
+  ): Promise<void> {
+    const result = await copyFiles(sourceDir, worktreePath, config)
+    await this.saveCopiedFileHashes(
+      worktreePath,
+      await hashCopiedFiles(worktreePath, result.copied)
+    )
+  }
+
+  /**
+   * Copy files matched by worktreeCopyPatterns from one worktree to another again.
+   * Files edited in the target since they were copied are skipped unless `overwrite`.
+   */
+  async syncWorktree(
+    sourcePath: string,
+    targetPath: string,
+    options: { overwrite?: boolean; dryRun?: boolean } = {}
+  ): Promise<WorktreeSyncResult> {
+    const recorded = await this.loadCopiedFileHashes(targetPath)
+    const result = await syncFiles(sourcePath, targetPath, this.configService.getConfig(), {
+      ...options,
+      recorded,
+    })
+
+    if (!options.dryRun) {
+      await this.saveCopiedFileHashes(targetPath, result.recorded)
+    }
+
+    return {
+      source: sourcePath,
+      target: targetPath,
+      changes: result.changes,
+      unchanged: result.unchanged,
+      errors: result.errors,
+    }
+  }
+
+  /** Files a worktree created now would receive from worktreeCopyPatterns */
+  async previewCopy(): Promise<CopyPreview> {
+    return previewCopyFiles(this.gitRoot || getRepositoryRoot(), this.configService.getConfig())
   }
 
   getGitService(): GitService {
@@ -134,6 +373,34 @@ export class WorktreeService {
     return this.configService
   }
 
+  private async getCopiedFilesManifestPath(worktreePath: string): Promise<string | null> {
+    const gitDir = await this.gitService.getWorktreeGitDir(worktreePath)
+    return gitDir ? join(gitDir, SYNC_MANIFEST_FILE_NAME) : null
+  }
+
+  private async loadCopiedFileHashes(worktreePath: string): Promise<CopiedFileHashes> {
+    const manifestPath = await this.getCopiedFilesManifestPath(worktreePath)
+    try {
+      return manifestPath ? JSON.parse(await readFile(manifestPath, "utf-8")) : {}
+    } catch {
+      // Without a record every differing file counts as edited locally
+      return {}
+    }
+  }
+
+  private async saveCopiedFileHashes(
+    worktreePath: string,
+    hashes: CopiedFileHashes
+  ): Promise<void> {
+    const manifestPath = await this.getCopiedFilesManifestPath(worktreePath)
+    if (!manifestPath) return
+    try {
+      await writeFile(manifestPath, `${JSON.stringify(hashes, null, 2)}\n`)
+    } catch {
+      // Not fatal: sync then treats the files as edited locally and leaves them alone
+    }
+  }
+
   private async manualWorktreeCleanup(worktreePath: string): Promise<void> {
     try {
       await rmdir(worktreePath, { recursive: true })
@@ -146,3 +413,7 @@ export class WorktreeService {
     }
   }
 }
+
+function allowsFailure(command: PostCreateCommand | undefined): boolean {
+  return typeof command === "object" && command.continueOnError === true
+}
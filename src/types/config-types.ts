@@ -1,9 +1,115 @@
-import type { WorktreeConfig } from "../schemas/config-schema.js"
+import type { CopyStrategy, WorktreeConfig } from "../schemas/config-schema.js"
+import type { CommandRunStatus } from "./ui-types.js"
 
-export interface ConfigFile {
-  config: WorktreeConfig
+/** Config sources, in ascending precedence */
+export type ConfigLayerName = "default" | "global" | "repo" | "local" | "env"
+
+export interface ConfigLayer {
+  name: ConfigLayerName
+  /** Config file for file-backed layers */
+  path?: string
+  found: boolean
+  /** Keys set by this layer as written; arrays may still contain the inherit marker */
+  values: Partial<WorktreeConfig>
+}
+
+/**
+ * Scope flag for `branchlet config`: the global settings file, the repo's shared
+ * .branchlet.json or its personal .branchlet.local.json, named as in the config layers
+ */
+export type ConfigScope = "global" | "repo" | "local"
+
+/** Config file content as written, before defaults are applied */
+export type ConfigFileContent = Partial<WorktreeConfig> & { $schema?: string }
+
+export interface ConfigLayerValidation {
+  name: ConfigLayerName
+  path?: string
+  found: boolean
+  error?: string
+}
+
+export interface ConfigValueOrigin {
+  key: keyof WorktreeConfig
+  value: unknown
+  /** Layers that contributed to the value; more than one when arrays inherit */
+  sources: ConfigLayerName[]
+}
+
+export interface ConfigExplanation {
+  layers: ConfigLayer[]
+  values: ConfigValueOrigin[]
+}
+
+export interface PostCreateCommandOptions {
+  /** Receives stdout/stderr chunks while each command runs; index is the command's position */
+  onOutput?: (chunk: string, command: string, index: number) => void
+  /** Called whenever a command changes state; commands may run concurrently */
+  onStatusChange?: (index: number, status: CommandRunStatus) => void
+  /** File that receives a transcript of every command's output */
+  logPath?: string
+  /** Directory commands run in and relative cwd values resolve against; defaults to WORKTREE_PATH */
+  cwd?: string
+  /** Default for commands that don't set continueOnError */
+  continueOnError?: boolean
+  /** Default for commands that don't set timeoutSeconds; 0 disables the timeout */
+  timeoutSeconds?: number
+}
+
+export interface PostCreateCommandResult {
+  command: string
+  success: boolean
+  output: string
+  error?: string
+  /** Not run because an earlier command failed without continueOnError */
+  skipped?: boolean
+  timedOut?: boolean
+}
+
+export interface CopyPreviewFile {
+  /** Path relative to the repository root */
   path: string
-  isGlobal: boolean
+  /** worktreeCopyPatterns entry that matched the file or a directory containing it */
+  pattern: string
+  strategy: CopyStrategy
+  size: number
+}
+
+export interface CopyPreviewExclusion {
+  path: string
+  pattern: string
+  /** worktreeCopyIgnores entry that removed the path */
+  ignore: string
+}
+
+/** Files a new worktree would receive, as reported by `branchlet copy --dry-run` */
+export interface CopyPreview {
+  files: CopyPreviewFile[]
+  excluded: CopyPreviewExclusion[]
+  totalSize: number
+}
+
+/**
+ * What sync did with a file: `skipped` files were edited in the target since
+ * branchlet last copied them, and `overwritten` ones were replaced anyway
+ */
+export type SyncFileStatus = "added" | "updated" | "overwritten" | "skipped"
+
+export interface SyncFileChange {
+  path: string
+  status: SyncFileStatus
+  /** Line counts between the target's copy and the source; absent for new and binary files */
+  linesAdded?: number
+  linesRemoved?: number
+}
+
+export interface WorktreeSyncResult {
+  source: string
+  target: string
+  changes: SyncFileChange[]
+  /** Files that already match the source */
+  unchanged: number
+  errors: string[]
 }
 
 export interface TemplateVariables {
@@ -11,4 +117,5 @@ export interface TemplateVariables {
   WORKTREE_PATH: string
   BRANCH_NAME: string
   SOURCE_BRANCH: string
+  REPO_ROOT: string
 }
@@ -1,10 +1,27 @@
+import type { PostCreateCommandOptions, PostCreateCommandResult } from "./config-types.js"
+
 export interface GitWorktree {
   path: string
   branch: string
   commit: string
   isMain: boolean
-  isClean: boolean
+  /** Undefined when the worktree was listed in fast mode */
+  isClean?: boolean
   branchStatus?: BranchStatus
+  changes?: WorktreeChanges
+  stashCount?: number
+  lastCommitDate?: Date
+}
+
+export interface ListWorktreesOptions {
+  /** Only parse paths, branches and commits; skip dirty checks and ahead/behind counts */
+  fast?: boolean
+}
+
+export interface WorktreeChanges {
+  staged: number
+  unstaged: number
+  untracked: number
 }
 
 export interface BranchStatus {
@@ -20,6 +37,8 @@ export interface GitBranch {
   isCurrent: boolean
   isDefault: boolean
   isRemote: boolean
+  /** For remote branches, the branch name without the remote prefix (origin/foo -> foo) */
+  localName?: string
 }
 
 export interface GitRepository {
@@ -43,9 +62,51 @@ export interface WorktreeCreateOptions {
   sourceBranch: string
   newBranch: string
   basePath: string
+  /** Set upstream tracking when creating newBranch from a remote-tracking branch */
+  track?: boolean
+  /** Config profile whose overrides apply to copying, the path template and post-create commands */
+  profile?: string
+}
+
+export interface WorktreeCreateResult {
+  worktreePath: string
+  /** Transcript of post-create command output, set when commands ran */
+  postCreateLogPath?: string
+  postCreateResults?: PostCreateCommandResult[]
 }
 
 export interface WorktreeDeleteOptions {
   path: string
   force: boolean
 }
+
+export interface WorktreeMoveOptions {
+  /** New directory name; defaults to the current one */
+  name?: string
+  /** Rename the worktree's branch to this with `git branch -m` */
+  newBranch?: string
+}
+
+export interface WorktreeMoveResult {
+  oldPath: string
+  newPath: string
+  /** Set when the branch was renamed */
+  oldBranch?: string
+  newBranch?: string
+}
+
+export type WorktreeDeleteHook = "preDeleteCmd" | "postDeleteCmd"
+
+export interface WorktreeDeleteHooks
+  extends Pick<PostCreateCommandOptions, "onOutput" | "onStatusChange"> {
+  /** Called before a hook's commands start; status and output callbacks then refer to them */
+  onHookStart?: (hook: WorktreeDeleteHook, commands: string[]) => void
+}
+
+export interface WorktreeDeleteResult {
+  worktreeDeleted: boolean
+  branchDeleted: boolean
+  branchName?: string
+  /** Set when postDeleteCmd ran */
+  postDeleteResults?: PostCreateCommandResult[]
+}
@@ -1,4 +1,9 @@
 import type React from "react"
+import type { PostCreateCommandResult } from "./config-types.js"
+import type { WorktreeDeleteHook, WorktreeDeleteResult } from "./git-types.js"
+
+/** Progress state of one entry in a CommandListProgress */
+export type CommandRunStatus = "pending" | "running" | "done" | "failed" | "skipped"
 
 export type AppMode = "menu" | "create" | "list" | "delete" | "settings" | "setup"
 
@@ -29,6 +34,20 @@ export interface SelectPromptProps<T = string> {
   searchable?: boolean
 }
 
+export interface MultiSelectShortcut<T = string> {
+  key: string
+  label: string
+  values: T[]
+}
+
+export interface MultiSelectPromptProps<T = string> {
+  label: string
+  options: SelectOption<T>[]
+  onSubmit: (values: T[]) => void
+  onCancel?: () => void
+  shortcuts?: MultiSelectShortcut<T>[]
+}
+
 export interface ConfirmDialogProps {
   title: string
   message: React.ReactNode
@@ -47,9 +66,12 @@ export interface StatusIndicatorProps {
 
 export interface CreateWorktreeState {
   step:
+    | "profile"
     | "directory"
     | "source-branch"
     | "custom-ref"
+    | "pull-request"
+    | "branch-variables"
     | "new-branch"
     | "confirm"
     | "creating"
@@ -58,21 +80,58 @@ export interface CreateWorktreeState {
   directoryName: string
   sourceBranch: string
   newBranch: string
+  /** Config profile whose overrides apply to this worktree */
+  profile?: string
+  /** Values entered for branchNameTemplate variables */
+  branchVariables?: Record<string, string>
+  pullRequest?: number
+  /** Remote-tracking source the new branch will track (e.g. origin/feature-x) */
+  remoteBranch?: string
+  /** Check out the existing local counterpart of remoteBranch instead of creating one */
+  reuseLocalBranch?: boolean
   error?: string
   currentCommand?: string
   commandProgress?: { current: number; total: number }
   postCreateCommands?: string[]
-  currentCommandIndex?: number
+  /** State of each post-create command; independent commands run concurrently */
+  postCreateStatuses?: CommandRunStatus[]
+  /** Rolling tail of each running post-create command's output, by command index */
+  commandOutput?: Record<number, string[]>
+  postCreateLogPath?: string
+  /** Post-create commands that failed, timed out or were skipped */
+  postCreateFailures?: PostCreateCommandResult[]
 }
 
 export interface DeleteWorktreeState {
-  step: "select" | "confirm" | "deleting" | "success"
+  step:
+    | "select"
+    | "multi-select"
+    | "confirm"
+    | "bulk-confirm"
+    | "deleting"
+    | "bulk-deleting"
+    | "success"
+    | "bulk-result"
   selectedWorktree?: string
+  selectedWorktrees?: string[]
   force: boolean
   error?: string
-  deleteResult?: {
-    worktreeDeleted: boolean
-    branchDeleted: boolean
-    branchName?: string
-  }
+  deleteResult?: WorktreeDeleteResult
+  /** Hook whose commands are running during the deleting step */
+  deleteHook?: WorktreeDeleteHook
+  hookCommands?: string[]
+  hookStatuses?: CommandRunStatus[]
+  /** Rolling tail of each running hook command's output, by command index */
+  hookOutput?: Record<number, string[]>
+  bulkCurrentIndex?: number
+  bulkResults?: BulkDeleteResult[]
+}
+
+export interface BulkDeleteResult {
+  path: string
+  success: boolean
+  branchDeleted?: boolean
+  branchName?: string
+  error?: string
+  postDeleteFailures?: PostCreateCommandResult[]
 }
@@ -0,0 +1,81 @@
+import { validateBranchName } from "./path-utils.js"
+import { getTemplateVariableNames, getUserName, renderTemplate, slugify } from "./template.js"
+
+/** branchNameTemplate variables filled in from the worktree being created, or built in */
+export const DERIVED_BRANCH_VARIABLES = [
+  "NAME",
+  "SLUG",
+  "USER",
+  "SOURCE_BRANCH",
+  "BASE_PATH",
+  "DATE",
+]
+
+/** Variables of a branch name template the user has to supply */
+export function getPromptedBranchVariables(template: string): string[] {
+  return getTemplateVariableNames(template).filter(
+    (name) => /^[A-Z][A-Z0-9_]*$/.test(name) && !DERIVED_BRANCH_VARIABLES.includes(name)
+  )
+}
+
+export function getDerivedBranchVariables(context: {
+  name: string
+  sourceBranch: string
+  baseName: string
+}): Record<string, string> {
+  return {
+    NAME: context.name,
+    SLUG: slugify(context.name),
+    USER: getUserName(),
+    SOURCE_BRANCH: context.sourceBranch,
+    BASE_PATH: context.baseName,
+  }
+}
+
+/**
+ * Render a branch name template. Uses the same syntax as the other templates, so
+ * `${TYPE|lower}` works; variables without a value are left in place.
+ */
+export function renderBranchName(template: string, variables: Record<string, string>): string {
+  return renderTemplate(template, variables)
+}
+
+/**
+ * Check a new branch name against git's rules and the configured
+ * branchNamePattern, if any.
+ */
+export function validateBranchNameConvention(name: string, pattern: string): string | undefined {
+  const formatError = validateBranchName(name)
+  if (formatError) {
+    return formatError
+  }
+
+  if (pattern && !new RegExp(pattern).test(name)) {
+    return `Branch name must match ${pattern}`
+  }
+
+  return undefined
+}
+
+/**
+ * Parse `KEY=VALUE` assignments given with `--var`. Returns the assignments that
+ * don't have that shape separately so the caller can report them.
+ */
+export function parseVariableAssignments(assignments: string[]): {
+  variables: Record<string, string>
+  invalid: string[]
+} {
+  const variables: Record<string, string> = {}
+  const invalid: string[] = []
+
+  for (const assignment of assignments) {
+    const match = assignment.match(/^([A-Z][A-Z0-9_]*)=(.*)$/s)
+    if (match?.[1] === undefined) {
+      invalid.push(assignment)
+      continue
+    }
+    variables[match[1]] = match[2] ?? ""
+  }
+
+  return { variables, invalid }
+}
@@ -0,0 +1,72 @@
+import { minimatch } from "minimatch"
+
+export interface CopyManifestRule {
+  /** The line as written, used when reporting which rule matched */
+  source: string
+  /** `!` lines exclude what earlier lines included */
+  negate: boolean
+  /** A trailing `/` only matches directories */
+  directoryOnly: boolean
+  /** Glob for paths relative to the repository root */
+  glob: string
+}
+
+/**
+ * Parse a .branchletcopy file. The syntax follows .gitignore: `#` comments,
+ * `!` negation, a leading or inner `/` anchors a pattern to the repository
+ * root, and a trailing `/` matches directories only.
+ */
+export function parseCopyManifest(content: string): CopyManifestRule[] {
+  const rules: CopyManifestRule[] = []
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are dropped unless escaped with a backslash
+    const line = rawLine.replace(/(?<!\\)\s+$/, "")
+    if (!line || line.startsWith("#")) continue
+
+    const negate = line.startsWith("!")
+    let body = negate ? line.slice(1) : line
+    if (body.startsWith("\\#") || body.startsWith("\\!")) body = body.slice(1)
+
+    const directoryOnly = body.endsWith("/")
+    if (directoryOnly) body = body.slice(0, -1)
+    if (!body) continue
+
+    const anchored = body.includes("/")
+    const glob = anchored ? body.replace(/^\//, "") : `**/${body}`
+    rules.push({ source: line, negate, directoryOnly, glob })
+  }
+
+  return rules
+}
+
+/**
+ * The rule that decides whether a path is selected, or undefined when no rule
+ * applies. As in git, a path inside an excluded directory can't be re-included,
+ * and a path inside an included directory is included unless a rule excludes it.
+ */
+export function evaluateCopyManifest(
+  rules: CopyManifestRule[],
+  path: string,
+  isDirectory: boolean
+): CopyManifestRule | undefined {
+  const segments = path.split("/")
+  let decision: CopyManifestRule | undefined
+
+  for (let depth = 1; depth <= segments.length; depth++) {
+    const prefix = segments.slice(0, depth).join("/")
+    const prefixIsDirectory = depth < segments.length || isDirectory
+    // The last matching line wins
+    const match = [...rules]
+      .reverse()
+      .find(
+        (rule) =>
+          (!rule.directoryOnly || prefixIsDirectory) && minimatch(prefix, rule.glob, { dot: true })
+      )
+
+    if (match?.negate) return match
+    if (match) decision = match
+  }
+
+  return decision
+}
@@ -0,0 +1,26 @@
+const UNIT_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  mo: 30 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Parses a duration such as "12h", "30d", "2w", "6mo" or "1y" into milliseconds.
+ * Returns null when the input is not a positive number followed by a known unit.
+ */
+export function parseDuration(input: string): number | null {
+  const match = input.trim().match(/^(\d+)(h|d|w|mo|y)$/)
+  if (!match?.[1] || !match[2]) {
+    return null
+  }
+
+  const amount = Number.parseInt(match[1], 10)
+  const unit = UNIT_MS[match[2]]
+  if (!unit || amount <= 0) {
+    return null
+  }
+
+  return amount * unit
+}
@@ -29,11 +29,48 @@ export class ConfigError extends Error {
   }
 }
 
+/** The worktree was created but some of its post-create commands did not succeed */
+export class PostCreateCommandError extends Error {
+  constructor(
+    message: string,
+    public readonly failedCommands: string[] = []
+  ) {
+    super(message)
+    this.name = "PostCreateCommandError"
+  }
+}
+
+/** A pre-delete command failed, so the worktree was left in place */
+export class PreDeleteCommandError extends Error {
+  constructor(
+    message: string,
+    public readonly failedCommands: string[] = []
+  ) {
+    super(message)
+    this.name = "PreDeleteCommandError"
+  }
+}
+
+/** The worktree was deleted but some of its post-delete commands did not succeed */
+export class PostDeleteCommandError extends Error {
+  constructor(
+    message: string,
+    public readonly failedCommands: string[] = []
+  ) {
+    super(message)
+    this.name = "PostDeleteCommandError"
+  }
+}
+
 export function handleGitError(stderr: string, operation: string): GitWorktreeError {
   if (stderr.includes("already exists")) {
     return new GitWorktreeError("Worktree or branch already exists", "ALREADY_EXISTS", stderr)
   }
 
+  if (stderr.includes("couldn't find remote ref")) {
+    return new GitWorktreeError("Ref not found on remote", "REMOTE_REF_NOT_FOUND", stderr)
+  }
+
   if (stderr.includes("not a valid object name")) {
     return new GitWorktreeError("Invalid branch or commit reference", "INVALID_REF", stderr)
   }
@@ -88,8 +125,12 @@ export function getUserFriendlyErrorMessage(error: Error): string {
         return "A worktree or branch with this name already exists."
       case "INVALID_REF":
         return "Invalid branch name or commit reference."
+      case "REMOTE_REF_NOT_FOUND":
+        return "The requested ref does not exist on the remote."
       case "BRANCH_CHECKED_OUT":
         return "This branch is already checked out in another worktree."
+      case "BRANCH_DIVERGED":
+        return "This branch has local commits that the update would discard."
       case "PATH_NOT_FOUND":
         return "The specified path does not exist."
       case "NOT_GIT_REPO":
@@ -111,5 +152,90 @@ export function getUserFriendlyErrorMessage(error: Error): string {
     return `Configuration error: ${error.message}`
   }
 
+  if (error instanceof PostCreateCommandError) {
+    return `Post-create commands failed: ${error.message}`
+  }
+
+  if (error instanceof PreDeleteCommandError) {
+    return `Delete aborted by pre-delete command: ${error.message}`
+  }
+
+  if (error instanceof PostDeleteCommandError) {
+    return `Post-delete commands failed: ${error.message}`
+  }
+
   return `Unexpected error: ${error.message}`
 }
+
+/**
+ * Process exit codes for the non-interactive CLI. Git failures get one code per
+ * GitWorktreeError code so scripts can react without parsing messages.
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  UNEXPECTED_ERROR: 1,
+  VALIDATION_ERROR: 2,
+  CONFIG_ERROR: 3,
+  POST_CREATE_FAILED: 4,
+  PRE_DELETE_FAILED: 5,
+  POST_DELETE_FAILED: 6,
+  GIT_OPERATION_FAILED: 10,
+  ALREADY_EXISTS: 11,
+  INVALID_REF: 12,
+  REMOTE_REF_NOT_FOUND: 13,
+  BRANCH_CHECKED_OUT: 14,
+  PATH_NOT_FOUND: 15,
+  NOT_GIT_REPO: 16,
+  UNCOMMITTED_CHANGES: 17,
+  CORRUPTED_WORKTREE: 18,
+  BRANCH_DIVERGED: 19,
+} as const
+
+/** Shape of the error written by the CLI when `--json` is set */
+export interface ErrorEnvelope {
+  code: string
+  message: string
+  gitOutput: string | null
+  field: string | null
+}
+
+export function getErrorCode(error: unknown): string {
+  if (error instanceof GitWorktreeError) {
+    return error.code && error.code in EXIT_CODES ? error.code : "GIT_OPERATION_FAILED"
+  }
+
+  if (error instanceof ValidationError) {
+    return "VALIDATION_ERROR"
+  }
+
+  if (error instanceof ConfigError) {
+    return "CONFIG_ERROR"
+  }
+
+  if (error instanceof PostCreateCommandError) {
+    return "POST_CREATE_FAILED"
+  }
+
+  if (error instanceof PreDeleteCommandError) {
+    return "PRE_DELETE_FAILED"
+  }
+
+  if (error instanceof PostDeleteCommandError) {
+    return "POST_DELETE_FAILED"
+  }
+
+  return "UNEXPECTED_ERROR"
+}
+
+export function getExitCode(error: unknown): number {
+  return EXIT_CODES[getErrorCode(error) as keyof typeof EXIT_CODES]
+}
+
+export function toErrorEnvelope(error: unknown): ErrorEnvelope {
+  return {
+    code: getErrorCode(error),
+    message: error instanceof Error ? error.message : String(error),
+    gitOutput: error instanceof GitWorktreeError ? (error.gitOutput ?? null) : null,
+    field: error instanceof ValidationError ? (error.field ?? null) : null,
+  }
+}
@@ -1,26 +1,26 @@
 import { stat } from "node:fs/promises"
-import { glob } from "glob"
+import { glob, Ignore, type IgnoreLike, type Path } from "glob"
 import { minimatch } from "minimatch"
 
+function normalizePatterns(inputs: string[]): string[] {
+  const expanded = new Set<string>()
+  for (const input of inputs) {
+    if (!input) continue
+    expanded.add(input)
+    const startsWithGlobstar = input.startsWith("**/")
+    const isAbsolute = input.startsWith("/")
+    if (!startsWithGlobstar && !isAbsolute) {
+      expanded.add(`**/${input}`)
+    }
+  }
+  return Array.from(expanded)
+}
+
 export async function matchFiles(
   baseDir: string,
   patterns: string[],
   ignorePatterns: string[] = []
 ): Promise<string[]> {
-  const normalizePatterns = (inputs: string[]): string[] => {
-    const expanded = new Set<string>()
-    for (const input of inputs) {
-      if (!input) continue
-      expanded.add(input)
-      const startsWithGlobstar = input.startsWith("**/")
-      const isAbsolute = input.startsWith("/")
-      if (!startsWithGlobstar && !isAbsolute) {
-        expanded.add(`**/${input}`)
-      }
-    }
-    return Array.from(expanded)
-  }
-
   const normalizedPatterns = normalizePatterns(patterns)
   const normalizedIgnores = normalizePatterns(ignorePatterns)
 
@@ -46,8 +46,118 @@ export async function matchFiles(
   return Array.from(allMatches).sort()
 }
 
+/**
+ * Like matchFiles for a single pattern, but also reports the paths the ignore
+ * rules removed, with the first rule responsible. Only paths the pattern matched
+ * are reported; ignored directories are not walked, so nothing inside them is.
+ */
+export async function matchFilesWithExclusions(
+  baseDir: string,
+  pattern: string,
+  ignorePatterns: string[] = []
+): Promise<{ matches: string[]; excluded: { path: string; ignore: string }[] }> {
+  const rules = ignorePatterns
+    .filter(Boolean)
+    .map((ignore) => ({ ignore, matcher: new Ignore(normalizePatterns([ignore]), {}) }))
+
+  const matches = new Set<string>()
+  const excluded = new Map<string, string>()
+
+  // glob asks about each match, and about each directory before walking into it
+  const ignore: IgnoreLike = {
+    ignored: (path: Path) => {
+      const rule = rules.find(({ matcher }) => matcher.ignored(path))
+      if (!rule) return false
+      const relativePath = path.relativePosix()
+      if (relativePath && !excluded.has(relativePath)) excluded.set(relativePath, rule.ignore)
+      return true
+    },
+    childrenIgnored: (path) => rules.some(({ matcher }) => matcher.childrenIgnored(path)),
+  }
+
+  for (const normalized of normalizePatterns([pattern])) {
+    try {
+      const paths = await glob(normalized, { cwd: baseDir, dot: true, ignore, withFileTypes: true })
+      for (const path of paths) {
+        const relativePath = path.relativePosix()
+        if (relativePath) matches.add(relativePath)
+      }
+    } catch (error) {
+      console.warn(`Warning: Failed to match pattern '${normalized}': ${error}`)
+    }
+  }
+
+  return {
+    matches: Array.from(matches).sort(),
+    excluded: Array.from(excluded, ([path, ignore]) => ({ path, ignore })).sort((a, b) =>
+      a.path.localeCompare(b.path)
+    ),
+  }
+}
+
+/**
+ * Match a pattern against paths listed by git instead of walking the filesystem.
+ * An entry ending in `/` stands for a whole directory: the pattern has to match
+ * the directory itself, unless the pattern starts with that directory's path,
+ * in which case the directory is searched.
+ */
+export async function matchPathList(
+  baseDir: string,
+  paths: string[],
+  pattern: string,
+  ignorePatterns: string[] = []
+): Promise<{ matches: string[]; excluded: { path: string; ignore: string }[] }> {
+  const globs = normalizePatterns([pattern])
+  const matches = new Set<string>()
+  const excluded = new Map<string, string>()
+
+  const add = (path: string): void => {
+    if (matches.has(path) || excluded.has(path)) return
+    const ignore = ignorePatterns.find((rule) => matchesIgnorePattern(path, rule))
+    if (ignore === undefined) {
+      matches.add(path)
+    } else {
+      excluded.set(path, ignore)
+    }
+  }
+
+  for (const entry of paths) {
+    const path = entry.replace(/\/$/, "")
+    if (globs.some((glob) => minimatch(path, glob, { dot: true }))) {
+      add(path)
+    } else if (entry.endsWith("/") && pattern.startsWith(entry)) {
+      try {
+        for (const match of await glob(pattern, { cwd: baseDir, dot: true })) add(match)
+      } catch (error) {
+        console.warn(`Warning: Failed to match pattern '${pattern}': ${error}`)
+      }
+    }
+  }
+
+  return {
+    matches: Array.from(matches).sort(),
+    excluded: Array.from(excluded, ([path, ignore]) => ({ path, ignore })).sort((a, b) =>
+      a.path.localeCompare(b.path)
+    ),
+  }
+}
+
+// Same rules glob applies to its ignore option: `dir/**` also ignores `dir` itself
+function matchesIgnorePattern(path: string, ignore: string): boolean {
+  return normalizePatterns([ignore]).some(
+    (rule) =>
+      minimatch(path, rule, { dot: true }) ||
+      (rule.endsWith("/**") && minimatch(path, rule.slice(0, -3), { dot: true }))
+  )
+}
+
 export function shouldIgnoreFile(filePath: string, ignorePatterns: string[]): boolean {
-  return ignorePatterns.some((pattern) => minimatch(filePath, pattern, { dot: true }))
+  return findIgnoreRule(filePath, ignorePatterns) !== undefined
+}
+
+/** First ignore pattern that matches a relative path */
+export function findIgnoreRule(filePath: string, ignorePatterns: string[]): string | undefined {
+  return ignorePatterns.find((pattern) => minimatch(filePath, pattern, { dot: true }))
 }
 
 export async function isDirectory(path: string): Promise<boolean> {
@@ -0,0 +1,14 @@
+const UNITS = ["B", "KB", "MB", "GB", "TB"]
+
+/** Human-readable size in 1024-based units, e.g. 512 B, 1.5 KB, 12 MB */
+export function formatSize(bytes: number): string {
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024
+    unit++
+  }
+
+  const rounded = unit === 0 || value >= 10 ? Math.round(value) : Math.round(value * 10) / 10
+  return `${rounded} ${UNITS[unit]}`
+}
@@ -0,0 +1,21 @@
+/**
+ * Rank how closely `query` matches `text`, ignoring case: 0 exact, 1 prefix,
+ * 2 substring, 3 characters in order (`fx` matches `feature-x`). Lower is better;
+ * null when there is no match.
+ */
+export function fuzzyMatchRank(query: string, text: string): number | null {
+  const needle = query.toLowerCase()
+  const haystack = text.toLowerCase()
+
+  if (haystack === needle) return 0
+  if (haystack.startsWith(needle)) return 1
+  if (haystack.includes(needle)) return 2
+
+  let position = 0
+  for (const char of needle) {
+    position = haystack.indexOf(char, position)
+    if (position === -1) return null
+    position++
+  }
+  return 3
+}
@@ -75,6 +75,33 @@ export async function getDefaultBranch(path?: string): Promise<string> {
   return "main"
 }
 
+/**
+ * Paths under `cwd` that git doesn't track, relative to it. Ignored directories
+ * are reported once, with a trailing slash, instead of file by file.
+ */
+export async function listUntrackedPaths(
+  cwd: string,
+  options: { ignoredOnly?: boolean } = {}
+): Promise<string[] | null> {
+  const ignored = await executeGitCommand(
+    ["ls-files", "-z", "--others", "--ignored", "--exclude-standard", "--directory"],
+    cwd
+  )
+  if (!ignored.success) return null
+
+  const paths = ignored.stdout.split("\0")
+  if (!options.ignoredOnly) {
+    const untracked = await executeGitCommand(
+      ["ls-files", "-z", "--others", "--exclude-standard"],
+      cwd
+    )
+    if (!untracked.success) return null
+    paths.push(...untracked.stdout.split("\0"))
+  }
+
+  return paths.filter(Boolean).sort()
+}
+
 export async function getGitRoot(path?: string): Promise<string | null> {
   const result = await executeGitCommand(
     ["rev-parse", "--path-format=absolute", "--git-common-dir"],
@@ -1,4 +1,14 @@
+export * from "./branch-name.js"
+export * from "./concurrency.js"
+export * from "./copy-manifest.js"
+export * from "./duration.js"
 export * from "./error-handlers.js"
 export * from "./file-patterns.js"
+export * from "./format-size.js"
+export * from "./fuzzy-match.js"
 export * from "./git-commands.js"
+export * from "./output-tail.js"
 export * from "./path-utils.js"
+export * from "./post-create-graph.js"
+export * from "./template.js"
+export * from "./worktree-profile.js"
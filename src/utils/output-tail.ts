@@ -0,0 +1,26 @@
+/**
+ * Append a chunk of process output to a rolling tail of lines. The last entry is
+ * the line still being written and is kept raw until its newline arrives.
+ */
+export function appendOutputTail(lines: string[], chunk: string, maxLines: number): string[] {
+  const parts = ((lines[lines.length - 1] ?? "") + chunk).split(/\r?\n/)
+  const partial = parts.pop() ?? ""
+
+  return [...lines.slice(0, -1), ...parts.map(overwriteCarriageReturns), partial].slice(
+    -(maxLines + 1)
+  )
+}
+
+/** Lines of a tail ready to render, including the partial line when it has text */
+export function visibleOutputTail(lines: string[], maxLines: number): string[] {
+  return lines
+    .map(overwriteCarriageReturns)
+    .filter((line, index) => index < lines.length - 1 || line !== "")
+    .slice(-maxLines)
+}
+
+// Progress bars redraw with \r; only the text after the last one is visible
+function overwriteCarriageReturns(line: string): string {
+  const segments = line.split("\r").filter(Boolean)
+  return segments[segments.length - 1] ?? ""
+}
@@ -1,15 +1,9 @@
-import { basename, dirname, join, resolve } from "node:path"
-import type { TemplateVariables } from "../types/index"
+import { basename, dirname, join, resolve, sep } from "node:path"
+import type { GitWorktree, TemplateVariables } from "../types/index"
+import { renderTemplate } from "./template.js"
 
-export function resolveTemplate(template: string, variables: TemplateVariables): string {
-  let result = template
-
-  for (const [key, value] of Object.entries(variables)) {
-    const placeholder = `$${key}`
-    result = result.replace(new RegExp(placeholder.replace(/\$/g, "\\$"), "g"), value)
-  }
-
-  return result
+export function resolveTemplate(template: string, variables: Partial<TemplateVariables>): string {
+  return renderTemplate(template, variables)
 }
 
 export function getRepositoryBaseName(gitRoot: string): string {
@@ -35,14 +29,27 @@ export function getWorktreePath(
     WORKTREE_PATH: join(parentDir, directoryName),
     BRANCH_NAME: branchName || "",
     SOURCE_BRANCH: sourceBranch || "",
+    REPO_ROOT: gitRoot,
   }
 
+  // Templates are relative to the repository's parent unless they resolve to an
+  // absolute path, as $REPO_ROOT or ${env.HOME} do
   const resolvedTemplate = resolveTemplate(template, variables)
-  const worktreeBase = join(parentDir, resolvedTemplate)
+  const worktreeBase = resolve(parentDir, resolvedTemplate)
 
   return join(worktreeBase, directoryName)
 }
 
+/** Worktree that `path` lies in. Worktrees can be nested inside the main one, so the deepest match wins */
+export function findWorktreeContaining(
+  worktrees: GitWorktree[],
+  path: string
+): GitWorktree | undefined {
+  return worktrees
+    .filter((worktree) => path === worktree.path || path.startsWith(`${worktree.path}${sep}`))
+    .sort((a, b) => b.path.length - a.path.length)[0]
+}
+
 export function validateDirectoryName(name: string): string | undefined {
   if (!name.trim()) {
     return "Directory name cannot be empty"
@@ -73,6 +80,16 @@ export function validateDirectoryName(name: string): string | undefined {
   return undefined
 }
 
+export function parsePullRequestNumber(value: string): number | null {
+  const match = value.trim().match(/^#?(\d+)$/)
+  if (!match?.[1]) {
+    return null
+  }
+
+  const prNumber = Number.parseInt(match[1], 10)
+  return prNumber > 0 ? prNumber : null
+}
+
 export function validateBranchName(name: string): string | undefined {
   if (!name.trim()) {
     return "Branch name cannot be empty"
@@ -0,0 +1,74 @@
+import type { PostCreateCommand } from "../schemas/config-schema.js"
+
+export interface PostCreateDependencies {
+  /** Commands that must succeed before this one starts */
+  needs: number[]
+  /** Commands that must finish first: every earlier entry, for entries without `needs` */
+  after: number[]
+}
+
+/**
+ * Resolve the `name`/`needs` references of a post-create command list into
+ * indexes. Reports duplicate names, needs that name no other command, and cycles.
+ */
+export function resolvePostCreateDependencies(commands: PostCreateCommand[]): {
+  dependencies: PostCreateDependencies[]
+  error?: string
+} {
+  const indexByName = new Map<string, number>()
+  for (const [index, command] of commands.entries()) {
+    if (typeof command === "string" || command.name === undefined) continue
+    if (indexByName.has(command.name)) {
+      return { dependencies: [], error: `duplicate command name '${command.name}'` }
+    }
+    indexByName.set(command.name, index)
+  }
+
+  const dependencies: PostCreateDependencies[] = []
+  for (const [index, command] of commands.entries()) {
+    const needs = typeof command === "string" ? undefined : command.needs
+    if (needs === undefined) {
+      dependencies.push({ needs: [], after: [...Array(index).keys()] })
+      continue
+    }
+
+    const resolved: number[] = []
+    for (const name of needs) {
+      const dependency = indexByName.get(name)
+      if (dependency === undefined || dependency === index) {
+        return { dependencies: [], error: `command ${index + 1} needs unknown command '${name}'` }
+      }
+      resolved.push(dependency)
+    }
+    dependencies.push({ needs: resolved, after: [] })
+  }
+
+  const cycle = findCycle(dependencies)
+  if (cycle !== undefined) {
+    return { dependencies: [], error: `command ${cycle + 1} depends on itself through needs` }
+  }
+
+  return { dependencies }
+}
+
+function findCycle(dependencies: PostCreateDependencies[]): number | undefined {
+  // 0 = unvisited, 1 = on the current path, 2 = finished
+  const state = new Array<number>(dependencies.length).fill(0)
+  let cycleAt: number | undefined
+
+  const visit = (index: number): boolean => {
+    if (state[index] === 1) {
+      cycleAt = index
+      return true
+    }
+    if (state[index] === 2) return false
+    state[index] = 1
+    const { needs, after } = dependencies[index] ?? { needs: [], after: [] }
+    if ([...needs, ...after].some(visit)) return true
+    state[index] = 2
+    return false
+  }
+
+  dependencies.some((_, index) => visit(index))
+  return cycleAt
+}
@@ -0,0 +1,230 @@
+import { userInfo } from "node:os"
+
+/** Variables every template can use; callers supply all but USER and DATE */
+export const TEMPLATE_VARIABLES = [
+  "BASE_PATH",
+  "WORKTREE_PATH",
+  "BRANCH_NAME",
+  "SOURCE_BRANCH",
+  "REPO_ROOT",
+  "USER",
+  "DATE",
+]
+
+export interface TemplateCheckOptions {
+  /** Variables the template may use. Omit to accept any name */
+  variables?: readonly string[]
+  /**
+   * Report unknown variables and malformed `${...}` expressions. Otherwise they
+   * are left in place for the shell, as `$HOME` in a command should be
+   */
+  strict?: boolean
+}
+
+type TemplatePart =
+  | { type: "text"; text: string }
+  | { type: "invalid"; source: string }
+  | {
+      type: "variable"
+      /** The expression as written, e.g. ${BRANCH_NAME|slug} */
+      source: string
+      name: string
+      env: boolean
+      defaultValue?: string
+      filters: string[]
+    }
+
+const FILTERS: Record<string, (value: string) => string> = {
+  slug: slugify,
+  lower: (value) => value.toLowerCase(),
+  upper: (value) => value.toUpperCase(),
+  trim: (value) => value.trim(),
+}
+
+const BARE_VARIABLE = /^[A-Za-z_][A-Za-z0-9_]*/
+const BRACED_EXPRESSION = /^\s*(env\.)?([A-Za-z_][A-Za-z0-9_]*)\s*(?::-([^|]*))?((?:\|[^|]*)*)$/
+const DATE_FORMAT = /^(?:yyyy|yy|mm|dd|HH|MM|ss|[-_.:/ ])+$/
+const DATE_TOKENS = /yyyy|yy|mm|dd|HH|MM|ss/g
+
+/**
+ * Substitute `$NAME` and `${NAME}` references. Braces take a default for empty
+ * values (`${SOURCE_BRANCH:-main}`), filters (`${BRANCH_NAME|slug}`,
+ * `${DATE|yyyy-mm-dd}`) and environment variables (`${env.HOME}`).
+ * Names are matched whole; unknown names and malformed expressions are left as written.
+ */
+export function renderTemplate(
+  template: string,
+  variables: Readonly<Record<string, string | undefined>>,
+  now = new Date()
+): string {
+  const values: Record<string, string | undefined> = {
+    USER: getUserName(),
+    DATE: formatDate(now, "yyyy-mm-dd"),
+    ...variables,
+  }
+
+  return parseTemplate(template)
+    .parts.map((part) => {
+      if (part.type === "text") return part.text
+      if (part.type === "invalid") return part.source
+
+      let value = part.env ? (process.env[part.name] ?? "") : values[part.name]
+      if (value === undefined) return part.source
+      if (value === "" && part.defaultValue !== undefined) {
+        value = part.defaultValue
+      }
+
+      for (const filter of part.filters) {
+        if (DATE_FORMAT.test(filter)) {
+          const date: Date = part.name === "DATE" && !part.env ? now : new Date(value)
+          value = Number.isNaN(date.getTime()) ? value : formatDate(date, filter)
+        } else {
+          value = FILTERS[filter]?.(value) ?? value
+        }
+      }
+      return value
+    })
+    .join("")
+}
+
+/** Describe the first problem in a template, for config validation */
+export function validateTemplate(
+  template: string,
+  options: TemplateCheckOptions = {}
+): string | undefined {
+  const { parts, error } = parseTemplate(template)
+  if (error) return error
+
+  for (const part of parts) {
+    if (part.type === "text") continue
+    if (part.type === "invalid") {
+      if (options.strict) return `invalid expression ${part.source}`
+      continue
+    }
+    if (part.env) continue
+
+    const unknownFilter = part.filters.find(
+      (filter) => !FILTERS[filter] && !DATE_FORMAT.test(filter)
+    )
+    if (unknownFilter !== undefined) {
+      return `unknown filter '${unknownFilter}' in ${part.source}; use ${[...Object.keys(FILTERS), "a date format like yyyy-mm-dd"].join(", ")}`
+    }
+
+    const known = options.variables === undefined || options.variables.includes(part.name)
+    if (known) continue
+    if (options.strict) {
+      return `unknown variable ${part.source}; use ${options.variables?.map((name) => `$${name}`).join(", ")}, or \${env.${part.name}} for an environment variable`
+    }
+    if (part.filters.length > 0) {
+      return `unknown variable '${part.name}' in ${part.source}; filters only apply to template variables`
+    }
+  }
+
+  return undefined
+}
+
+/** Template variables a template references, in order of first use */
+export function getTemplateVariableNames(template: string): string[] {
+  const names = parseTemplate(template).parts.flatMap((part) =>
+    part.type === "variable" && !part.env ? [part.name] : []
+  )
+  return [...new Set(names)]
+}
+
+/** Lowercase text with runs of anything but letters and digits collapsed to "-" */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+export function getUserName(): string {
+  if (process.env.USER) {
+    return process.env.USER
+  }
+  try {
+    return userInfo().username
+  } catch {
+    return ""
+  }
+}
+
+function parseTemplate(template: string): { parts: TemplatePart[]; error?: string } {
+  const parts: TemplatePart[] = []
+  let error: string | undefined
+  let text = ""
+  let index = 0
+
+  const flushText = (): void => {
+    if (text) parts.push({ type: "text", text })
+    text = ""
+  }
+
+  while (index < template.length) {
+    const char = template[index]
+    if (char !== "$") {
+      text += char
+      index++
+      continue
+    }
+
+    if (template[index + 1] === "{") {
+      const end = template.indexOf("}", index + 2)
+      if (end === -1) {
+        error = `unclosed \${ at position ${index + 1}`
+        text += template.slice(index)
+        break
+      }
+
+      const source = template.slice(index, end + 1)
+      const match = BRACED_EXPRESSION.exec(template.slice(index + 2, end))
+      flushText()
+      if (!match?.[2]) {
+        parts.push({ type: "invalid", source })
+      } else {
+        parts.push({
+          type: "variable",
+          source,
+          name: match[2],
+          env: match[1] !== undefined,
+          ...(match[3] !== undefined && { defaultValue: match[3] }),
+          // The leading "|" yields an empty first entry
+          filters: (match[4] ?? "")
+            .split("|")
+            .slice(1)
+            .map((filter) => filter.trim()),
+        })
+      }
+      index = end + 1
+      continue
+    }
+
+    const name = BARE_VARIABLE.exec(template.slice(index + 1))?.[0]
+    if (!name) {
+      text += char
+      index++
+      continue
+    }
+    flushText()
+    parts.push({ type: "variable", source: `$${name}`, name, env: false, filters: [] })
+    index += name.length + 1
+  }
+
+  flushText()
+  return error ? { parts, error } : { parts }
+}
+
+function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, "0")
+  const tokens: Record<string, string> = {
+    yyyy: String(date.getFullYear()),
+    yy: pad(date.getFullYear() % 100),
+    mm: pad(date.getMonth() + 1),
+    dd: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    MM: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  }
+  return format.replace(DATE_TOKENS, (token) => tokens[token] ?? token)
+}
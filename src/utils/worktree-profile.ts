@@ -0,0 +1,64 @@
+import { minimatch } from "minimatch"
+import {
+  CONFIG_INHERIT_MARKER,
+  type WorktreeConfig,
+  type WorktreeProfile,
+} from "../schemas/config-schema.js"
+import type { GitBranch } from "../types/index.js"
+
+/**
+ * Config with a profile's overrides applied. Profile lists replace the configured
+ * ones, except that the inherit marker splices the configured list in.
+ */
+export function applyWorktreeProfile(
+  config: WorktreeConfig,
+  profile: WorktreeProfile
+): WorktreeConfig {
+  const result = { ...config }
+  if (profile.worktreeCopyPatterns !== undefined) {
+    result.worktreeCopyPatterns = spliceInherited(
+      profile.worktreeCopyPatterns,
+      config.worktreeCopyPatterns
+    )
+  }
+  if (profile.postCreateCmd !== undefined) {
+    result.postCreateCmd = spliceInherited(profile.postCreateCmd, config.postCreateCmd)
+  }
+  if (profile.worktreePathTemplate !== undefined) {
+    result.worktreePathTemplate = profile.worktreePathTemplate
+  }
+  if (profile.branchNameTemplate !== undefined) {
+    result.branchNameTemplate = profile.branchNameTemplate
+  }
+  return result
+}
+
+function spliceInherited<T>(values: T[], inherited: T[]): T[] {
+  return values.flatMap((value) => (value === CONFIG_INHERIT_MARKER ? inherited : [value]))
+}
+
+/**
+ * Branch a profile's sourceBranch refers to. Plain names are returned as-is; glob
+ * patterns resolve to the most recently committed matching branch, if any. Remote
+ * branches match by their short name, so release/* also finds origin/release/1.2.
+ */
+export function resolveProfileSourceBranch(
+  pattern: string,
+  branches: GitBranch[]
+): string | undefined {
+  if (!/[*?[{]/.test(pattern)) {
+    return pattern
+  }
+
+  const matches = branches.filter((branch) => minimatch(branch.localName ?? branch.name, pattern))
+  matches.sort((a, b) => (b.lastUsed?.getTime() ?? 0) - (a.lastUsed?.getTime() ?? 0))
+  return matches[0]?.name
+}
+
+/** Prefix a branch name unless it already carries the prefix */
+export function applyBranchPrefix(branch: string, prefix: string | undefined): string {
+  if (!prefix || branch.startsWith(prefix)) {
+    return branch
+  }
+  return `${prefix}${branch}`
+}
@@ -0,0 +1,130 @@
+import { mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { describe, expect, test } from "bun:test"
+import { runCd } from "../../../src/cli/commands/cd.js"
+import { AppStateService } from "../../../src/services/app-state-service.js"
+import { WorktreeService } from "../../../src/services/worktree-service.js"
+import { ValidationError } from "../../../src/utils/error-handlers.js"
+import { git, initRepo } from "../../helpers/git.js"
+
+describe("CLI cd command", () => {
+  const setup = () => {
+    const root = mkdtempSync(join(tmpdir(), "branchlet-cd-"))
+    const repo = initRepo(join(root, "app"))
+    git(`worktree add -q -b feat/login ${join(root, "feature-login")}`, repo)
+    git(`worktree add -q -b feat/logout ${join(root, "feature-logout")}`, repo)
+    git(`worktree add -q -b fix/crash ${join(root, "bugfix")}`, repo)
+
+    const service = new WorktreeService(repo)
+    const appStateService = new AppStateService(join(root, "state.json"))
+    const cleanup = () => rmSync(root, { recursive: true, force: true })
+    return { root, repo, service, appStateService, cleanup }
+  }
+
+  const cd = async (
+    name: string | undefined,
+    service: WorktreeService,
+    appStateService: AppStateService
+  ) => {
+    const logs: string[] = []
+    const originalLog = console.log
+    console.log = (...values: unknown[]) => {
+      logs.push(values.map(String).join(" "))
+    }
+    try {
+      await runCd(
+        { command: "cd", positionals: name === undefined ? [] : [name] },
+        service,
+        appStateService
+      )
+    } finally {
+      console.log = originalLog
+    }
+    return logs.join("\n")
+  }
+
+  test("should match directory names exactly, by prefix or by characters in order", async () => {
+    const { root, service, appStateService, cleanup } = setup()
+    try {
+      expect(await cd("bugfix", service, appStateService)).toBe(join(root, "bugfix"))
+      expect(await cd("feature-login", service, appStateService)).toBe(
+        join(root, "feature-login")
+      )
+      expect(await cd("bug", service, appStateService)).toBe(join(root, "bugfix"))
+      expect(await cd("bgfx", service, appStateService)).toBe(join(root, "bugfix"))
+      expect(await cd("app", service, appStateService)).toBe(join(root, "app"))
+    } finally {
+      cleanup()
+    }
+  })
+
+  test("should match branch names", async () => {
+    const { root, service, appStateService, cleanup } = setup()
+    try {
+      expect(await cd("fix/crash", service, appStateService)).toBe(join(root, "bugfix"))
+      expect(await cd("crash", service, appStateService)).toBe(join(root, "bugfix"))
+      expect(await cd("logout", service, appStateService)).toBe(join(root, "feature-logout"))
+    } finally {
+      cleanup()
+    }
+  })
+
+  test("should reject ambiguous and unknown names", async () => {
+    const { service, appStateService, cleanup } = setup()
+    try {
+      const ambiguous = cd("feature", service, appStateService)
+      await expect(ambiguous).rejects.toBeInstanceOf(ValidationError)
+      await expect(ambiguous).rejects.toThrow("feature-login, feature-logout")
+
+      await expect(cd("nothing-like-it", service, appStateService)).rejects.toThrow(
+        "No worktree matches 'nothing-like-it'"
+      )
+      await expect(cd(undefined, service, appStateService)).rejects.toThrow(
+        "Missing worktree name"
+      )
+    } finally {
+      cleanup()
+    }
+  })
+
+  test("should go back to the previous worktree with -", async () => {
+    const { root, repo, service, appStateService, cleanup } = setup()
+    const originalCwd = process.cwd()
+    try {
+      process.chdir(repo)
+      await expect(cd("-", service, appStateService)).rejects.toThrow(
+        "No previously visited worktree"
+      )
+      expect(await cd("bugfix", service, appStateService)).toBe(join(root, "bugfix"))
+
+      process.chdir(join(root, "bugfix"))
+      expect(await cd("-", service, appStateService)).toBe(repo)
+
+      process.chdir(repo)
+      expect(await cd("-", service, appStateService)).toBe(join(root, "bugfix"))
+    } finally {
+      process.chdir(originalCwd)
+      cleanup()
+    }
+  })
+
+  test("should save the history per repository", async () => {
+    const { root, repo, service, appStateService, cleanup } = setup()
+    const originalCwd = process.cwd()
+    try {
+      process.chdir(join(root, "feature-login"))
+      await cd("bugfix", service, appStateService)
+
+      const reloaded = new AppStateService(join(root, "state.json"))
+      const state = await reloaded.load()
+      expect(state.visitedWorktrees?.[repo]).toEqual([
+        join(root, "bugfix"),
+        join(root, "feature-login"),
+      ])
+    } finally {
+      process.chdir(originalCwd)
+      cleanup()
+    }
+  })
+})
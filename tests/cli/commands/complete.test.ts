@@ -0,0 +1,110 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { basename, join } from "node:path"
+import { describe, expect, test } from "bun:test"
+import { runComplete } from "../../../src/cli/commands/complete.js"
+import { runCli } from "../../../src/cli/run-cli.js"
+import { DEFAULT_CONFIG } from "../../../src/constants/index.js"
+import { WorktreeService } from "../../../src/services/worktree-service.js"
+import { ValidationError } from "../../../src/utils/error-handlers.js"
+import { git, initRepo } from "../../helpers/git.js"
+
+async function captureComplete(context: string, projectDir?: string): Promise<string[]> {
+  const service = new WorktreeService(projectDir)
+
+  const logs: string[] = []
+  const originalLog = console.log
+  console.log = (...msgArgs: unknown[]) => {
+    logs.push(msgArgs.map(String).join(" "))
+  }
+
+  try {
+    await runComplete({ command: "__complete", positionals: [context] }, service)
+  } finally {
+    console.log = originalLog
+  }
+
+  return logs.join("\n").split("\n").filter(Boolean)
+}
+
+describe("CLI __complete command", () => {
+  test("should list worktree directory names", async () => {
+    const worktrees = await new WorktreeService().getGitService().listWorktrees({ fast: true })
+    const names = await captureComplete("worktrees")
+
+    expect(names).toEqual(worktrees.map((worktree) => basename(worktree.path)))
+  })
+
+  test("should list worktree paths", async () => {
+    const paths = await captureComplete("worktree-paths")
+
+    expect(paths.length).toBeGreaterThan(0)
+    expect(paths).toContain(process.cwd())
+  })
+
+  test("should list each branch once", async () => {
+    const gitService = new WorktreeService().getGitService()
+    const branches = await captureComplete("branches")
+
+    expect(branches).toContain((await gitService.getCurrentBranch()) ?? "")
+    expect(new Set(branches).size).toBe(branches.length)
+  })
+
+  test("should list remote branches that have a local counterpart", async () => {
+    const sandbox = mkdtempSync(join(tmpdir(), "branchlet-complete-"))
+    const repo = initRepo(join(sandbox, "repo"))
+    git("init -q --bare remote.git", sandbox)
+    git("remote add origin ../remote.git", repo)
+    git("push -q origin main", repo)
+
+    try {
+      const branches = await captureComplete("branches", repo)
+      expect(branches).toContain("main")
+      expect(branches).toContain("origin/main")
+      expect(new Set(branches).size).toBe(branches.length)
+    } finally {
+      rmSync(sandbox, { recursive: true, force: true })
+    }
+  })
+
+  test("should list config keys", async () => {
+    const keys = await captureComplete("config-keys")
+
+    expect(keys).toEqual(Object.keys(DEFAULT_CONFIG))
+  })
+
+  test("should list configured profile names", async () => {
+    const sandbox = mkdtempSync(join(tmpdir(), "branchlet-complete-"))
+    git("init -q -b main", sandbox)
+    writeFileSync(
+      join(sandbox, ".branchlet.json"),
+      JSON.stringify({ profiles: { review: {}, hotfix: { branchPrefix: "hotfix/" } } })
+    )
+
+    try {
+      expect(await captureComplete("profiles", sandbox)).toEqual(["review", "hotfix"])
+    } finally {
+      rmSync(sandbox, { recursive: true, force: true })
+    }
+  })
+
+  test("should reject unknown contexts", async () => {
+    await expect(captureComplete("bogus")).rejects.toBeInstanceOf(ValidationError)
+  })
+
+  test("should be dispatched by runCli", async () => {
+    const logs: string[] = []
+    const originalLog = console.log
+    console.log = (...msgArgs: unknown[]) => {
+      logs.push(msgArgs.map(String).join(" "))
+    }
+
+    try {
+      await runCli({ command: "__complete", positionals: ["config-keys"] })
+    } finally {
+      console.log = originalLog
+    }
+
+    expect(logs.join("\n")).toContain("worktreeCopyPatterns")
+  })
+})
@@ -0,0 +1,178 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { runConfig } from "../../../src/cli/commands/config.js"
+import type { CliArgs } from "../../../src/cli/types.js"
+import { WorktreeService } from "../../../src/services/worktree-service.js"
+import { ConfigError, ValidationError } from "../../../src/utils/error-handlers.js"
+
+async function captureConfig(args: CliArgs, projectDir?: string): Promise<string> {
+  const service = new WorktreeService(projectDir)
+
+  const logs: string[] = []
+  const originalLog = console.log
+  console.log = (...msgArgs: unknown[]) => {
+    logs.push(msgArgs.map(String).join(" "))
+  }
+
+  try {
+    await runConfig(args, service)
+  } finally {
+    console.log = originalLog
+  }
+
+  return logs.join("\n")
+}
+
+describe("CLI config command", () => {
+  test("should list layers and the source of each value with --explain", async () => {
+    const output = await captureConfig({ command: "config", explain: true })
+
+    expect(output).toContain("Layers (lowest to highest precedence):")
+    expect(output).toContain(".branchlet.local.json")
+    expect(output).toContain("KEY")
+    expect(output).toContain("SOURCE")
+    expect(output).toContain("worktreeCopyPatterns")
+  })
+
+  test("should print the explanation as JSON with --json", async () => {
+    const output = await captureConfig({ command: "config", explain: true, json: true })
+    const parsed = JSON.parse(output)
+
+    expect(parsed.layers).toHaveLength(5)
+    for (const entry of parsed.values) {
+      expect(entry).toHaveProperty("key")
+      expect(entry).toHaveProperty("value")
+      expect(Array.isArray(entry.sources)).toBe(true)
+    }
+  })
+
+  test("should list the effective config without an action", async () => {
+    const output = await captureConfig({ command: "config", json: true })
+    expect(JSON.parse(output)).toHaveProperty("worktreePathTemplate")
+  })
+
+  test("should reject unknown actions", async () => {
+    await expect(
+      captureConfig({ command: "config", positionals: ["frobnicate"] })
+    ).rejects.toBeInstanceOf(ValidationError)
+  })
+
+  describe("editing the repo config", () => {
+    let projectDir: string
+    const configFile = () => join(projectDir, ".branchlet.json")
+    const readConfigFile = () => JSON.parse(readFileSync(configFile(), "utf-8"))
+    const config = (...positionals: string[]) =>
+      captureConfig({ command: "config", repo: true, positionals }, projectDir)
+
+    beforeEach(() => {
+      projectDir = mkdtempSync(join(tmpdir(), "branchlet-config-cli-"))
+    })
+
+    afterEach(() => {
+      rmSync(projectDir, { recursive: true, force: true })
+    })
+
+    test("should set and get a value without writing defaults", async () => {
+      await config("set", "terminalCommand", "zed .")
+
+      expect(readConfigFile()).toEqual({ terminalCommand: "zed ." })
+      expect(await config("get", "terminalCommand")).toBe("zed .")
+    })
+
+    test("should parse boolean and list values", async () => {
+      await config("set", "deleteBranchWithWorktree", "true")
+      await config("set", "postCreateCmd", '["npm ci", "npm run build"]')
+
+      expect(readConfigFile()).toEqual({
+        deleteBranchWithWorktree: true,
+        postCreateCmd: ["npm ci", "npm run build"],
+      })
+    })
+
+    test("should reject invalid values and unknown keys", async () => {
+      await expect(config("set", "deleteBranchWithWorktree", "maybe")).rejects.toBeInstanceOf(
+        ValidationError
+      )
+      await expect(config("set", "notAKey", "x")).rejects.toThrow("Unknown config key")
+      await expect(config("add", "terminalCommand", "x")).rejects.toThrow("is not a list")
+    })
+
+    test("should extend the inherited list when adding to an unset key", async () => {
+      await config("add", "worktreeCopyPatterns", ".idea/**")
+
+      expect(readConfigFile().worktreeCopyPatterns).toEqual(["...", ".idea/**"])
+      const effective = JSON.parse(
+        await captureConfig(
+          { command: "config", json: true, positionals: ["get", "worktreeCopyPatterns"] },
+          projectDir
+        )
+      )
+      expect(effective).toContain(".idea/**")
+      expect(effective.length).toBeGreaterThan(1)
+    })
+
+    test("should remove list items and unset keys", async () => {
+      writeFileSync(
+        configFile(),
+        JSON.stringify({ postCreateCmd: ["a", "b"], terminalCommand: "x" })
+      )
+
+      await config("remove", "postCreateCmd", "a")
+      await config("unset", "terminalCommand")
+
+      expect(readConfigFile()).toEqual({ postCreateCmd: ["b"] })
+      await expect(config("remove", "postCreateCmd", "a")).rejects.toThrow("is not in")
+    })
+
+    test("should write personal overrides to .branchlet.local.json with --local", async () => {
+      await captureConfig(
+        { command: "config", local: true, positionals: ["set", "terminalCommand", "zed ."] },
+        projectDir
+      )
+
+      const localFile = join(projectDir, ".branchlet.local.json")
+      expect(JSON.parse(readFileSync(localFile, "utf-8"))).toEqual({ terminalCommand: "zed ." })
+      await expect(config("get", "terminalCommand")).rejects.toThrow("is not set")
+    })
+
+    test("should reject more than one scope", async () => {
+      await expect(
+        captureConfig({ command: "config", repo: true, local: true }, projectDir)
+      ).rejects.toThrow("Cannot combine --repo with --local")
+    })
+
+    test("should fail get for keys the scoped file does not set", async () => {
+      await expect(config("get", "terminalCommand")).rejects.toThrow("is not set")
+    })
+
+    test("should report invalid layers on validate", async () => {
+      writeFileSync(
+        join(projectDir, ".branchlet.local.json"),
+        JSON.stringify({ terminalCommand: 3 })
+      )
+
+      const logs: string[] = []
+      const originalLog = console.log
+      console.log = (...msgArgs: unknown[]) => {
+        logs.push(msgArgs.map(String).join(" "))
+      }
+
+      try {
+        await expect(
+          runConfig(
+            { command: "config", positionals: ["validate"] },
+            new WorktreeService(projectDir)
+          )
+        ).rejects.toBeInstanceOf(ConfigError)
+      } finally {
+        console.log = originalLog
+      }
+
+      const output = logs.join("\n")
+      expect(output).toContain(".branchlet.local.json: Invalid configuration")
+      expect(output).toContain("global")
+    })
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test"
+import { runCopy } from "../../../src/cli/commands/copy.js"
+import { WorktreeService } from "../../../src/services/worktree-service.js"
+import { ValidationError } from "../../../src/utils/error-handlers.js"
+
+async function captureCopy(json: boolean): Promise<string[]> {
+  const service = new WorktreeService()
+  await service.initialize()
+
+  const logs: string[] = []
+  const originalLog = console.log
+  console.log = (...args: unknown[]) => {
+    logs.push(args.map(String).join(" "))
+  }
+
+  try {
+    await runCopy({ command: "copy", dryRun: true, json }, service)
+  } finally {
+    console.log = originalLog
+  }
+
+  return logs
+}
+
+describe("CLI copy command", () => {
+  test("should require --dry-run", async () => {
+    const service = new WorktreeService()
+    await service.initialize()
+
+    await expect(runCopy({ command: "copy" }, service)).rejects.toBeInstanceOf(ValidationError)
+  })
+
+  test("should output the preview as JSON", async () => {
+    const logs = await captureCopy(true)
+    const parsed = JSON.parse(logs.join("\n"))
+
+    expect(Array.isArray(parsed.files)).toBe(true)
+    expect(Array.isArray(parsed.excluded)).toBe(true)
+    expect(typeof parsed.totalSize).toBe("number")
+  })
+
+  test("should print a summary", async () => {
+    const logs = await captureCopy(false)
+    expect(logs.join("\n")).toMatch(/file\(s\), |No files match worktreeCopyPatterns/)
+  })
+})
@@ -1,8 +1,17 @@
 import { execSync } from "node:child_process"
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
 import { afterAll, beforeAll, describe, expect, test } from "bun:test"
 import { runCreate } from "../../../src/cli/commands/create.js"
 import type { CliArgs } from "../../../src/cli/types.js"
 import { WorktreeService } from "../../../src/services/worktree-service.js"
+import {
+  GitWorktreeError,
+  PostCreateCommandError,
+  ValidationError,
+} from "../../../src/utils/error-handlers.js"
+import { git, initRepo } from "../../helpers/git.js"
 
 describe("CLI create command", () => {
   const createdWorktrees: string[] = []
@@ -62,7 +71,8 @@ describe("CLI create command", () => {
         await runCreate(args, service)
         expect(true).toBe(false) // Should not reach here
       } catch (error) {
-        expect(error).toBeInstanceOf(Error)
+        expect(error).toBeInstanceOf(ValidationError)
+        expect((error as ValidationError).field).toBe("name")
         expect((error as Error).message).toContain("--name")
       }
     })
@@ -283,4 +293,619 @@ describe("CLI create command", () => {
       }
     })
   })
+
+  describe("pull request sources", () => {
+    const setupRepoWithRemote = (refPrefix: string): { sandbox: string; repo: string } => {
+      const sandbox = mkdtempSync(join(tmpdir(), "branchlet-pr-"))
+      const repo = initRepo(join(sandbox, "repo"))
+      const remote = join(sandbox, "remote.git")
+      git(`init -q --bare ${remote}`, sandbox)
+      git(`remote add origin ${remote}`, repo)
+      git("push -q origin main", repo)
+      git("commit -q --allow-empty -m pr-work", repo)
+      git(`push -q origin HEAD:${refPrefix}/42/head`, repo)
+      git("reset -q --hard HEAD~1", repo)
+      return { sandbox, repo }
+    }
+
+    test("should create a pr-<n> worktree from refs/pull/<n>/head", async () => {
+      const { sandbox, repo } = setupRepoWithRemote("refs/pull")
+      const service = new WorktreeService(repo)
+      await service.initialize()
+
+      const logs: string[] = []
+      const originalLog = console.log
+      console.log = (...msgArgs: unknown[]) => {
+        logs.push(msgArgs.map(String).join(" "))
+      }
+
+      try {
+        await runCreate({ command: "create", pr: "42" }, service)
+
+        expect(logs[0]).toEndWith("pr-42")
+        expect(existsSync(logs[0] as string)).toBe(true)
+        expect(logs.find((l) => l.includes("source:"))).toContain("pull request #42")
+        expect(logs.find((l) => l.includes("branch:"))).toContain("pr-42")
+      } finally {
+        console.log = originalLog
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+
+    test("should fall back to refs/merge-requests/<n>/head", async () => {
+      const { sandbox, repo } = setupRepoWithRemote("refs/merge-requests")
+      const service = new WorktreeService(repo)
+      await service.initialize()
+
+      const originalLog = console.log
+      console.log = () => {}
+
+      try {
+        await runCreate({ command: "create", pr: "42", name: "review-42" }, service)
+
+        const worktrees = await service.getGitService().listWorktrees({ fast: true })
+        const created = worktrees.find((wt) => wt.path.endsWith("review-42"))
+        expect(created?.branch).toBe("pr-42")
+      } finally {
+        console.log = originalLog
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+
+    test("should force-update a pr-<n> branch after the pull request is rewritten", async () => {
+      const { sandbox, repo } = setupRepoWithRemote("refs/pull")
+      const gitService = new WorktreeService(repo).getGitService()
+
+      try {
+        await gitService.fetchPullRequest(42, "origin", "pr-42")
+        git("commit -q --allow-empty -m rewritten", repo)
+        git("push -q --force origin HEAD:refs/pull/42/head", repo)
+
+        await gitService.fetchPullRequest(42, "origin", "pr-42")
+
+        expect(git("rev-parse pr-42", repo)).toBe(git("rev-parse HEAD", repo))
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+
+    test("should refuse to overwrite local commits on a pr-<n> branch", async () => {
+      const { sandbox, repo } = setupRepoWithRemote("refs/pull")
+      const gitService = new WorktreeService(repo).getGitService()
+
+      try {
+        await gitService.fetchPullRequest(42, "origin", "pr-42")
+        git("checkout -q pr-42", repo)
+        git("commit -q --allow-empty -m local-work", repo)
+        git("checkout -q main", repo)
+        const localHead = git("rev-parse pr-42", repo)
+
+        const error = await gitService.fetchPullRequest(42, "origin", "pr-42").catch((e) => e)
+
+        expect(error).toBeInstanceOf(GitWorktreeError)
+        expect(error.code).toBe("BRANCH_DIVERGED")
+        expect(git("rev-parse pr-42", repo)).toBe(localHead)
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+
+    test("should refuse to fetch into a pr-<n> branch checked out in a worktree", async () => {
+      const { sandbox, repo } = setupRepoWithRemote("refs/pull")
+      const service = new WorktreeService(repo)
+      await service.initialize()
+
+      const originalLog = console.log
+      console.log = () => {}
+
+      try {
+        await runCreate({ command: "create", pr: "42" }, service)
+        await expect(
+          runCreate({ command: "create", pr: "42", name: "again" }, service)
+        ).rejects.toThrow("Branch 'pr-42' is checked out at")
+      } finally {
+        console.log = originalLog
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+
+    test("should fail when the pull request does not exist on the remote", async () => {
+      const { sandbox, repo } = setupRepoWithRemote("refs/pull")
+      const service = new WorktreeService(repo)
+      await service.initialize()
+
+      try {
+        await expect(runCreate({ command: "create", pr: "999" }, service)).rejects.toThrow(
+          "Ref not found on remote"
+        )
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+
+    test("should reject --pr combined with --source", async () => {
+      const service = new WorktreeService()
+      await service.initialize()
+
+      await expect(
+        runCreate({ command: "create", pr: "42", source: sourceBranch }, service)
+      ).rejects.toThrow("Cannot combine --pr")
+    })
+
+    test("should reject an invalid pull request number", async () => {
+      const service = new WorktreeService()
+      await service.initialize()
+
+      await expect(runCreate({ command: "create", pr: "abc" }, service)).rejects.toThrow(
+        "Invalid pull request number"
+      )
+    })
+  })
+
+  describe("remote branch sources", () => {
+    const setupRepoWithRemoteBranch = (): { sandbox: string; repo: string } => {
+      const sandbox = mkdtempSync(join(tmpdir(), "branchlet-remote-"))
+      const repo = initRepo(join(sandbox, "repo"))
+      const remote = join(sandbox, "remote.git")
+      git(`init -q --bare ${remote}`, sandbox)
+      git(`remote add origin ${remote}`, repo)
+      git("push -q origin main", repo)
+      git("push -q origin main:feature-x", repo)
+      git("fetch -q origin", repo)
+      return { sandbox, repo }
+    }
+
+    test("should create a local branch tracking the remote branch", async () => {
+      const { sandbox, repo } = setupRepoWithRemoteBranch()
+      const service = new WorktreeService(repo)
+      await service.initialize()
+
+      const logs: string[] = []
+      const originalLog = console.log
+      console.log = (...msgArgs: unknown[]) => {
+        logs.push(msgArgs.map(String).join(" "))
+      }
+
+      try {
+        await runCreate({ command: "create", name: "fx", source: "origin/feature-x" }, service)
+
+        expect(logs.find((l) => l.includes("branch:"))).toContain("feature-x")
+        expect(logs.find((l) => l.includes("upstream:"))).toContain("origin/feature-x")
+        expect(git("rev-parse --abbrev-ref feature-x@{upstream}", repo)).toBe("origin/feature-x")
+      } finally {
+        console.log = originalLog
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+
+    test("should track the remote when an explicit --branch is given", async () => {
+      const { sandbox, repo } = setupRepoWithRemoteBranch()
+      const service = new WorktreeService(repo)
+      await service.initialize()
+
+      const originalLog = console.log
+      console.log = () => {}
+
+      try {
+        await runCreate(
+          { command: "create", name: "fx", source: "origin/feature-x", branch: "my-fx" },
+          service
+        )
+
+        expect(git("rev-parse --abbrev-ref my-fx@{upstream}", repo)).toBe("origin/feature-x")
+      } finally {
+        console.log = originalLog
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+
+    test("should refuse to shadow an existing local branch without --reuse-local", async () => {
+      const { sandbox, repo } = setupRepoWithRemoteBranch()
+      git("branch feature-x origin/feature-x", repo)
+      const service = new WorktreeService(repo)
+      await service.initialize()
+
+      try {
+        await expect(
+          runCreate({ command: "create", name: "fx", source: "origin/feature-x" }, service)
+        ).rejects.toThrow("Local branch 'feature-x' already exists")
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+
+    test("should check out the existing local branch with --reuse-local", async () => {
+      const { sandbox, repo } = setupRepoWithRemoteBranch()
+      git("branch feature-x origin/feature-x", repo)
+      const service = new WorktreeService(repo)
+      await service.initialize()
+
+      const logs: string[] = []
+      const originalLog = console.log
+      console.log = (...msgArgs: unknown[]) => {
+        logs.push(msgArgs.map(String).join(" "))
+      }
+
+      try {
+        await runCreate(
+          { command: "create", name: "fx", source: "origin/feature-x", reuseLocal: true },
+          service
+        )
+
+        const worktrees = await service.getGitService().listWorktrees({ fast: true })
+        const created = worktrees.find((wt) => wt.path.endsWith("fx"))
+        expect(created?.branch).toBe("feature-x")
+        expect(logs).toContain("  reused existing local branch")
+      } finally {
+        console.log = originalLog
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe("profiles", () => {
+    const datedEnv = (date: string) => ({ GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date })
+
+    const setupRepoWithProfiles = (): string => {
+      const sandbox = mkdtempSync(join(tmpdir(), "branchlet-profiles-"))
+      git("init -q -b main", sandbox)
+      git("commit -q --allow-empty -m init", sandbox, datedEnv("2024-01-01T00:00:00Z"))
+      git("branch release/1.0", sandbox)
+      git("checkout -q -b release/1.1", sandbox)
+      git("commit -q --allow-empty -m release", sandbox, datedEnv("2024-02-01T00:00:00Z"))
+      git("checkout -q main", sandbox)
+      writeFileSync(
+        join(sandbox, ".branchlet.json"),
+        JSON.stringify({
+          postCreateCmd: ["echo base-setup"],
+          terminalCommand: "",
+          profiles: {
+            review: { postCreateCmd: [], worktreePathTemplate: "$BASE_PATH-review" },
+            hotfix: {
+              sourceBranch: "release/*",
+              branchPrefix: "hotfix/",
+              postCreateCmd: ["...", "echo hotfix-setup"],
+            },
+          },
+        })
+      )
+      return sandbox
+    }
+
+    const runQuietly = async (args: CliArgs, service: WorktreeService) => {
+      const logs: string[] = []
+      const stderr: string[] = []
+      const originalLog = console.log
+      const originalWrite = process.stderr.write
+      console.log = (...msgArgs: unknown[]) => {
+        logs.push(msgArgs.map(String).join(" "))
+      }
+      process.stderr.write = ((chunk: string) => {
+        stderr.push(String(chunk))
+        return true
+      }) as typeof process.stderr.write
+
+      try {
+        await runCreate(args, service)
+      } finally {
+        console.log = originalLog
+        process.stderr.write = originalWrite
+      }
+      return { logs, stderr: stderr.join("") }
+    }
+
+    test("should take the source branch, branch prefix and commands from the profile", async () => {
+      const sandbox = setupRepoWithProfiles()
+      const service = new WorktreeService(sandbox)
+      await service.initialize()
+
+      try {
+        const { logs, stderr } = await runQuietly(
+          { command: "create", name: "login", profile: "hotfix" },
+          service
+        )
+
+        expect(logs).toContain("  source: release/1.1")
+        expect(logs).toContain("  branch: hotfix/login")
+        expect(logs).toContain("  profile: hotfix")
+        expect(stderr).toContain("[1] $ echo base-setup\n[1] base-setup\n")
+        expect(stderr).toContain("[2] $ echo hotfix-setup\n[2] hotfix-setup\n")
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+        rmSync(`${sandbox}.worktree`, { recursive: true, force: true })
+      }
+    })
+
+    test("should let --source override the profile's source branch", async () => {
+      const sandbox = setupRepoWithProfiles()
+      const service = new WorktreeService(sandbox)
+      await service.initialize()
+
+      try {
+        const { logs } = await runQuietly(
+          { command: "create", name: "old", source: "release/1.0", profile: "hotfix" },
+          service
+        )
+
+        expect(logs).toContain("  source: release/1.0")
+        expect(logs).toContain("  branch: hotfix/old")
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+        rmSync(`${sandbox}.worktree`, { recursive: true, force: true })
+      }
+    })
+
+    test("should use the profile's path template and skip cleared commands", async () => {
+      const sandbox = setupRepoWithProfiles()
+      const service = new WorktreeService(sandbox)
+      await service.initialize()
+
+      try {
+        const { logs, stderr } = await runQuietly(
+          { command: "create", name: "rv", source: "main", profile: "review" },
+          service
+        )
+
+        expect(logs[0]).toBe(join(`${sandbox}-review`, "rv"))
+        expect(existsSync(join(`${sandbox}-review`, "rv"))).toBe(true)
+        expect(stderr).not.toContain("base-setup")
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+        rmSync(`${sandbox}-review`, { recursive: true, force: true })
+      }
+    })
+
+    test("should reject an unknown profile", async () => {
+      const sandbox = setupRepoWithProfiles()
+      const service = new WorktreeService(sandbox)
+      await service.initialize()
+
+      try {
+        const error = await runCreate(
+          { command: "create", name: "x", source: "main", profile: "feature" },
+          service
+        ).catch((caught: unknown) => caught)
+
+        expect(error).toBeInstanceOf(ValidationError)
+        expect((error as ValidationError).field).toBe("profile")
+        expect((error as Error).message).toContain("Available profiles: review, hotfix")
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe("branch naming conventions", () => {
+    const originalUser = process.env.USER
+
+    const setupRepoWithConvention = (): string => {
+      const sandbox = initRepo(mkdtempSync(join(tmpdir(), "branchlet-naming-")))
+      writeFileSync(
+        join(sandbox, ".branchlet.json"),
+        JSON.stringify({
+          branchNameTemplate: "$USER/$TYPE/$SLUG",
+          branchNamePattern: "^[a-z]+/(feat|fix)/",
+          postCreateCmd: [],
+          terminalCommand: "",
+        })
+      )
+      return sandbox
+    }
+
+    afterAll(() => {
+      if (originalUser === undefined) {
+        delete process.env.USER
+      } else {
+        process.env.USER = originalUser
+      }
+    })
+
+    test("should name the branch from the template and --var values", async () => {
+      process.env.USER = "ana"
+      const sandbox = setupRepoWithConvention()
+      const service = new WorktreeService(sandbox)
+      await service.initialize()
+
+      const logs: string[] = []
+      const originalLog = console.log
+      console.log = (...msgArgs: unknown[]) => {
+        logs.push(msgArgs.map(String).join(" "))
+      }
+
+      try {
+        await runCreate(
+          { command: "create", name: "Login_Page", source: "main", vars: ["TYPE=feat"] },
+          service
+        )
+        expect(logs).toContain("  branch: ana/feat/login-page")
+      } finally {
+        console.log = originalLog
+        rmSync(sandbox, { recursive: true, force: true })
+        rmSync(`${sandbox}.worktree`, { recursive: true, force: true })
+      }
+    })
+
+    test("should ask for template variables without a value", async () => {
+      const sandbox = setupRepoWithConvention()
+      const service = new WorktreeService(sandbox)
+      await service.initialize()
+
+      try {
+        const error = await runCreate(
+          { command: "create", name: "login", source: "main" },
+          service
+        ).catch((caught: unknown) => caught)
+
+        expect(error).toBeInstanceOf(ValidationError)
+        expect((error as ValidationError).field).toBe("var")
+        expect((error as Error).message).toContain("needs $TYPE; pass --var TYPE=<value>")
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+
+    test("should reject branch names that break the pattern", async () => {
+      const sandbox = setupRepoWithConvention()
+      const service = new WorktreeService(sandbox)
+      await service.initialize()
+
+      try {
+        await expect(
+          runCreate({ command: "create", name: "login", source: "main", branch: "login" }, service)
+        ).rejects.toThrow("Branch name must match ^[a-z]+/(feat|fix)/")
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+
+    test("should reject malformed --var assignments", async () => {
+      const sandbox = setupRepoWithConvention()
+      const service = new WorktreeService(sandbox)
+      await service.initialize()
+
+      try {
+        await expect(
+          runCreate(
+            { command: "create", name: "login", source: "main", vars: ["type=feat"] },
+            service
+          )
+        ).rejects.toThrow("Invalid --var 'type=feat'")
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe("post-create output", () => {
+    test("should stream command output to stderr and log it in the worktree git dir", async () => {
+      const sandbox = initRepo(mkdtempSync(join(tmpdir(), "branchlet-post-create-")))
+      writeFileSync(
+        join(sandbox, ".branchlet.json"),
+        JSON.stringify({ postCreateCmd: ["echo hello-from-setup"], terminalCommand: "" })
+      )
+
+      const service = new WorktreeService(sandbox)
+      await service.initialize()
+
+      const logs: string[] = []
+      const stderr: string[] = []
+      const originalLog = console.log
+      const originalWrite = process.stderr.write
+      console.log = (...msgArgs: unknown[]) => {
+        logs.push(msgArgs.map(String).join(" "))
+      }
+      process.stderr.write = ((chunk: string) => {
+        stderr.push(String(chunk))
+        return true
+      }) as typeof process.stderr.write
+
+      try {
+        await runCreate({ command: "create", name: "setup-wt", source: "main" }, service)
+      } finally {
+        console.log = originalLog
+        process.stderr.write = originalWrite
+      }
+
+      try {
+        expect(stderr.join("")).toContain("[1] $ echo hello-from-setup\n[1] hello-from-setup")
+        expect(logs.some((l) => l.includes("hello-from-setup"))).toBe(false)
+
+        const logLine = logs.find((l) => l.startsWith("  log: "))
+        const logPath = logLine?.slice("  log: ".length) ?? ""
+        expect(logPath).toContain(join(".git", "worktrees", "setup-wt"))
+        expect(readFileSync(logPath, "utf-8")).toContain("hello-from-setup")
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+        rmSync(`${sandbox}.worktree`, { recursive: true, force: true })
+      }
+    })
+
+    test("should prefix each line of concurrent commands with the command's index", async () => {
+      const sandbox = initRepo(mkdtempSync(join(tmpdir(), "branchlet-post-create-concurrent-")))
+      writeFileSync(
+        join(sandbox, ".branchlet.json"),
+        JSON.stringify({
+          postCreateCmd: [
+            "printf 'one\\n'; sleep 0.3; printf 'one-end'",
+            { run: "sleep 0.1; printf 'two-'; sleep 0.3; printf 'end\\n'", needs: [] },
+          ],
+          terminalCommand: "",
+        })
+      )
+
+      const service = new WorktreeService(sandbox)
+      await service.initialize()
+
+      const stderr: string[] = []
+      const originalLog = console.log
+      const originalWrite = process.stderr.write
+      console.log = () => {}
+      process.stderr.write = ((chunk: string) => {
+        stderr.push(String(chunk))
+        return true
+      }) as typeof process.stderr.write
+
+      try {
+        await runCreate({ command: "create", name: "concurrent-wt", source: "main" }, service)
+      } finally {
+        console.log = originalLog
+        process.stderr.write = originalWrite
+      }
+
+      try {
+        const lines = stderr.join("").split("\n").filter(Boolean)
+        expect(lines).toContain("[1] one")
+        expect(lines).toContain("[1] one-end")
+        expect(lines).toContain("[2] two-end")
+        expect(lines.every((line) => /^\[[12]\] /.test(line))).toBe(true)
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+        rmSync(`${sandbox}.worktree`, { recursive: true, force: true })
+      }
+    })
+
+    test("should keep the worktree but fail when a post-create command fails", async () => {
+      const sandbox = initRepo(mkdtempSync(join(tmpdir(), "branchlet-post-create-fail-")))
+      writeFileSync(
+        join(sandbox, ".branchlet.json"),
+        JSON.stringify({
+          postCreateCmd: ["exit 7", "echo never"],
+          postCreateContinueOnError: false,
+          terminalCommand: "",
+        })
+      )
+
+      const service = new WorktreeService(sandbox)
+      await service.initialize()
+
+      const logs: string[] = []
+      const originalLog = console.log
+      const originalWrite = process.stderr.write
+      console.log = (...msgArgs: unknown[]) => {
+        logs.push(msgArgs.map(String).join(" "))
+      }
+      process.stderr.write = (() => true) as typeof process.stderr.write
+
+      let caught: unknown
+      try {
+        await runCreate({ command: "create", name: "failing-wt", source: "main" }, service)
+      } catch (error) {
+        caught = error
+      } finally {
+        console.log = originalLog
+        process.stderr.write = originalWrite
+      }
+
+      try {
+        expect(caught).toBeInstanceOf(PostCreateCommandError)
+        expect((caught as PostCreateCommandError).failedCommands).toEqual(["exit 7"])
+        expect(logs).toContain("  failed: exit 7")
+        expect(logs).toContain("  skipped: echo never")
+        expect(existsSync(join(`${sandbox}.worktree`, "failing-wt"))).toBe(true)
+      } finally {
+        rmSync(sandbox, { recursive: true, force: true })
+        rmSync(`${sandbox}.worktree`, { recursive: true, force: true })
+      }
+    })
+  })
 })
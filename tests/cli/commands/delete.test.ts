@@ -1,7 +1,15 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
 import { describe, expect, test } from "bun:test"
 import { runDelete } from "../../../src/cli/commands/delete.js"
 import type { CliArgs } from "../../../src/cli/types.js"
 import { WorktreeService } from "../../../src/services/worktree-service.js"
+import {
+  PostDeleteCommandError,
+  PreDeleteCommandError,
+} from "../../../src/utils/error-handlers.js"
+import { git, initRepo } from "../../helpers/git.js"
 
 describe("CLI delete command", () => {
   describe("argument validation", () => {
@@ -92,4 +100,102 @@ describe("CLI delete command", () => {
       }
     })
   })
+
+  describe("delete hooks", () => {
+    const setup = async (hooks: object) => {
+      const sandbox = initRepo(mkdtempSync(join(tmpdir(), "branchlet-delete-hooks-")))
+      const worktreePath = `${sandbox}-wt`
+      git(`worktree add -q -b hooked ${worktreePath}`, sandbox)
+      writeFileSync(join(sandbox, ".branchlet.json"), JSON.stringify(hooks))
+
+      const service = new WorktreeService(sandbox)
+      await service.initialize()
+      const cleanup = () => {
+        rmSync(sandbox, { recursive: true, force: true })
+        rmSync(worktreePath, { recursive: true, force: true })
+      }
+      return { sandbox, worktreePath, service, cleanup }
+    }
+
+    const runQuietly = async (args: CliArgs, service: WorktreeService): Promise<unknown> => {
+      const originalLog = console.log
+      const originalWrite = process.stderr.write
+      console.log = () => {}
+      process.stderr.write = (() => true) as typeof process.stderr.write
+      try {
+        await runDelete(args, service)
+        return undefined
+      } catch (error) {
+        return error
+      } finally {
+        console.log = originalLog
+        process.stderr.write = originalWrite
+      }
+    }
+
+    test("should run pre- and post-delete commands with template variables", async () => {
+      const { sandbox, worktreePath, service, cleanup } = await setup({
+        preDeleteCmd: ["echo $BRANCH_NAME > ../pre-delete.txt"],
+        postDeleteCmd: ["echo $WORKTREE_PATH > post-delete.txt"],
+      })
+
+      try {
+        const error = await runQuietly({ command: "delete", path: worktreePath }, service)
+
+        expect(error).toBeUndefined()
+        expect(existsSync(worktreePath)).toBe(false)
+        // preDeleteCmd runs inside the worktree, postDeleteCmd from the repo root
+        expect(readFileSync(join(worktreePath, "..", "pre-delete.txt"), "utf-8").trim()).toBe(
+          "hooked"
+        )
+        expect(readFileSync(join(sandbox, "post-delete.txt"), "utf-8").trim()).toBe(worktreePath)
+      } finally {
+        rmSync(join(worktreePath, "..", "pre-delete.txt"), { force: true })
+        cleanup()
+      }
+    })
+
+    test("should abort the delete when a pre-delete command fails", async () => {
+      const { worktreePath, service, cleanup } = await setup({
+        preDeleteCmd: ["exit 1", "echo never"],
+        postDeleteCmd: ["echo never"],
+      })
+
+      try {
+        const error = await runQuietly({ command: "delete", path: worktreePath }, service)
+
+        expect(error).toBeInstanceOf(PreDeleteCommandError)
+        expect((error as PreDeleteCommandError).failedCommands).toEqual(["exit 1"])
+        expect(existsSync(worktreePath)).toBe(true)
+      } finally {
+        cleanup()
+      }
+    })
+
+    test("should not abort for pre-delete commands marked continueOnError", async () => {
+      const { worktreePath, service, cleanup } = await setup({
+        preDeleteCmd: [{ run: "exit 1", continueOnError: true }],
+      })
+
+      try {
+        expect(await runQuietly({ command: "delete", path: worktreePath }, service)).toBeUndefined()
+        expect(existsSync(worktreePath)).toBe(false)
+      } finally {
+        cleanup()
+      }
+    })
+
+    test("should report post-delete failures after deleting", async () => {
+      const { worktreePath, service, cleanup } = await setup({ postDeleteCmd: ["exit 2"] })
+
+      try {
+        const error = await runQuietly({ command: "delete", path: worktreePath }, service)
+
+        expect(error).toBeInstanceOf(PostDeleteCommandError)
+        expect(existsSync(worktreePath)).toBe(false)
+      } finally {
+        cleanup()
+      }
+    })
+  })
 })
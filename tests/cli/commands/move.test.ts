@@ -0,0 +1,191 @@
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { describe, expect, test } from "bun:test"
+import { runMove } from "../../../src/cli/commands/move.js"
+import type { CliArgs } from "../../../src/cli/types.js"
+import { AppStateService } from "../../../src/services/app-state-service.js"
+import { WorktreeService } from "../../../src/services/worktree-service.js"
+import { ValidationError } from "../../../src/utils/error-handlers.js"
+import { git as runGit, initRepo } from "../../helpers/git.js"
+
+describe("CLI move command", () => {
+  const setup = async (config: Record<string, unknown> = {}) => {
+    const root = mkdtempSync(join(tmpdir(), "branchlet-move-"))
+    const repo = initRepo(join(root, "app"))
+    const git = (cmd: string) => runGit(cmd, repo)
+    git(`worktree add -q -b feat/login ${join(root, "app.worktree", "login")}`)
+    git("branch taken")
+    writeFileSync(join(repo, ".branchlet.json"), JSON.stringify(config))
+
+    const service = new WorktreeService(repo)
+    await service.initialize()
+    const appStateService = new AppStateService(join(root, "state.json"))
+    const cleanup = () => rmSync(root, { recursive: true, force: true })
+    return { root, repo, git, service, appStateService, cleanup }
+  }
+
+  const move = async (
+    args: Partial<CliArgs>,
+    service: WorktreeService,
+    appStateService: AppStateService
+  ) => {
+    const logs: string[] = []
+    const originalLog = console.log
+    console.log = (...values: unknown[]) => {
+      logs.push(values.map(String).join(" "))
+    }
+    try {
+      await runMove({ command: "move", ...args }, service, appStateService)
+    } finally {
+      console.log = originalLog
+    }
+    return logs.join("\n")
+  }
+
+  test("should move the worktree to the new directory name", async () => {
+    const { root, git, service, appStateService, cleanup } = await setup()
+    try {
+      const output = await move(
+        { positionals: ["login", "sign-in"] },
+        service,
+        appStateService
+      )
+
+      const newPath = join(root, "app.worktree", "sign-in")
+      expect(output).toBe(`Worktree moved: ${join(root, "app.worktree", "login")} -> ${newPath}`)
+      expect(existsSync(newPath)).toBe(true)
+      expect(existsSync(join(root, "app.worktree", "login"))).toBe(false)
+      expect(git("worktree list --porcelain")).toContain(`worktree ${newPath}`)
+      expect(git("branch --list feat/login")).toContain("feat/login")
+    } finally {
+      cleanup()
+    }
+  })
+
+  test("should rename the branch with -b", async () => {
+    const { root, git, service, appStateService, cleanup } = await setup()
+    try {
+      const result = JSON.parse(
+        await move(
+          { positionals: ["login"], branch: "feat/sign-in", json: true },
+          service,
+          appStateService
+        )
+      )
+
+      const path = join(root, "app.worktree", "login")
+      expect(result).toEqual({
+        oldPath: path,
+        newPath: path,
+        oldBranch: "feat/login",
+        newBranch: "feat/sign-in",
+      })
+      expect(git("branch --show-current")).toBe("main")
+      expect(runGit("branch --show-current", path)).toBe("feat/sign-in")
+    } finally {
+      cleanup()
+    }
+  })
+
+  test("should re-resolve worktreePathTemplate for the renamed branch", async () => {
+    const { root, service, appStateService, cleanup } = await setup({
+      worktreePathTemplate: "$BASE_PATH.worktree/${BRANCH_NAME|slug}",
+    })
+    try {
+      const output = await move(
+        { positionals: ["login", "sign-in"], branch: "feat/sign-in" },
+        service,
+        appStateService
+      )
+
+      const newPath = join(root, "app.worktree", "feat-sign-in", "sign-in")
+      expect(output).toContain(`-> ${newPath}`)
+      expect(output).toContain("Branch renamed: feat/login -> feat/sign-in")
+      expect(existsSync(newPath)).toBe(true)
+    } finally {
+      cleanup()
+    }
+  })
+
+  test("should point the visited worktree history at the new path", async () => {
+    const { root, repo, service, appStateService, cleanup } = await setup()
+    try {
+      const oldPath = join(root, "app.worktree", "login")
+      appStateService.update({ visitedWorktrees: { [repo]: [repo, oldPath] } })
+      await appStateService.save()
+
+      await move({ positionals: [oldPath, "sign-in"] }, service, appStateService)
+
+      const saved = await new AppStateService(join(root, "state.json")).load()
+      expect(saved.visitedWorktrees).toEqual({
+        [repo]: [repo, join(root, "app.worktree", "sign-in")],
+      })
+    } finally {
+      cleanup()
+    }
+  })
+
+  test("should reject moves it can't make", async () => {
+    const { root, service, appStateService, cleanup } = await setup({
+      branchNamePattern: "^feat/",
+    })
+    try {
+      const missing = move({ positionals: [] }, service, appStateService)
+      await expect(missing).rejects.toBeInstanceOf(ValidationError)
+      await expect(missing).rejects.toThrow("Missing worktree")
+      await expect(move({ positionals: ["login"] }, service, appStateService)).rejects.toThrow(
+        "Missing new directory name or --branch (-b)"
+      )
+      await expect(
+        move({ positionals: ["nope", "other"] }, service, appStateService)
+      ).rejects.toThrow("No worktree found with directory name or path 'nope'")
+      await expect(
+        move({ positionals: ["app", "other"] }, service, appStateService)
+      ).rejects.toThrow("The main worktree cannot be moved")
+      await expect(
+        move({ positionals: ["login", "login"] }, service, appStateService)
+      ).rejects.toThrow("Worktree is already at")
+      await expect(
+        move({ positionals: ["login"], branch: "taken" }, service, appStateService)
+      ).rejects.toThrow("Branch name must match ^feat/")
+      await expect(
+        move({ positionals: ["login", "a/b"] }, service, appStateService)
+      ).rejects.toThrow("Directory name cannot contain path separators")
+
+      mkdirSync(join(root, "app.worktree", "occupied"))
+      await expect(
+        move({ positionals: ["login", "occupied"] }, service, appStateService)
+      ).rejects.toThrow("already exists")
+    } finally {
+      cleanup()
+    }
+  })
+
+  test("should restore the branch name when git can't move the worktree", async () => {
+    const { root, git, service, appStateService, cleanup } = await setup()
+    try {
+      git(`worktree lock ${join(root, "app.worktree", "login")}`)
+
+      await expect(
+        move({ positionals: ["login", "sign-in"], branch: "feat/sign-in" }, service, appStateService)
+      ).rejects.toThrow("move worktree")
+      expect(git("branch --list feat/login")).toContain("feat/login")
+      expect(git("branch --list feat/sign-in")).toBe("")
+    } finally {
+      cleanup()
+    }
+  })
+
+  test("should refuse to rename onto an existing branch", async () => {
+    const { git, service, appStateService, cleanup } = await setup()
+    try {
+      await expect(
+        move({ positionals: ["login"], branch: "taken" }, service, appStateService)
+      ).rejects.toThrow("Branch 'taken' already exists")
+      expect(git("branch --list feat/login")).toContain("feat/login")
+    } finally {
+      cleanup()
+    }
+  })
+})
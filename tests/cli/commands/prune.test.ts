@@ -0,0 +1,121 @@
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { runPrune } from "../../../src/cli/commands/prune.js"
+import type { CliArgs } from "../../../src/cli/types.js"
+import { WorktreeService } from "../../../src/services/worktree-service.js"
+import { git as runGit, initRepo } from "../../helpers/git.js"
+
+describe("CLI prune command", () => {
+  let sandbox: string
+  let repo: string
+
+  const git = (cmd: string, cwd = repo) => runGit(cmd, cwd)
+
+  const prune = async (args: Omit<CliArgs, "command">): Promise<string[]> => {
+    const service = new WorktreeService(repo)
+    await service.initialize()
+
+    const logs: string[] = []
+    const originalLog = console.log
+    console.log = (...msgArgs: unknown[]) => {
+      logs.push(msgArgs.map(String).join(" "))
+    }
+
+    try {
+      await runPrune({ command: "prune", ...args }, service)
+    } finally {
+      console.log = originalLog
+    }
+    return logs
+  }
+
+  beforeEach(() => {
+    sandbox = mkdtempSync(join(tmpdir(), "branchlet-prune-"))
+    repo = initRepo(join(sandbox, "repo"))
+    writeFileSync(join(repo, ".branchlet.json"), JSON.stringify({ deleteBranchWithWorktree: true }))
+
+    for (const name of ["merged-wt", "dirty-wt"]) {
+      git(`worktree add -q -b ${name} ${join(sandbox, name)} main`)
+      git(`commit -q --allow-empty -m ${name}`, join(sandbox, name))
+      git(`merge -q --no-ff -m merge ${name}`)
+    }
+    git(`worktree add -q -b open-wt ${join(sandbox, "open-wt")} main`)
+    git("commit -q --allow-empty -m work", join(sandbox, "open-wt"))
+    writeFileSync(join(sandbox, "dirty-wt", "scratch.txt"), "wip")
+  })
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true })
+  })
+
+  test("should list merged worktrees without deleting them in dry-run", async () => {
+    const logs = await prune({ merged: true, dryRun: true })
+    const output = logs.join("\n")
+
+    expect(output).toContain("Would remove")
+    expect(output).toContain("merged-wt")
+    expect(output).not.toContain("open-wt")
+    expect(existsSync(join(sandbox, "merged-wt"))).toBe(true)
+  })
+
+  test("should not treat a fresh worktree without commits as merged", async () => {
+    git(`worktree add -q -b fresh-wt ${join(sandbox, "fresh-wt")} main`)
+
+    const logs = await prune({ dryRun: true })
+    expect(logs.join("\n")).toContain("merged-wt")
+    expect(logs.join("\n")).not.toContain("fresh-wt")
+  })
+
+  test("should skip dirty worktrees unless forced", async () => {
+    const logs = await prune({ merged: true, dryRun: true })
+    const skipped = logs.find((line) => line.includes("dirty-wt"))
+
+    expect(skipped).toStartWith("Skipped")
+    expect(skipped).toContain("--force")
+
+    const forcedLogs = await prune({ merged: true, dryRun: true, force: true })
+    expect(forcedLogs.find((line) => line.includes("dirty-wt"))).toStartWith("Would remove")
+  })
+
+  test("should delete merged worktrees and their branches", async () => {
+    const logs = await prune({ merged: true })
+
+    expect(logs.join("\n")).toContain("Branch deleted: merged-wt")
+    expect(existsSync(join(sandbox, "merged-wt"))).toBe(false)
+    expect(existsSync(join(sandbox, "open-wt"))).toBe(true)
+    expect(existsSync(join(sandbox, "dirty-wt"))).toBe(true)
+  })
+
+  test("should select worktrees by age with --older-than", async () => {
+    const logs = await prune({ olderThan: "1h", dryRun: true })
+    expect(logs).toEqual(["No worktrees to prune"])
+  })
+
+  test("should reject an invalid --older-than duration", async () => {
+    await expect(prune({ olderThan: "soon" })).rejects.toThrow("Invalid duration")
+  })
+
+  test("should reject an empty --older-than", async () => {
+    await expect(prune({ olderThan: "" })).rejects.toThrow("--older-than needs a duration")
+  })
+
+  test("should select worktrees whose upstream branch was deleted", async () => {
+    const remote = join(sandbox, "remote.git")
+    git(`init -q --bare ${remote}`, sandbox)
+    git(`remote add origin ${remote}`)
+    git("push -q -u origin open-wt", join(sandbox, "open-wt"))
+    git("push -q origin --delete open-wt")
+
+    const logs = await prune({ gone: true, dryRun: true })
+    expect(logs).toHaveLength(1)
+    expect(logs[0]).toContain("open-wt")
+    expect(logs[0]).toContain("upstream gone")
+  })
+
+  test("should report nothing to prune when no branch is gone upstream", async () => {
+    const logs = await prune({ gone: true })
+    expect(logs).toEqual(["No worktrees to prune"])
+  })
+})
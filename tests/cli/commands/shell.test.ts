@@ -0,0 +1,94 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import * as os from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, type Mock, spyOn, test } from "bun:test"
+import { runShell } from "../../../src/cli/commands/shell.js"
+import type { CliArgs } from "../../../src/cli/types.js"
+import { SHELL_INTEGRATION_VERSION } from "../../../src/services/shell-integration-service.js"
+import { ValidationError } from "../../../src/utils/error-handlers.js"
+
+describe("CLI shell command", () => {
+  let home: string
+  let homedirSpy: Mock<typeof os.homedir>
+  let originalShell: string | undefined
+
+  beforeEach(() => {
+    home = mkdtempSync(join(os.tmpdir(), "branchlet-shell-cli-"))
+    homedirSpy = spyOn(os, "homedir").mockReturnValue(home)
+    originalShell = process.env.SHELL
+    process.env.SHELL = "/bin/zsh"
+  })
+
+  afterEach(() => {
+    homedirSpy.mockRestore()
+    process.env.SHELL = originalShell
+    rmSync(home, { recursive: true, force: true })
+  })
+
+  const shell = async (positionals: string[], args: Partial<CliArgs> = {}) => {
+    const logs: string[] = []
+    const originalLog = console.log
+    console.log = (...values: unknown[]) => {
+      logs.push(values.map(String).join(" "))
+    }
+    try {
+      await runShell({ command: "shell", positionals, ...args })
+    } finally {
+      console.log = originalLog
+    }
+    return logs.join("\n")
+  }
+
+  test("should install, report and uninstall for the detected shell", async () => {
+    const rcFile = join(home, ".zshrc")
+    writeFileSync(rcFile, "export EDITOR=vim\n")
+
+    expect(await shell(["status"])).toContain("not installed")
+
+    const installed = await shell(["install"])
+    expect(installed).toContain("Installed shell integration for zsh")
+    expect(installed).toContain(`backup  ${rcFile}.branchlet-backup`)
+    expect(await shell(["status"])).toContain(`installed (integration v${SHELL_INTEGRATION_VERSION})`)
+
+    expect(await shell(["uninstall"])).toContain("Removed shell integration for zsh")
+    expect(readFileSync(rcFile, "utf-8")).toBe("export EDITOR=vim\n")
+    expect(await shell(["uninstall"])).toBe("Shell integration is not installed for zsh")
+  })
+
+  test("should default to status and print it as JSON", async () => {
+    const status = JSON.parse(await shell([], { json: true }))
+    expect(status).toMatchObject({ isInstalled: false, shell: "zsh" })
+  })
+
+  test("should report outdated blocks", async () => {
+    writeFileSync(
+      join(home, ".bashrc"),
+      "# Branchlet setup: added on 2025-01-01\nbranchlet() { }\n# End Branchlet setup\n"
+    )
+    const output = await shell(["status", "bash"])
+    expect(output).toContain("needs upgrade")
+    expect(output).toContain("branchlet shell install")
+  })
+
+  test("should print the script without installing it", async () => {
+    const output = await shell(["print", "bash"])
+    expect(output).toContain("complete -F _branchlet_completions branchlet")
+    expect(existsSync(join(home, ".bashrc"))).toBe(false)
+  })
+
+  test("should print both fish files with their paths", async () => {
+    const output = await shell(["print", "fish"])
+    expect(output).toContain(`# ${join(home, ".config", "fish", "functions", "branchlet.fish")}`)
+    expect(output).toContain(`# ${join(home, ".config", "fish", "completions", "branchlet.fish")}`)
+    expect(output).toContain("function branchlet")
+    expect(output).toContain("complete -c branchlet")
+  })
+
+  test("should reject unknown actions and shells", async () => {
+    await expect(shell(["reinstall"])).rejects.toBeInstanceOf(ValidationError)
+    await expect(shell(["install", "tcsh"])).rejects.toThrow("Unknown shell 'tcsh'")
+
+    process.env.SHELL = "/bin/tcsh"
+    await expect(shell(["status"])).rejects.toThrow("Could not detect your shell")
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test"
+import { runStatus } from "../../../src/cli/commands/status.js"
+import { WorktreeService } from "../../../src/services/worktree-service.js"
+
+async function captureStatus(json: boolean): Promise<string[]> {
+  const service = new WorktreeService()
+  await service.initialize()
+
+  const logs: string[] = []
+  const originalLog = console.log
+  console.log = (...args: unknown[]) => {
+    logs.push(args.map(String).join(" "))
+  }
+
+  try {
+    await runStatus({ command: "status", json }, service)
+  } finally {
+    console.log = originalLog
+  }
+
+  return logs
+}
+
+describe("CLI status command", () => {
+  test("should print a table with a header row", async () => {
+    const logs = await captureStatus(false)
+    const lines = logs.join("\n").split("\n")
+
+    expect(lines[0]).toContain("NAME")
+    expect(lines[0]).toContain("BRANCH")
+    expect(lines[0]).toContain("STAGED")
+    expect(lines[0]).toContain("UNTRACKED")
+    expect(lines[0]).toContain("STASH")
+    expect(lines[0]).toContain("LAST COMMIT")
+    expect(lines.length).toBeGreaterThan(1)
+  })
+
+  test("should mark the main worktree in the table", async () => {
+    const logs = await captureStatus(false)
+    expect(logs.join("\n")).toContain("(main)")
+  })
+
+  test("should output the documented JSON shape", async () => {
+    const logs = await captureStatus(true)
+    const parsed = JSON.parse(logs.join("\n"))
+
+    expect(Array.isArray(parsed)).toBe(true)
+    expect(parsed.length).toBeGreaterThan(0)
+
+    for (const entry of parsed) {
+      expect(typeof entry.name).toBe("string")
+      expect(typeof entry.path).toBe("string")
+      expect(typeof entry.branch).toBe("string")
+      expect(typeof entry.commit).toBe("string")
+      expect(typeof entry.isMain).toBe("boolean")
+      expect(typeof entry.isClean).toBe("boolean")
+      expect(typeof entry.changes.staged).toBe("number")
+      expect(typeof entry.changes.unstaged).toBe("number")
+      expect(typeof entry.changes.untracked).toBe("number")
+      expect(entry.ahead === null || typeof entry.ahead === "number").toBe(true)
+      expect(entry.behind === null || typeof entry.behind === "number").toBe(true)
+      expect(entry).toHaveProperty("compareBranch")
+      expect(typeof entry.stashCount).toBe("number")
+      expect(entry).toHaveProperty("lastCommitDate")
+    }
+  })
+
+  test("should report an ISO date for the main worktree's last commit", async () => {
+    const logs = await captureStatus(true)
+    const parsed = JSON.parse(logs.join("\n"))
+    const main = parsed.find((entry: { isMain: boolean }) => entry.isMain)
+
+    expect(main).toBeDefined()
+    expect(Number.isNaN(new Date(main.lastCommitDate).getTime())).toBe(false)
+  })
+})
@@ -0,0 +1,131 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { describe, expect, test } from "bun:test"
+import { runSync } from "../../../src/cli/commands/sync.js"
+import type { CliArgs } from "../../../src/cli/types.js"
+import { WorktreeService } from "../../../src/services/worktree-service.js"
+import type { WorktreeSyncResult } from "../../../src/types/index.js"
+import { ValidationError } from "../../../src/utils/error-handlers.js"
+import { git, initRepo } from "../../helpers/git.js"
+
+describe("CLI sync command", () => {
+  const setup = async () => {
+    const sandbox = initRepo(mkdtempSync(join(tmpdir(), "branchlet-sync-")))
+    const worktreePath = `${sandbox}-wt`
+    git(`worktree add -q -b synced ${worktreePath}`, sandbox)
+    writeFileSync(
+      join(sandbox, ".branchlet.json"),
+      JSON.stringify({ worktreeCopyPatterns: [".env*"] })
+    )
+    writeFileSync(join(sandbox, ".env"), "A=1\nB=2\n")
+
+    const service = new WorktreeService(sandbox)
+    await service.initialize()
+    await service.copyFilesToWorktree(worktreePath, sandbox)
+
+    const cleanup = () => {
+      rmSync(sandbox, { recursive: true, force: true })
+      rmSync(worktreePath, { recursive: true, force: true })
+    }
+    return { sandbox, worktreePath, service, cleanup }
+  }
+
+  const sync = async (args: Partial<CliArgs>, service: WorktreeService) => {
+    const logs: string[] = []
+    const originalLog = console.log
+    console.log = (...values: unknown[]) => {
+      logs.push(values.map(String).join(" "))
+    }
+    try {
+      await runSync({ command: "sync", json: true, ...args }, service)
+    } finally {
+      console.log = originalLog
+    }
+    return JSON.parse(logs.join("\n")) as WorktreeSyncResult[]
+  }
+
+  test("should update files that changed in the source", async () => {
+    const { sandbox, worktreePath, service, cleanup } = await setup()
+    try {
+      writeFileSync(join(sandbox, ".env"), "A=1\nB=3\nC=4\n")
+      writeFileSync(join(sandbox, ".env.test"), "TEST=1\n")
+
+      const [result] = await sync({ to: worktreePath }, service)
+
+      expect(result?.changes).toEqual([
+        { path: ".env", status: "updated", linesAdded: 2, linesRemoved: 1 },
+        { path: ".env.test", status: "added" },
+      ])
+      expect(readFileSync(join(worktreePath, ".env"), "utf-8")).toBe("A=1\nB=3\nC=4\n")
+      expect(readFileSync(join(worktreePath, ".env.test"), "utf-8")).toBe("TEST=1\n")
+    } finally {
+      cleanup()
+    }
+  })
+
+  test("should skip files edited in the target unless --overwrite", async () => {
+    const { sandbox, worktreePath, service, cleanup } = await setup()
+    try {
+      writeFileSync(join(sandbox, ".env"), "A=1\nB=3\n")
+      writeFileSync(join(worktreePath, ".env"), "A=1\nB=2\nLOCAL=1\n")
+
+      const [skipped] = await sync({ all: true }, service)
+      expect(skipped?.changes.map((change) => change.status)).toEqual(["skipped"])
+      expect(readFileSync(join(worktreePath, ".env"), "utf-8")).toBe("A=1\nB=2\nLOCAL=1\n")
+
+      const [overwritten] = await sync({ all: true, overwrite: true }, service)
+      expect(overwritten?.changes.map((change) => change.status)).toEqual(["overwritten"])
+      expect(readFileSync(join(worktreePath, ".env"), "utf-8")).toBe("A=1\nB=3\n")
+
+      const [again] = await sync({ all: true }, service)
+      expect(again?.changes).toEqual([])
+      expect(again?.unchanged).toBe(1)
+    } finally {
+      cleanup()
+    }
+  })
+
+  test("should not write anything with --dry-run", async () => {
+    const { sandbox, worktreePath, service, cleanup } = await setup()
+    try {
+      writeFileSync(join(sandbox, ".env"), "A=2\n")
+
+      const [result] = await sync({ to: worktreePath, dryRun: true }, service)
+
+      expect(result?.changes.map((change) => change.status)).toEqual(["updated"])
+      expect(readFileSync(join(worktreePath, ".env"), "utf-8")).toBe("A=1\nB=2\n")
+    } finally {
+      cleanup()
+    }
+  })
+
+  test("should default to the innermost worktree containing the working directory", async () => {
+    const { sandbox, worktreePath, service, cleanup } = await setup()
+    const nestedPath = join(worktreePath, "nested")
+    const originalCwd = process.cwd()
+    try {
+      git(`worktree add -q -b nested ${nestedPath}`, sandbox)
+      process.chdir(nestedPath)
+
+      const results = await sync({}, service)
+
+      expect(results.map((result) => result.target)).toEqual([nestedPath])
+      expect(readFileSync(join(nestedPath, ".env"), "utf-8")).toBe("A=1\nB=2\n")
+    } finally {
+      process.chdir(originalCwd)
+      cleanup()
+    }
+  })
+
+  test("should reject --to combined with --all", async () => {
+    const { worktreePath, service, cleanup } = await setup()
+    try {
+      await expect(
+        runSync({ command: "sync", to: worktreePath, all: true }, service)
+      ).rejects.toBeInstanceOf(ValidationError)
+    } finally {
+      cleanup()
+    }
+  })
+})
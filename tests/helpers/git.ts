@@ -0,0 +1,23 @@
+import { execSync } from "node:child_process"
+import { mkdirSync } from "node:fs"
+
+/**
+ * Run a git command in `cwd` with a fixed identity, so commits work without a
+ * user config. Returns the trimmed stdout; stderr is discarded.
+ */
+export function git(cmd: string, cwd: string, env: Record<string, string> = {}): string {
+  return execSync(`git -c user.name=test -c user.email=test@example.com ${cmd}`, {
+    cwd,
+    encoding: "utf-8",
+    stdio: ["ignore", "pipe", "ignore"],
+    env: { ...process.env, ...env },
+  }).trim()
+}
+
+/** Create `dir` if needed and make it a repository on `main` with one empty commit */
+export function initRepo(dir: string): string {
+  mkdirSync(dir, { recursive: true })
+  git("init -q -b main", dir)
+  git("commit -q --allow-empty -m init", dir)
+  return dir
+}
@@ -11,6 +11,16 @@ describe("config-schema", () => {
         postCreateCmd: ["npm install"],
         terminalCommand: "code $WORKTREE_PATH",
         deleteBranchWithWorktree: false,
+        postCreateContinueOnError: true,
+        postCreateTimeoutSeconds: 0,
+        preDeleteCmd: [],
+        postDeleteCmd: [],
+        worktreeCopyStrategy: "copy",
+        worktreeCopyScope: "all",
+        pullRequestRemote: "origin",
+        profiles: {},
+        branchNameTemplate: "",
+        branchNamePattern: "",
       }
 
       const result = validateConfig(validConfig)
@@ -44,6 +54,102 @@ describe("config-schema", () => {
       expect(result.error).toBeDefined()
     })
 
+    test("should accept post-create commands as strings or objects", () => {
+      const result = validateConfig({
+        postCreateCmd: [
+          "npm ci",
+          { run: "npm run build", continueOnError: false, timeoutSeconds: 300 },
+          { run: "make", cwd: "native", env: { CI: "1" } },
+        ],
+      })
+      expect(result.success).toBe(true)
+    })
+
+    test("should reject malformed post-create command objects", () => {
+      expect(validateConfig({ postCreateCmd: [{ continueOnError: true }] }).success).toBe(false)
+      expect(validateConfig({ postCreateCmd: [{ run: "x", timeout: 5 }] }).success).toBe(false)
+      expect(validateConfig({ postCreateTimeoutSeconds: -1 }).success).toBe(false)
+    })
+
+    test("should validate post-create command needs", () => {
+      expect(
+        validateConfig({
+          postCreateCmd: [
+            { run: "bun install", name: "install" },
+            { run: "bun run codegen", needs: ["install"] },
+          ],
+        }).success
+      ).toBe(true)
+
+      const result = validateConfig({ postCreateCmd: [{ run: "codegen", needs: ["install"] }] })
+      expect(result.success).toBe(false)
+      expect(result.error).toContain("unknown command 'install'")
+    })
+
+    test("should defer needs checks for lists that inherit commands", () => {
+      const result = validateConfig({
+        postCreateCmd: ["...", { run: "codegen", needs: ["install"] }],
+      })
+      expect(result.success).toBe(true)
+    })
+
+    test("should accept named profiles", () => {
+      const result = validateConfig({
+        profiles: {
+          review: { description: "Read-only review", postCreateCmd: [] },
+          hotfix: { sourceBranch: "release/*", branchPrefix: "hotfix/" },
+          feature: {
+            worktreeCopyPatterns: ["...", ".envrc"],
+            worktreePathTemplate: "$BASE_PATH-features",
+            postCreateCmd: ["...", "bun run build"],
+          },
+        },
+      })
+      expect(result.success).toBe(true)
+    })
+
+    test("should reject an invalid branchNamePattern", () => {
+      expect(validateConfig({ branchNamePattern: "^(feat|fix)/" }).success).toBe(true)
+
+      const result = validateConfig({ branchNamePattern: "^(feat|fix/" })
+      expect(result.success).toBe(false)
+      expect(result.error).toContain("branchNamePattern: Invalid regular expression")
+    })
+
+    test("should report template errors with their key", () => {
+      const pathResult = validateConfig({ worktreePathTemplate: "$BASE_PATH_X" })
+      expect(pathResult.success).toBe(false)
+      expect(pathResult.error).toContain("worktreePathTemplate: unknown variable $BASE_PATH_X")
+
+      const filterResult = validateConfig({ terminalCommand: "code ${WORKTREE_PATH|camel}" })
+      expect(filterResult.error).toContain("terminalCommand: unknown filter 'camel'")
+
+      const commandResult = validateConfig({ postCreateCmd: ["echo ${HOME|slug}"] })
+      expect(commandResult.error).toContain("postCreateCmd.0: unknown variable 'HOME'")
+
+      const profileResult = validateConfig({
+        profiles: { review: { worktreePathTemplate: "${BASE_PATH" } },
+      })
+      expect(profileResult.error).toContain(
+        "profiles.review.worktreePathTemplate: unclosed ${ at position 1"
+      )
+    })
+
+    test("should accept templates with shell syntax in commands", () => {
+      const result = validateConfig({
+        worktreePathTemplate: "${BASE_PATH}.worktrees/${DATE|yyyy-mm}",
+        postCreateCmd: ["cd ${REPO_ROOT} && echo ${PWD##*/} $HOME"],
+        preDeleteCmd: [{ run: "echo $BRANCH_NAME", env: { TAG: "${BRANCH_NAME|slug}" } }],
+      })
+      expect(result.success).toBe(true)
+    })
+
+    test("should reject unknown profile fields", () => {
+      const result = validateConfig({ profiles: { review: { postCreate: [] } } })
+      expect(result.success).toBe(false)
+      expect(result.error).toContain("profiles.review")
+    })
+
     test("should handle empty arrays", () => {
       const configWithEmptyArrays = {
         worktreeCopyPatterns: [],
@@ -102,6 +208,16 @@ describe("config-schema", () => {
           ],
           terminalCommand: "code $WORKTREE_PATH",
           deleteBranchWithWorktree: true,
+          postCreateContinueOnError: true,
+          postCreateTimeoutSeconds: 0,
+          preDeleteCmd: [],
+          postDeleteCmd: [],
+          worktreeCopyStrategy: "copy",
+          worktreeCopyScope: "all",
+          pullRequestRemote: "origin",
+          profiles: {},
+          branchNameTemplate: "",
+          branchNamePattern: "",
         },
         {
           worktreeCopyPatterns: ["Cargo.toml", "Cargo.lock", "*.md"],
@@ -110,6 +226,16 @@ describe("config-schema", () => {
           postCreateCmd: ["cargo check", "cargo test"],
           terminalCommand: "cd $WORKTREE_PATH && zsh",
           deleteBranchWithWorktree: false,
+          postCreateContinueOnError: true,
+          postCreateTimeoutSeconds: 0,
+          preDeleteCmd: [],
+          postDeleteCmd: [],
+          worktreeCopyStrategy: "copy",
+          worktreeCopyScope: "all",
+          pullRequestRemote: "origin",
+          profiles: {},
+          branchNameTemplate: "",
+          branchNamePattern: "",
         },
         {
           worktreeCopyPatterns: ["go.mod", "go.sum", "*.md", "Makefile"],
@@ -118,6 +244,16 @@ describe("config-schema", () => {
           postCreateCmd: ["go mod download", "make build"],
           terminalCommand: "tmux new-session -c $WORKTREE_PATH",
           deleteBranchWithWorktree: true,
+          postCreateContinueOnError: true,
+          postCreateTimeoutSeconds: 0,
+          preDeleteCmd: [],
+          postDeleteCmd: [],
+          worktreeCopyStrategy: "copy",
+          worktreeCopyScope: "all",
+          pullRequestRemote: "origin",
+          profiles: {},
+          branchNameTemplate: "",
+          branchNamePattern: "",
         },
       ]
 
@@ -138,6 +274,16 @@ describe("config-schema", () => {
         postCreateCmd: [],
         terminalCommand: "",
         deleteBranchWithWorktree: false,
+        postCreateContinueOnError: true,
+        postCreateTimeoutSeconds: 0,
+        preDeleteCmd: [],
+        postDeleteCmd: [],
+        worktreeCopyStrategy: "copy",
+        worktreeCopyScope: "all",
+        pullRequestRemote: "origin",
+        profiles: {},
+        branchNameTemplate: "",
+        branchNamePattern: "",
       }
 
       const result = WorktreeConfigSchema.parse(validConfig)
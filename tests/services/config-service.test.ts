@@ -1,5 +1,8 @@
-import { describe, expect, test } from "bun:test"
-import { ConfigService } from "../../src/services/config-service.js"
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { ConfigService, getConfigEnvVarName } from "../../src/services/config-service.js"
 import { ConfigError } from "../../src/utils/error-handlers.js"
 
 describe("ConfigService", () => {
@@ -187,4 +190,203 @@ describe("ConfigService", () => {
       }
     })
   })
-})
\ No newline at end of file
+  describe("layered config", () => {
+    let projectDir: string
+
+    const writeJson = (name: string, content: unknown) =>
+      writeFileSync(join(projectDir, name), JSON.stringify(content))
+
+    beforeEach(() => {
+      projectDir = mkdtempSync(join(tmpdir(), "branchlet-config-"))
+    })
+
+    afterEach(() => {
+      rmSync(projectDir, { recursive: true, force: true })
+      delete process.env.BRANCHLET_TERMINAL_COMMAND
+      delete process.env.BRANCHLET_WORKTREE_COPY_PATTERNS
+      delete process.env.BRANCHLET_DELETE_BRANCH_WITH_WORKTREE
+      delete process.env.BRANCHLET_POST_CREATE_TIMEOUT_SECONDS
+      delete process.env.BRANCHLET_PROFILES
+    })
+
+    test("should only override keys set by the repo config", async () => {
+      const globalConfig = await new ConfigService().loadConfig(projectDir)
+      writeJson(".branchlet.json", { terminalCommand: "code ." })
+
+      const service = new ConfigService()
+      const config = await service.loadConfig(projectDir)
+
+      expect(config.terminalCommand).toBe("code .")
+      expect(config.worktreePathTemplate).toBe(globalConfig.worktreePathTemplate)
+      expect(service.getConfigPath()).toBe(join(projectDir, ".branchlet.json"))
+    })
+
+    test("should apply .branchlet.local.json over the repo config", async () => {
+      writeJson(".branchlet.json", { terminalCommand: "code .", postCreateCmd: ["npm ci"] })
+      writeJson(".branchlet.local.json", { terminalCommand: "zed ." })
+
+      const config = await new ConfigService().loadConfig(projectDir)
+
+      expect(config.terminalCommand).toBe("zed .")
+      expect(config.postCreateCmd).toEqual(["npm ci"])
+    })
+
+    test("should splice inherited array entries at the marker", async () => {
+      writeJson(".branchlet.json", { postCreateCmd: ["npm ci"] })
+      writeJson(".branchlet.local.json", { postCreateCmd: ["echo first", "...", "echo last"] })
+
+      const config = await new ConfigService().loadConfig(projectDir)
+
+      expect(config.postCreateCmd).toEqual(["echo first", "npm ci", "echo last"])
+    })
+
+    test("should resolve needs against inherited commands after merging", async () => {
+      writeJson(".branchlet.json", { postCreateCmd: [{ run: "bun install", name: "install" }] })
+      writeJson(".branchlet.local.json", {
+        postCreateCmd: ["...", { run: "bun run codegen", needs: ["install"] }],
+      })
+
+      const config = await new ConfigService().loadConfig(projectDir)
+      expect(config.postCreateCmd).toHaveLength(2)
+
+      writeJson(".branchlet.local.json", { postCreateCmd: [{ run: "x", needs: ["install"] }] })
+      await expect(new ConfigService().loadConfig(projectDir)).rejects.toBeInstanceOf(ConfigError)
+    })
+
+    test("should apply environment variables last", async () => {
+      writeJson(".branchlet.local.json", {
+        terminalCommand: "zed .",
+        worktreeCopyPatterns: [".env"],
+      })
+      process.env.BRANCHLET_TERMINAL_COMMAND = "cursor ."
+      process.env.BRANCHLET_WORKTREE_COPY_PATTERNS = "...,.idea/**"
+      process.env.BRANCHLET_DELETE_BRANCH_WITH_WORKTREE = "true"
+
+      const config = await new ConfigService().loadConfig(projectDir)
+
+      expect(config.terminalCommand).toBe("cursor .")
+      expect(config.worktreeCopyPatterns).toEqual([".env", ".idea/**"])
+      expect(config.deleteBranchWithWorktree).toBe(true)
+    })
+
+    test("should reject invalid boolean environment values", async () => {
+      process.env.BRANCHLET_DELETE_BRANCH_WITH_WORKTREE = "yes"
+
+      await expect(new ConfigService().loadConfig(projectDir)).rejects.toBeInstanceOf(ConfigError)
+    })
+
+    test("should parse numeric environment values", async () => {
+      process.env.BRANCHLET_POST_CREATE_TIMEOUT_SECONDS = "120"
+      expect((await new ConfigService().loadConfig(projectDir)).postCreateTimeoutSeconds).toBe(120)
+
+      process.env.BRANCHLET_POST_CREATE_TIMEOUT_SECONDS = "soon"
+      await expect(new ConfigService().loadConfig(projectDir)).rejects.toBeInstanceOf(ConfigError)
+    })
+
+    test("should merge profiles from each layer by name", async () => {
+      writeJson(".branchlet.json", {
+        postCreateCmd: ["bun install"],
+        profiles: { review: { postCreateCmd: [] }, feature: { postCreateCmd: ["..."] } },
+      })
+      writeJson(".branchlet.local.json", {
+        profiles: { feature: { postCreateCmd: ["...", "bun run dev"] } },
+      })
+
+      const service = new ConfigService()
+      await service.loadConfig(projectDir)
+
+      expect(service.getProfileNames()).toEqual(["review", "feature"])
+      expect(service.getProfileConfig("review").postCreateCmd).toEqual([])
+      expect(service.getProfileConfig("feature").postCreateCmd).toEqual([
+        "bun install",
+        "bun run dev",
+      ])
+      expect(service.explainConfig().values.find((v) => v.key === "profiles")?.sources).toEqual([
+        "repo",
+        "local",
+      ])
+    })
+
+    test("should reject unknown profiles with the available names", async () => {
+      writeJson(".branchlet.json", { profiles: { review: {} } })
+
+      const service = new ConfigService()
+      await service.loadConfig(projectDir)
+
+      expect(() => service.getProfile("hotfix")).toThrow(
+        "Unknown profile 'hotfix'. Available profiles: review"
+      )
+    })
+
+    test("should parse profiles from a JSON environment value", async () => {
+      process.env.BRANCHLET_PROFILES = JSON.stringify({ ci: { postCreateCmd: [] } })
+      expect((await new ConfigService().loadConfig(projectDir)).profiles).toEqual({
+        ci: { postCreateCmd: [] },
+      })
+
+      process.env.BRANCHLET_PROFILES = "ci"
+      await expect(new ConfigService().loadConfig(projectDir)).rejects.toBeInstanceOf(ConfigError)
+    })
+
+    test("should report an invalid layer with its path", async () => {
+      writeJson(".branchlet.local.json", { terminalCommand: 42 })
+
+      try {
+        await new ConfigService().loadConfig(projectDir)
+        expect(true).toBe(false) // Should not reach here
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConfigError)
+        expect((error as ConfigError).configPath).toBe(join(projectDir, ".branchlet.local.json"))
+      }
+    })
+
+    test("should explain which layers produced each value", async () => {
+      writeJson(".branchlet.json", { worktreeCopyPatterns: ["...", ".idea/**"] })
+      writeJson(".branchlet.local.json", { terminalCommand: "zed ." })
+
+      const service = new ConfigService()
+      await service.loadConfig(projectDir)
+      const { layers, values } = service.explainConfig()
+
+      expect(layers.map((layer) => layer.name)).toEqual([
+        "default",
+        "global",
+        "repo",
+        "local",
+        "env",
+      ])
+      expect(layers.find((layer) => layer.name === "env")?.found).toBe(false)
+      expect(values.find((v) => v.key === "terminalCommand")?.sources).toEqual(["local"])
+      expect(values.find((v) => v.key === "worktreeCopyPatterns")?.sources).toEqual([
+        "global",
+        "repo",
+      ])
+    })
+
+    test("should save partial layer content without materializing defaults", async () => {
+      const service = new ConfigService(projectDir)
+      await service.loadConfig()
+
+      const path = await service.getScopePath("repo")
+      await service.saveConfig({ terminalCommand: "zed ." }, path)
+
+      expect(await service.readConfigFile(path)).toEqual({ terminalCommand: "zed ." })
+      expect(service.getConfig().terminalCommand).toBe("zed .")
+      expect(await service.getScopePath()).toBe(path)
+    })
+
+    test("should collect per-layer errors in validateLayers", async () => {
+      writeJson(".branchlet.json", { worktreeCopyPatterns: "not-a-list" })
+
+      const results = await new ConfigService(projectDir).validateLayers()
+
+      expect(results.find((r) => r.name === "repo")?.error).toContain("worktreeCopyPatterns")
+      expect(results.find((r) => r.name === "local")).toMatchObject({ found: false })
+    })
+
+    test("should derive environment variable names from config keys", () => {
+      expect(getConfigEnvVarName("worktreeCopyPatterns")).toBe("BRANCHLET_WORKTREE_COPY_PATTERNS")
+      expect(getConfigEnvVarName("postCreateCmd")).toBe("BRANCHLET_POST_CREATE_CMD")
+    })
+  })
+})
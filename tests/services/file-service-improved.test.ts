@@ -1,7 +1,28 @@
+import {
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readlinkSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
 import { describe, expect, test } from "bun:test"
-import { copyFiles, executePostCreateCommands, openTerminal } from "../../src/services/file-service.js"
+import {
+  copyFiles,
+  executePostCreateCommands,
+  openTerminal,
+  previewCopyFiles,
+  syncFiles,
+} from "../../src/services/file-service.js"
 import type { WorktreeConfig } from "../../src/schemas/config-schema.js"
 import type { TemplateVariables } from "../../src/types/index.js"
+import { ConfigError } from "../../src/utils/error-handlers.js"
+import { git } from "../helpers/git.js"
 
 describe("improved file-service", () => {
   describe("copyFiles with .env.* support", () => {
@@ -235,6 +256,580 @@ describe("improved file-service", () => {
     })
   })
 
+  describe("copyFiles strategies", () => {
+    const baseConfig = {
+      worktreeCopyIgnores: ["**/node_modules/**"],
+      worktreeCopyScope: "all",
+      worktreePathTemplate: "$BASE_PATH.worktree",
+      postCreateCmd: [],
+      terminalCommand: "",
+    }
+
+    const withSandbox = async (run: (source: string, target: string) => Promise<void>) => {
+      const root = mkdtempSync(join(tmpdir(), "branchlet-strategy-"))
+      const source = join(root, "source")
+      const target = join(root, "target")
+      mkdirSync(join(source, ".venv", "lib"), { recursive: true })
+      mkdirSync(join(source, "data"), { recursive: true })
+      writeFileSync(join(source, ".env"), "SECRET=1")
+      writeFileSync(join(source, ".venv", "lib", "site.py"), "print('venv')")
+      writeFileSync(join(source, "data", "fixture.bin"), "fixture")
+      try {
+        await run(source, target)
+      } finally {
+        rmSync(root, { recursive: true, force: true })
+      }
+    }
+
+    test("should place each pattern with its own strategy", async () => {
+      await withSandbox(async (source, target) => {
+        const result = await copyFiles(source, target, {
+          ...baseConfig,
+          worktreeCopyPatterns: [
+            ".env*",
+            { pattern: ".venv", strategy: "symlink" },
+            { pattern: "data/*.bin", strategy: "hardlink" },
+          ],
+          worktreeCopyStrategy: "copy",
+        } as WorktreeConfig)
+
+        expect(result.errors).toEqual([])
+        expect(lstatSync(join(target, ".venv")).isSymbolicLink()).toBe(true)
+        expect(readlinkSync(join(target, ".venv"))).toBe(join(source, ".venv"))
+        expect(statSync(join(target, "data", "fixture.bin")).ino).toBe(
+          statSync(join(source, "data", "fixture.bin")).ino
+        )
+        expect(lstatSync(join(target, ".env")).isSymbolicLink()).toBe(false)
+        expect(statSync(join(target, ".env")).ino).not.toBe(statSync(join(source, ".env")).ino)
+      })
+    })
+
+    test("should use worktreeCopyStrategy for plain patterns", async () => {
+      await withSandbox(async (source, target) => {
+        await copyFiles(source, target, {
+          ...baseConfig,
+          worktreeCopyPatterns: ["data/*.bin"],
+          worktreeCopyStrategy: "symlink",
+        } as WorktreeConfig)
+
+        expect(lstatSync(join(target, "data", "fixture.bin")).isSymbolicLink()).toBe(true)
+      })
+    })
+
+    test("should let the first matching pattern decide", async () => {
+      await withSandbox(async (source, target) => {
+        await copyFiles(source, target, {
+          ...baseConfig,
+          worktreeCopyPatterns: [
+            { pattern: ".env", strategy: "copy" },
+            { pattern: ".env*", strategy: "symlink" },
+          ],
+          worktreeCopyStrategy: "copy",
+        } as WorktreeConfig)
+
+        expect(lstatSync(join(target, ".env")).isSymbolicLink()).toBe(false)
+      })
+    })
+
+    test("should replace files the checkout already created when linking", async () => {
+      await withSandbox(async (source, target) => {
+        mkdirSync(join(target, "data"), { recursive: true })
+        writeFileSync(join(target, "data", "fixture.bin"), "tracked")
+
+        const result = await copyFiles(source, target, {
+          ...baseConfig,
+          worktreeCopyPatterns: [{ pattern: "data", strategy: "symlink" }],
+          worktreeCopyStrategy: "copy",
+        } as WorktreeConfig)
+
+        expect(result.errors).toEqual([])
+        // The existing directory is kept and its files are linked one by one
+        expect(lstatSync(join(target, "data")).isSymbolicLink()).toBe(false)
+        expect(lstatSync(join(target, "data", "fixture.bin")).isSymbolicLink()).toBe(true)
+      })
+    })
+
+    test("should fall back to a copy when reflinks are unsupported", async () => {
+      await withSandbox(async (source, target) => {
+        const result = await copyFiles(source, target, {
+          ...baseConfig,
+          worktreeCopyPatterns: [{ pattern: ".venv/**", strategy: "reflink" }],
+          worktreeCopyStrategy: "copy",
+        } as WorktreeConfig)
+
+        expect(result.errors).toEqual([])
+        expect(readFileSync(join(target, ".venv", "lib", "site.py"), "utf-8")).toBe("print('venv')")
+      })
+    })
+  })
+
+  describe("previewCopyFiles", () => {
+    const withSource = async (run: (source: string) => Promise<void>) => {
+      const source = mkdtempSync(join(tmpdir(), "branchlet-preview-"))
+      mkdirSync(join(source, ".vscode", "cache"), { recursive: true })
+      mkdirSync(join(source, "node_modules", "pkg"), { recursive: true })
+      writeFileSync(join(source, ".env"), "SECRET=1")
+      writeFileSync(join(source, ".vscode", "settings.json"), "{}")
+      writeFileSync(join(source, ".vscode", "cache", "state.bin"), "cached")
+      writeFileSync(join(source, "node_modules", "pkg", ".env"), "IGNORED=1")
+      try {
+        await run(source)
+      } finally {
+        rmSync(source, { recursive: true, force: true })
+      }
+    }
+
+    const config = {
+      worktreeCopyPatterns: [{ pattern: ".vscode", strategy: "symlink" }, ".env*", "**/*.json"],
+      worktreeCopyStrategy: "copy",
+      worktreeCopyScope: "all",
+      worktreeCopyIgnores: ["**/node_modules/**", ".vscode/cache"],
+      worktreePathTemplate: "$BASE_PATH.worktree",
+      postCreateCmd: [],
+      terminalCommand: "",
+    } as WorktreeConfig
+
+    test("should list files with their size, strategy and pattern", async () => {
+      await withSource(async (source) => {
+        const preview = await previewCopyFiles(source, config)
+
+        // The symlinked directory is linked whole, ignored contents included
+        expect(preview.files).toEqual([
+          { path: ".env", pattern: ".env*", strategy: "copy", size: 8 },
+          { path: ".vscode", pattern: ".vscode", strategy: "symlink", size: 8 },
+        ])
+        expect(preview.totalSize).toBe(16)
+        expect(preview.excluded.map((exclusion) => exclusion.path)).not.toContain(".vscode/cache")
+      })
+    })
+
+    test("should list the files of a symlinked directory when asked to", async () => {
+      await withSource(async (source) => {
+        const preview = await previewCopyFiles(source, config, {
+          expandSymlinkedDirectories: true,
+        })
+
+        expect(preview.files.map((file) => file.path)).toEqual([".env", ".vscode/settings.json"])
+      })
+    })
+
+    test("should report which ignore rule excluded each path", async () => {
+      await withSource(async (source) => {
+        const preview = await previewCopyFiles(source, {
+          ...config,
+          worktreeCopyPatterns: [".env*", ".vscode", "**/*.json"],
+        })
+
+        // node_modules is pruned without being searched, and .env* never matched it
+        expect(preview.excluded).toEqual([
+          { path: ".vscode/cache", pattern: ".vscode", ignore: ".vscode/cache" },
+        ])
+      })
+    })
+
+    test("should match what copyFiles copies", async () => {
+      await withSource(async (source) => {
+        const target = mkdtempSync(join(tmpdir(), "branchlet-preview-target-"))
+        try {
+          const copyConfig = { ...config, worktreeCopyPatterns: [".env*", ".vscode"] }
+          const preview = await previewCopyFiles(source, copyConfig)
+          const result = await copyFiles(source, target, copyConfig)
+          expect(preview.files.map((file) => file.path)).toEqual(result.copied.sort())
+        } finally {
+          rmSync(target, { recursive: true, force: true })
+        }
+      })
+    })
+  })
+
+  describe("copy scope and .branchletcopy", () => {
+    const withRepo = async (run: (source: string, target: string) => Promise<void>) => {
+      const root = mkdtempSync(join(tmpdir(), "branchlet-copy-scope-"))
+      const source = join(root, "source")
+      const target = join(root, "target")
+      mkdirSync(join(source, "node_modules", "pkg"), { recursive: true })
+      mkdirSync(join(source, "config"), { recursive: true })
+      writeFileSync(join(source, ".gitignore"), ".env*\nnode_modules/\nconfig/\n")
+      writeFileSync(join(source, ".env"), "A=1")
+      writeFileSync(join(source, ".env.production"), "PROD=1")
+      writeFileSync(join(source, ".env.example"), "A=")
+      writeFileSync(join(source, "node_modules", "pkg", ".env"), "PKG=1")
+      writeFileSync(join(source, "config", "local.json"), "{}")
+      writeFileSync(join(source, "config", "secret.json"), "{}")
+      writeFileSync(join(source, "notes.txt"), "untracked")
+      git("init -q", source)
+      git("add .gitignore", source)
+      git("add -f .env.example", source)
+      try {
+        await run(source, target)
+      } finally {
+        rmSync(root, { recursive: true, force: true })
+      }
+    }
+
+    const config = {
+      worktreeCopyPatterns: [".env*"],
+      worktreeCopyStrategy: "copy",
+      worktreeCopyScope: "ignored",
+      worktreeCopyIgnores: [],
+      worktreePathTemplate: "$BASE_PATH.worktree",
+      postCreateCmd: [],
+      terminalCommand: "",
+    } as WorktreeConfig
+
+    test("should only match git-ignored files without entering ignored directories", async () => {
+      await withRepo(async (source, target) => {
+        const result = await copyFiles(source, target, config)
+
+        expect(result.errors).toEqual([])
+        expect(result.copied.sort()).toEqual([".env", ".env.production"])
+        expect(existsSync(join(target, "node_modules"))).toBe(false)
+      })
+    })
+
+    test("should include untracked files that aren't ignored", async () => {
+      await withRepo(async (source, target) => {
+        const result = await copyFiles(source, target, {
+          ...config,
+          worktreeCopyPatterns: ["*.txt"],
+          worktreeCopyScope: "untracked",
+        })
+
+        expect(result.copied).toEqual(["notes.txt"])
+      })
+    })
+
+    test("should add and exclude paths listed in .branchletcopy", async () => {
+      await withRepo(async (source, target) => {
+        writeFileSync(
+          join(source, ".branchletcopy"),
+          "# per-worktree settings\nconfig/\n!config/secret.json\n!.env.production\n"
+        )
+
+        const result = await copyFiles(source, target, config)
+        expect(result.copied.sort()).toEqual([".env", "config/local.json"])
+
+        const preview = await previewCopyFiles(source, config)
+        expect(preview.files.find((file) => file.path === "config/local.json")?.pattern).toBe(
+          ".branchletcopy: config/"
+        )
+        expect(preview.excluded).toEqual([
+          { path: ".env.production", pattern: ".env*", ignore: ".branchletcopy: !.env.production" },
+          {
+            path: "config/secret.json",
+            pattern: ".branchletcopy: config/",
+            ignore: ".branchletcopy: !config/secret.json",
+          },
+        ])
+      })
+    })
+  })
+
+  describe("syncFiles", () => {
+    const config = {
+      worktreeCopyPatterns: [".env*", { pattern: "shared.txt", strategy: "hardlink" }],
+      worktreeCopyStrategy: "copy",
+      worktreeCopyScope: "all",
+      worktreeCopyIgnores: [],
+      worktreePathTemplate: "$BASE_PATH.worktree",
+      postCreateCmd: [],
+      terminalCommand: "",
+    } as WorktreeConfig
+
+    const withCheckouts = async (run: (source: string, target: string) => Promise<void>) => {
+      const root = mkdtempSync(join(tmpdir(), "branchlet-sync-files-"))
+      const source = join(root, "source")
+      const target = join(root, "target")
+      mkdirSync(source)
+      mkdirSync(target)
+      try {
+        await run(source, target)
+      } finally {
+        rmSync(root, { recursive: true, force: true })
+      }
+    }
+
+    test("should treat differing files without a record as edited locally", async () => {
+      await withCheckouts(async (source, target) => {
+        writeFileSync(join(source, ".env"), "A=2")
+        writeFileSync(join(target, ".env"), "A=1")
+
+        const result = await syncFiles(source, target, config)
+
+        expect(result.changes).toEqual([
+          { path: ".env", status: "skipped", linesAdded: 1, linesRemoved: 1 },
+        ])
+        expect(result.recorded).toEqual({})
+        expect(readFileSync(join(target, ".env"), "utf-8")).toBe("A=1")
+      })
+    })
+
+    test("should leave linked files alone and record copied ones", async () => {
+      await withCheckouts(async (source, target) => {
+        writeFileSync(join(source, ".env"), "A=1")
+        writeFileSync(join(source, "shared.txt"), "shared")
+
+        const first = await syncFiles(source, target, config)
+        expect(first.changes.map((change) => change.status)).toEqual(["added", "added"])
+        expect(Object.keys(first.recorded).sort()).toEqual([".env", "shared.txt"])
+
+        writeFileSync(join(source, "shared.txt"), "edited in source")
+        const second = await syncFiles(source, target, config, { recorded: first.recorded })
+        expect(second.changes).toEqual([])
+        expect(second.unchanged).toBe(2)
+      })
+    })
+  })
+
+  describe("executePostCreateCommands output streaming", () => {
+    const variables: TemplateVariables = {
+      BASE_PATH: "test",
+      WORKTREE_PATH: "/tmp",
+      BRANCH_NAME: "test",
+      SOURCE_BRANCH: "main",
+    }
+
+    test("should stream stdout and stderr chunks as they arrive", async () => {
+      const chunks: Array<{ chunk: string; command: string }> = []
+
+      await executePostCreateCommands(["echo out; echo err >&2"], variables, undefined, {
+        onOutput: (chunk, command) => chunks.push({ chunk, command }),
+      })
+
+      const streamed = chunks.map((c) => c.chunk).join("")
+      expect(streamed).toContain("out")
+      expect(streamed).toContain("err")
+      expect(chunks.every((c) => c.command === "echo out; echo err >&2")).toBe(true)
+    })
+
+    test("should write a transcript of every command to the log file", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "branchlet-log-"))
+      const logPath = join(dir, "nested", "post-create.log")
+
+      try {
+        await executePostCreateCommands(["echo $BRANCH_NAME", "exit 3"], variables, undefined, {
+          logPath,
+        })
+
+        const log = readFileSync(logPath, "utf-8")
+        expect(log).toContain("$ echo test\ntest\n[succeeded]")
+        expect(log).toContain("$ exit 3\n[failed]")
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe("executePostCreateCommands failure policies", () => {
+    const variables: TemplateVariables = {
+      BASE_PATH: "test",
+      WORKTREE_PATH: "/tmp",
+      BRANCH_NAME: "feature-x",
+      SOURCE_BRANCH: "main",
+    }
+
+    test("should keep running after a failure by default", async () => {
+      const results = await executePostCreateCommands(["exit 1", "echo after"], variables)
+
+      expect(results.map((r) => r.success)).toEqual([false, true])
+      expect(results[0]?.error).toBe("Exited with code 1")
+    })
+
+    test("should skip remaining commands when continueOnError is off", async () => {
+      const results = await executePostCreateCommands(
+        ["exit 1", "echo after", "echo later"],
+        variables,
+        undefined,
+        { continueOnError: false }
+      )
+
+      expect(results.map((r) => r.skipped ?? false)).toEqual([false, true, true])
+      expect(results.every((r) => !r.success)).toBe(true)
+    })
+
+    test("should let a command override the global policy", async () => {
+      const results = await executePostCreateCommands(
+        [{ run: "exit 1", continueOnError: true }, { run: "exit 2" }, "echo never"],
+        variables,
+        undefined,
+        { continueOnError: false }
+      )
+
+      expect(results.map((r) => r.skipped ?? false)).toEqual([false, false, true])
+    })
+
+    test("should kill a command that exceeds its timeout", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "branchlet-timeout-"))
+      const logPath = join(dir, "post-create.log")
+      const started = Date.now()
+
+      try {
+        const results = await executePostCreateCommands(
+          [{ run: "sleep 10", timeoutSeconds: 1 }],
+          variables,
+          undefined,
+          { logPath }
+        )
+
+        expect(Date.now() - started).toBeLessThan(5000)
+        expect(results[0]?.success).toBe(false)
+        expect(results[0]?.timedOut).toBe(true)
+        expect(readFileSync(logPath, "utf-8")).toContain("[timed out after 1s]")
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+
+    test("should apply the global timeout to commands without their own", async () => {
+      const results = await executePostCreateCommands(["sleep 10"], variables, undefined, {
+        timeoutSeconds: 1,
+      })
+
+      expect(results[0]?.timedOut).toBe(true)
+    })
+
+    test("should forward SIGINT to a timed command's process group", async () => {
+      // Stand in for the CLI's own handling, so the forwarded signal is not re-raised
+      const keepAlive = () => {}
+      process.on("SIGINT", keepAlive)
+      const started = Date.now()
+
+      try {
+        const pending = executePostCreateCommands(
+          [{ run: "sleep 10", timeoutSeconds: 30 }],
+          variables
+        )
+        await new Promise((resolve) => setTimeout(resolve, 200))
+        process.emit("SIGINT", "SIGINT")
+        const results = await pending
+
+        expect(Date.now() - started).toBeLessThan(5000)
+        expect(results[0]?.success).toBe(false)
+        expect(results[0]?.timedOut).toBeUndefined()
+        expect(process.listeners("SIGINT")).toEqual([keepAlive])
+      } finally {
+        process.off("SIGINT", keepAlive)
+      }
+    })
+
+    test("should stop forwarding signals once a timed command ends", async () => {
+      const listeners = ["SIGINT", "SIGTERM", "exit"].map((event) => process.listenerCount(event))
+
+      await executePostCreateCommands([{ run: "true", timeoutSeconds: 5 }], variables)
+
+      expect(["SIGINT", "SIGTERM", "exit"].map((event) => process.listenerCount(event))).toEqual(
+        listeners
+      )
+    })
+
+    test("should run with per-command env and cwd", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "branchlet-cwd-"))
+      mkdirSync(join(dir, "web"))
+
+      try {
+        const results = await executePostCreateCommands(
+          [{ run: 'echo "$GREETING" && pwd', env: { GREETING: "hi $BRANCH_NAME" }, cwd: "web" }],
+          { ...variables, WORKTREE_PATH: dir }
+        )
+
+        expect(results[0]?.output).toContain("hi feature-x")
+        expect(results[0]?.output).toContain(join(dir, "web"))
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe("executePostCreateCommands dependency ordering", () => {
+    const variables: TemplateVariables = {
+      BASE_PATH: "test",
+      WORKTREE_PATH: "/tmp",
+      BRANCH_NAME: "test",
+      SOURCE_BRANCH: "main",
+    }
+
+    test("should run independent commands concurrently", async () => {
+      const started = Date.now()
+
+      const results = await executePostCreateCommands(
+        [
+          { run: "sleep 1", needs: [] },
+          { run: "sleep 1", needs: [] },
+          { run: "sleep 1", needs: [] },
+        ],
+        variables
+      )
+
+      expect(results.every((r) => r.success)).toBe(true)
+      expect(Date.now() - started).toBeLessThan(2500)
+    })
+
+    test("should start a command only after its needs succeed", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "branchlet-needs-"))
+
+      try {
+        const results = await executePostCreateCommands(
+          [
+            { run: "sleep 1 && touch installed", name: "install" },
+            { run: "test -f installed", needs: ["install"] },
+            { run: "test ! -f installed", needs: [] },
+          ],
+          { ...variables, WORKTREE_PATH: dir }
+        )
+
+        expect(results.map((r) => r.success)).toEqual([true, true, true])
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+
+    test("should start a plain command only after every earlier command", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "branchlet-needs-"))
+
+      try {
+        const results = await executePostCreateCommands(
+          ["sleep 1 && touch installed", { run: "echo pull", needs: [] }, "test -f installed"],
+          { ...variables, WORKTREE_PATH: dir }
+        )
+
+        expect(results.map((r) => r.success)).toEqual([true, true, true])
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+
+    test("should skip commands whose needs failed", async () => {
+      const results = await executePostCreateCommands(
+        [
+          { run: "exit 1", name: "install" },
+          { run: "echo codegen", needs: ["install"] },
+          { run: "echo pull", needs: [] },
+        ],
+        variables
+      )
+
+      expect(results[1]?.skipped).toBe(true)
+      expect(results[1]?.error).toContain("exit 1")
+      expect(results[2]?.success).toBe(true)
+    })
+
+    test("should report each command's state changes", async () => {
+      const changes: string[] = []
+
+      await executePostCreateCommands(["echo a", "exit 1"], variables, undefined, {
+        onStatusChange: (index, status) => changes.push(`${index}:${status}`),
+      })
+
+      expect(changes).toEqual(["0:running", "0:done", "1:running", "1:failed"])
+    })
+
+    test("should reject an invalid dependency graph before running anything", async () => {
+      await expect(
+        executePostCreateCommands([{ run: "echo a", needs: ["nope"] }], variables)
+      ).rejects.toBeInstanceOf(ConfigError)
+    })
+  })
+
   describe("openTerminal with improved signature", () => {
     test("should return command in result", async () => {
       const terminalCommand = "echo 'opening terminal in $WORKTREE_PATH'"
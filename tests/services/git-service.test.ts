@@ -1,5 +1,9 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
 import { describe, expect, test } from "bun:test"
 import { GitService } from "../../src/services/git-service.js"
+import { git, initRepo } from "../helpers/git.js"
 
 describe("GitService", () => {
   const gitService = new GitService()
@@ -100,6 +104,38 @@ describe("GitService", () => {
     })
   })
 
+  describe("listWorktrees fast mode", () => {
+    test("should skip status collection in fast mode", async () => {
+      const result = await gitService.listWorktrees({ fast: true })
+      expect(result.length).toBeGreaterThan(0)
+
+      for (const worktree of result) {
+        expect(typeof worktree.path).toBe("string")
+        expect(typeof worktree.branch).toBe("string")
+        expect(worktree.isClean).toBeUndefined()
+        expect(worktree.branchStatus).toBeUndefined()
+      }
+    })
+
+    test("should return the same paths as full mode", async () => {
+      const fast = await gitService.listWorktrees({ fast: true })
+      const full = await gitService.listWorktrees()
+      expect(fast.map((wt) => wt.path)).toEqual(full.map((wt) => wt.path))
+    })
+  })
+
+  describe("getDefaultBranch caching", () => {
+    test("should resolve the same default branch on repeated calls", async () => {
+      const service = new GitService()
+      const [first, second] = await Promise.all([
+        service.getDefaultBranch(),
+        service.getDefaultBranch(),
+      ])
+      expect(first).toBe(second)
+      expect(await service.getDefaultBranch()).toBe(first)
+    })
+  })
+
   describe("listBranches", () => {
     test("should return array of branches", async () => {
       try {
@@ -204,6 +240,17 @@ describe("GitService", () => {
       const result = await tempService.listRemoteBranches()
       expect(result).toEqual([])
     })
+
+    test("should expose the local short name of each remote branch", async () => {
+      try {
+        const result = await gitService.listRemoteBranches()
+        for (const branch of result) {
+          expect(branch.name.endsWith(`/${branch.localName}`)).toBe(true)
+        }
+      } catch (error) {
+        expect(error).toBeInstanceOf(Error)
+      }
+    })
   })
 
   describe("getRecentBranches", () => {
@@ -336,6 +383,45 @@ describe("GitService", () => {
     })
   })
 
+  describe("listMergedBranches", () => {
+    test("should list branches merged into the target, excluding the target itself", async () => {
+      const repo = initRepo(mkdtempSync(join(tmpdir(), "branchlet-merged-")))
+      try {
+        git("checkout -q -b merged-feature", repo)
+        git("commit -q --allow-empty -m feature", repo)
+        git("checkout -q -b open-feature", repo)
+        git("commit -q --allow-empty -m work", repo)
+        git("checkout -q main", repo)
+        git("merge -q --no-ff -m merge merged-feature", repo)
+
+        const merged = await new GitService(repo).listMergedBranches("main")
+        expect(merged).toContain("merged-feature")
+        expect(merged).not.toContain("open-feature")
+        expect(merged).not.toContain("main")
+      } finally {
+        rmSync(repo, { recursive: true, force: true })
+      }
+    })
+
+    test("should leave out branches without commits of their own", async () => {
+      const repo = initRepo(mkdtempSync(join(tmpdir(), "branchlet-merged-")))
+      try {
+        git("branch fresh-at-tip", repo)
+        git("branch fresh-behind", repo)
+        git("commit -q --allow-empty -m advance", repo)
+
+        expect(await new GitService(repo).listMergedBranches("main")).toEqual([])
+      } finally {
+        rmSync(repo, { recursive: true, force: true })
+      }
+    })
+
+    test("should return empty array for non-git directory", async () => {
+      const result = await new GitService("/tmp").listMergedBranches("main")
+      expect(result).toEqual([])
+    })
+  })
+
   describe("branch deletion functionality", () => {
     test("should prevent deletion of current branch", async () => {
       const service = new GitService()
@@ -382,6 +468,60 @@ describe("GitService", () => {
     })
   })
 
+  describe("worktree status details", () => {
+    test("should count staged, unstaged and untracked files", async () => {
+      const repo = mkdtempSync(join(tmpdir(), "branchlet-status-"))
+      try {
+        git("init -q", repo)
+        writeFileSync(join(repo, "tracked.txt"), "one")
+        writeFileSync(join(repo, "staged.txt"), "one")
+        git("add .", repo)
+        git("commit -q -m init", repo)
+
+        writeFileSync(join(repo, "tracked.txt"), "two")
+        writeFileSync(join(repo, "staged.txt"), "two")
+        git("add staged.txt", repo)
+        writeFileSync(join(repo, "new-a.txt"), "a")
+        writeFileSync(join(repo, "new-b.txt"), "b")
+
+        const changes = await new GitService(repo).getWorktreeChanges(repo)
+        expect(changes).toEqual({ staged: 1, unstaged: 1, untracked: 2 })
+      } finally {
+        rmSync(repo, { recursive: true, force: true })
+      }
+    })
+
+    test("should return zero counts for non-git directory", async () => {
+      const changes = await gitService.getWorktreeChanges("/non/existent/path")
+      expect(changes).toEqual({ staged: 0, unstaged: 0, untracked: 0 })
+    })
+
+    test("should return stash counts keyed by branch", async () => {
+      const counts = await gitService.getStashCounts()
+      expect(counts).toBeInstanceOf(Map)
+      for (const [branch, count] of counts) {
+        expect(typeof branch).toBe("string")
+        expect(count).toBeGreaterThan(0)
+      }
+    })
+
+    test("should return null commit date for unknown commit", async () => {
+      const result = await gitService.getCommitDate("0000000000000000000000000000000000000000")
+      expect(result).toBeNull()
+    })
+
+    test("should enrich worktrees with status details", async () => {
+      const result = await gitService.listWorktreesWithStatus()
+      expect(result.length).toBeGreaterThan(0)
+
+      for (const worktree of result) {
+        expect(worktree.changes).toBeDefined()
+        expect(typeof worktree.stashCount).toBe("number")
+      }
+      expect(result[0]?.lastCommitDate).toBeInstanceOf(Date)
+    })
+  })
+
   describe("error handling", () => {
     test("should handle git operations in non-git directory", async () => {
       const tempService = new GitService("/tmp")
@@ -1,9 +1,19 @@
-import { describe, expect, test } from "bun:test"
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import * as os from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, type Mock, spyOn, test } from "bun:test"
 import {
   detectShell,
+  detectShellIntegration,
   findSetupEndIndex,
+  generateFishCompletionsBlock,
   generateSetupBlock,
   getConfigPath,
+  getFishCompletionsPath,
+  inspectSetupBlock,
+  installShellIntegration,
+  removeShellIntegration,
+  SHELL_INTEGRATION_VERSION,
 } from "../../src/services/shell-integration-service.js"
 
 const WRAPPER_SIGNATURE = "# Branchlet setup: added on"
@@ -32,6 +42,31 @@ describe("ShellIntegrationService", () => {
       expect(block).toContain('command branchlet "$@"')
     })
 
+    test("should route cd and switch through the wrapper", () => {
+      const block = generateSetupBlock("bash", "branchlet")
+      expect(block).toContain('elif [ "$1" = "cd" ] || [ "$1" = "switch" ]; then')
+      expect(block).toContain('dir=$(command branchlet "$@") || return')
+    })
+
+    test("should route cd and switch through the fish wrapper", () => {
+      const block = generateSetupBlock("fish", "branchlet")
+      expect(block).toContain("else if contains -- $argv[1] cd switch")
+      expect(block).toContain("set -l dir (command branchlet $argv); or return")
+    })
+
+    test("completions should offer worktree names after cd", () => {
+      const bash = generateSetupBlock("bash", "branchlet")
+      expect(bash).toContain("    cd|switch)")
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: testing shell variable output
+      expect(bash).toContain("[[ ${COMP_CWORD} -eq 2 ]] && _branchlet_complete_values worktrees")
+      expect(generateSetupBlock("zsh", "branchlet")).toContain(
+        "if [[ $line[1] == (cd|switch|move) ]] && (( CURRENT == 2 )); then"
+      )
+      expect(generateFishCompletionsBlock("branchlet")).toContain(
+        '-n "__fish_seen_subcommand_from cd switch" -a "(command branchlet __complete worktrees'
+      )
+    })
+
     test("should use custom command name in wrapper", () => {
       const block = generateSetupBlock("bash", "myapp")
       expect(block).toContain("myapp() {")
@@ -69,6 +104,15 @@ describe("ShellIntegrationService", () => {
       expect(block).not.toContain("_branchlet_completions")
     })
 
+    test("should stamp the integration version in the signature", () => {
+      for (const shell of ["bash", "zsh", "fish"] as const) {
+        const [signature] = lines(generateSetupBlock(shell, "branchlet"))
+        expect(signature).toEndWith(`(integration v${SHELL_INTEGRATION_VERSION})`)
+      }
+      const [completionsSignature] = lines(generateFishCompletionsBlock("branchlet"))
+      expect(completionsSignature).toEndWith(`(integration v${SHELL_INTEGRATION_VERSION})`)
+    })
+
     test("should include date in signature", () => {
       const block = generateSetupBlock("bash", "branchlet")
       const dateMatch = block.match(/# Branchlet setup: added on (\d{4}-\d{2}-\d{2})/)
@@ -107,6 +151,77 @@ describe("ShellIntegrationService", () => {
       expect(block).toContain("--from-wrapper")
     })
 
+    test("bash completions should ask branchlet for dynamic values", () => {
+      const block = generateSetupBlock("bash", "branchlet")
+      expect(block).toContain('command branchlet __complete "$1" 2>/dev/null')
+      expect(block).toContain("-n|--name)")
+      expect(block).toContain("_branchlet_complete_values worktrees")
+      expect(block).toContain("-s|--source|-b|--branch)")
+      expect(block).toContain("_branchlet_complete_values branches")
+      expect(block).toContain("_branchlet_complete_values worktree-paths")
+      expect(block).toContain("_branchlet_complete_values config-keys")
+      expect(block).toContain("_branchlet_complete_values profiles")
+    })
+
+    test("bash completions should complete non-interactive options per command", () => {
+      const block = generateSetupBlock("bash", "branchlet")
+      expect(block).toContain('create) options="--name --source --branch --pr --profile --var --reuse-local --json"')
+      expect(block).toContain('delete) options="--name --path --force --json"')
+      expect(block).toContain('sync) options="--from --to --all --overwrite --dry-run --json"')
+      expect(block).toContain('options="--branch --json"')
+    })
+
+    test("completions should offer worktrees for move", () => {
+      expect(generateSetupBlock("bash", "branchlet")).toContain("    move)")
+      expect(generateFishCompletionsBlock("branchlet")).toContain(
+        '-n "__fish_seen_subcommand_from move; and test (count (commandline -opc)) -eq 2" -a "(command branchlet __complete worktrees 2>/dev/null)"'
+      )
+    })
+
+    test("completions should offer the shell subcommand and its actions", () => {
+      const bash = generateSetupBlock("bash", "branchlet")
+      expect(bash).toContain("cd switch shell settings")
+      expect(bash).toContain('options="status install uninstall print"')
+      expect(bash).toContain('options="zsh bash fish"')
+
+      const zsh = generateSetupBlock("zsh", "branchlet")
+      expect(zsh).toContain("'shell:Install, uninstall, check or print shell integration'")
+      expect(zsh).toContain("compadd status install uninstall print")
+
+      const fish = generateFishCompletionsBlock("branchlet")
+      expect(fish).toContain("-n __fish_use_subcommand -a shell")
+      expect(fish).toContain(
+        '-n "__fish_seen_subcommand_from shell; and not __fish_seen_subcommand_from status install uninstall print" -a "status install uninstall print"'
+      )
+    })
+
+    test("zsh completions should ask branchlet for dynamic values", () => {
+      const block = generateSetupBlock("zsh", "branchlet")
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: testing shell variable output
+      expect(block).toContain('values=(${(f)"$(command branchlet __complete $1 2>/dev/null)"})')
+      expect(block).toContain("'(-n --name)'{-n,--name}'[Worktree directory name]:name:->name'")
+      expect(block).toContain("'(-s --source)'{-s,--source}'[Source branch]:branch:->branch'")
+      expect(block).toContain("'(-p --path)'{-p,--path}'[Worktree path]:path:->path'")
+      expect(block).toContain("'--json[Output as JSON]'")
+      expect(block).toContain("[[ $line[1] == delete ]] && _branchlet_values worktrees")
+      expect(block).toContain("_branchlet_values branches")
+      expect(block).toContain("_branchlet_values config-keys")
+      expect(block).toContain("_branchlet_values profiles")
+    })
+
+    test("fish completions should ask branchlet for dynamic values", () => {
+      const block = generateFishCompletionsBlock("branchlet")
+      expect(block).toContain(
+        '-n "__fish_seen_subcommand_from delete" -s n -l name -x -a "(command branchlet __complete worktrees 2>/dev/null)"'
+      )
+      expect(block).toContain(
+        '-n "__fish_seen_subcommand_from create" -s s -l source -x -a "(command branchlet __complete branches 2>/dev/null)"'
+      )
+      expect(block).toContain("__complete worktree-paths")
+      expect(block).toContain("__complete config-keys")
+      expect(block).toContain("-l profile -x -a \"(command branchlet __complete profiles 2>/dev/null)\"")
+    })
+
     test("bash template escaping should produce valid shell syntax", () => {
       const block = generateSetupBlock("bash", "branchlet")
       // Template literal \${...} should produce literal ${...} in output
@@ -124,6 +239,57 @@ describe("ShellIntegrationService", () => {
       expect(block).not.toContain("\\${")
     })
 
+    test("should include the fish wrapper function", () => {
+      const block = generateSetupBlock("fish", "branchlet")
+      const lines = block.split("\n")
+      expect(lines[0]).toContain(WRAPPER_SIGNATURE)
+      expect(lines[lines.length - 1]).toBe(SETUP_END_MARKER)
+      expect(block).toContain("function branchlet")
+      // env can't run the command builtin, so it calls the executable directly
+      expect(block).toContain("(env FORCE_COLOR=3 branchlet --from-wrapper)")
+      expect(block).not.toContain("env FORCE_COLOR=3 command")
+      expect(block).toContain('builtin cd "$dir"')
+      expect(block).toContain("command branchlet $argv")
+    })
+
+    test("fish wrapper should not contain POSIX shell syntax", () => {
+      const block = generateSetupBlock("fish", "branchlet")
+      expect(block).not.toContain("branchlet() {")
+      expect(block).not.toContain("$#")
+      expect(block).not.toContain("$(")
+      expect(block).not.toContain("&&")
+      expect(block).not.toContain("COMPREPLY")
+      expect(block).not.toContain("compdef")
+      // Every block opened by function/if is closed by end
+      const opened = lines(block).filter((l) => /^(function|if) /.test(l.trim())).length
+      const closed = lines(block).filter((l) => l.trim() === "end").length
+      expect(closed).toBe(opened)
+    })
+
+    test("should use custom command name in fish wrapper", () => {
+      const block = generateSetupBlock("fish", "myapp")
+      expect(block).toContain("function myapp")
+      expect(block).toContain("env FORCE_COLOR=3 myapp --from-wrapper")
+      expect(block).toContain("command myapp $argv")
+    })
+
+    test("fish completions should complete subcommands and flags", () => {
+      const block = generateFishCompletionsBlock("branchlet")
+      const blockLines = lines(block)
+      expect(blockLines[0]).toContain(WRAPPER_SIGNATURE)
+      expect(blockLines[blockLines.length - 1]).toBe(SETUP_END_MARKER)
+      expect(block).toContain('-n __fish_use_subcommand -a create -d "Create a new worktree"')
+      expect(block).toContain('-n __fish_use_subcommand -a settings -d "Manage configuration"')
+      expect(block).toContain("-s h -l help")
+      expect(block).toContain("-s v -l version")
+      expect(block).toContain('-s m -l mode -x -a "menu create list delete settings"')
+      expect(block).toContain("-l from-wrapper")
+      // Everything between the markers is a complete command for this command name
+      for (const line of blockLines.slice(1, -1)) {
+        expect(line.startsWith("complete -c branchlet ")).toBe(true)
+      }
+    })
+
     test("zsh template escaping should produce valid shell syntax", () => {
       const block = generateSetupBlock("zsh", "branchlet")
       // Backslash line continuations should be single \
@@ -346,9 +512,16 @@ describe("ShellIntegrationService", () => {
       process.env.SHELL = originalShell
     })
 
-    test("should return unknown for other shells", () => {
+    test("should detect fish", () => {
       const originalShell = process.env.SHELL
       process.env.SHELL = "/usr/bin/fish"
+      expect(detectShell()).toBe("fish")
+      process.env.SHELL = originalShell
+    })
+
+    test("should return unknown for other shells", () => {
+      const originalShell = process.env.SHELL
+      process.env.SHELL = "/bin/tcsh"
       expect(detectShell()).toBe("unknown")
       process.env.SHELL = originalShell
     })
@@ -372,8 +545,190 @@ describe("ShellIntegrationService", () => {
       expect(path).toContain(".bashrc")
     })
 
+    test("should return the autoloaded function file for fish", () => {
+      expect(getConfigPath("fish")).toEndWith(join(".config", "fish", "functions", "branchlet.fish"))
+      expect(getConfigPath("fish", "myapp")).toEndWith(join("functions", "myapp.fish"))
+      expect(getFishCompletionsPath()).toEndWith(
+        join(".config", "fish", "completions", "branchlet.fish")
+      )
+    })
+
     test("should return null for unknown shell", () => {
       expect(getConfigPath("unknown")).toBeNull()
     })
   })
+
+  describe("install/remove lifecycle", () => {
+    let home: string
+    let homedirSpy: Mock<typeof os.homedir>
+    let originalShell: string | undefined
+
+    beforeEach(() => {
+      home = mkdtempSync(join(os.tmpdir(), "branchlet-shell-"))
+      homedirSpy = spyOn(os, "homedir").mockReturnValue(home)
+      originalShell = process.env.SHELL
+    })
+
+    afterEach(() => {
+      homedirSpy.mockRestore()
+      process.env.SHELL = originalShell
+      rmSync(home, { recursive: true, force: true })
+    })
+
+    test("fish install creates the function and completion files", async () => {
+      process.env.SHELL = "/usr/bin/fish"
+      expect((await detectShellIntegration()).isInstalled).toBe(false)
+
+      await installShellIntegration("fish")
+
+      const functionFile = join(home, ".config", "fish", "functions", "branchlet.fish")
+      const completionsFile = join(home, ".config", "fish", "completions", "branchlet.fish")
+      expect(readFileSync(functionFile, "utf-8")).toContain("function branchlet")
+      expect(readFileSync(completionsFile, "utf-8")).toContain("complete -c branchlet")
+
+      const status = await detectShellIntegration()
+      expect(status).toEqual({
+        isInstalled: true,
+        shell: "fish",
+        configPath: functionFile,
+        installedVersion: SHELL_INTEGRATION_VERSION,
+        needsUpgrade: false,
+      })
+    })
+
+    test("fish integration without its completions file needs an upgrade", async () => {
+      await installShellIntegration("fish")
+      rmSync(getFishCompletionsPath())
+
+      const status = await detectShellIntegration("fish")
+      expect(status.needsUpgrade).toBe(true)
+      expect(status.reason).toContain("Fish completions are missing")
+    })
+
+    test("fish reinstall replaces the previous block", async () => {
+      await installShellIntegration("fish")
+      await installShellIntegration("fish")
+
+      const content = readFileSync(getConfigPath("fish") ?? "", "utf-8")
+      expect(content.split(WRAPPER_SIGNATURE)).toHaveLength(2)
+    })
+
+    test("fish remove deletes files that only held the integration", async () => {
+      await installShellIntegration("fish")
+      await removeShellIntegration("fish")
+
+      expect(existsSync(getConfigPath("fish") ?? "")).toBe(false)
+      expect(existsSync(getFishCompletionsPath())).toBe(false)
+    })
+
+    test("bash remove keeps the rest of the rc file", async () => {
+      const rcFile = join(home, ".bashrc")
+      writeFileSync(rcFile, "export EDITOR=vim\n")
+
+      await installShellIntegration("bash")
+      expect(readFileSync(rcFile, "utf-8")).toContain("complete -F _branchlet_completions")
+
+      await removeShellIntegration("bash")
+      const content = readFileSync(rcFile, "utf-8")
+      expect(content).toContain("export EDITOR=vim")
+      expect(content).not.toContain(WRAPPER_SIGNATURE)
+    })
+
+    test("should back up existing files before every rewrite", async () => {
+      const rcFile = join(home, ".zshrc")
+      writeFileSync(rcFile, "export EDITOR=vim\n")
+
+      const installed = await installShellIntegration("zsh")
+      expect(installed.files).toEqual([rcFile])
+      expect(installed.backups).toHaveLength(1)
+      expect(installed.backups[0]).toStartWith(`${rcFile}.branchlet-backup-`)
+      expect(readFileSync(installed.backups[0] as string, "utf-8")).toBe("export EDITOR=vim\n")
+
+      const withBlock = readFileSync(rcFile, "utf-8")
+      const removed = await removeShellIntegration("zsh")
+      expect(removed.backups).toHaveLength(1)
+      expect(readFileSync(removed.backups[0] as string, "utf-8")).toBe(withBlock)
+    })
+
+    test("should keep the original backup across later rewrites", async () => {
+      const rcFile = join(home, ".zshrc")
+      writeFileSync(rcFile, "export EDITOR=vim\n")
+
+      const first = await installShellIntegration("zsh")
+      const second = await installShellIntegration("zsh")
+      await removeShellIntegration("zsh")
+
+      expect(second.backups[0]).not.toBe(first.backups[0])
+      expect(readFileSync(first.backups[0] as string, "utf-8")).toBe("export EDITOR=vim\n")
+      const backups = readdirSync(home).filter((file) =>
+        file.startsWith(".zshrc.branchlet-backup-")
+      )
+      expect(backups).toHaveLength(3)
+    })
+
+    test("should not back up files it creates", async () => {
+      const installed = await installShellIntegration("bash")
+      expect(installed.backups).toEqual([])
+      expect(readdirSync(home).some((file) => file.includes(".branchlet-backup"))).toBe(false)
+    })
+
+    test("should flag an unstamped block as outdated and upgrade it", async () => {
+      const rcFile = join(home, ".zshrc")
+      writeFileSync(
+        rcFile,
+        "export EDITOR=vim\n\n# Branchlet setup: added on 2025-01-01\nbranchlet() { }\n# End Branchlet setup\n"
+      )
+
+      const before = await detectShellIntegration("zsh")
+      expect(before.isInstalled).toBe(true)
+      expect(before.installedVersion).toBe(1)
+      expect(before.needsUpgrade).toBe(true)
+      expect(before.reason).toContain(`v${SHELL_INTEGRATION_VERSION}`)
+
+      await installShellIntegration("zsh")
+      const after = await detectShellIntegration("zsh")
+      expect(after.needsUpgrade).toBe(false)
+      expect(readFileSync(rcFile, "utf-8")).toStartWith("export EDITOR=vim\n\n# Branchlet setup")
+    })
+
+    test("should repair duplicate blocks", async () => {
+      const rcFile = join(home, ".bashrc")
+      const block = generateSetupBlock("bash", "branchlet")
+      writeFileSync(rcFile, `# before\n\n${block}\n\n${block}\n`)
+      expect((await detectShellIntegration("bash")).needsUpgrade).toBe(true)
+
+      await installShellIntegration("bash")
+      expect(readFileSync(rcFile, "utf-8").split(WRAPPER_SIGNATURE)).toHaveLength(2)
+      expect((await detectShellIntegration("bash")).needsUpgrade).toBe(false)
+
+      await removeShellIntegration("bash")
+      expect(readFileSync(rcFile, "utf-8")).not.toContain(WRAPPER_SIGNATURE)
+    })
+  })
+
+  describe("inspectSetupBlock", () => {
+    test("should read the version stamp of a current block", () => {
+      const result = inspectSetupBlock(`# before\n${generateSetupBlock("zsh", "branchlet")}\n`)
+      expect(result).toEqual({ version: SHELL_INTEGRATION_VERSION })
+    })
+
+    test("should treat blocks without a stamp as version 1", () => {
+      const content = "# Branchlet setup: added on 2025-01-01\nbranchlet() { }\n# End Branchlet setup"
+      expect(inspectSetupBlock(content)).toEqual({ version: 1 })
+    })
+
+    test("should report a block without its end marker", () => {
+      const content = "# Branchlet setup: added on 2025-01-01\nbranchlet() {\n  echo\n}"
+      expect(inspectSetupBlock(content).problem).toContain("# End Branchlet setup")
+    })
+
+    test("should report duplicate blocks", () => {
+      const block = generateSetupBlock("bash", "branchlet")
+      expect(inspectSetupBlock(`${block}\n${block}`).problem).toContain("Found 2 Branchlet blocks")
+    })
+  })
 })
+
+function lines(block: string): string[] {
+  return block.split("\n")
+}
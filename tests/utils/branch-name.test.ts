@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test"
+import {
+  getPromptedBranchVariables,
+  parseVariableAssignments,
+  renderBranchName,
+  validateBranchNameConvention,
+} from "../../src/utils/branch-name.js"
+
+describe("getPromptedBranchVariables", () => {
+  test("should leave out derived variables", () => {
+    expect(getPromptedBranchVariables("feat/$TICKET-$SLUG")).toEqual(["TICKET"])
+    expect(getPromptedBranchVariables("$USER/$NAME")).toEqual([])
+  })
+
+  test("should find braced variables and skip built-ins", () => {
+    expect(getPromptedBranchVariables("${TYPE|lower}/$DATE-${env.USER}-$lower")).toEqual(["TYPE"])
+  })
+})
+
+describe("renderBranchName", () => {
+  test("should substitute whole variable names", () => {
+    expect(
+      renderBranchName("$USER/$TYPE/$NAME", { USER: "ana", TYPE: "feat", NAME: "login" })
+    ).toBe("ana/feat/login")
+    expect(renderBranchName("$NAME_X-$NAME", { NAME: "login" })).toBe("$NAME_X-login")
+  })
+})
+
+describe("validateBranchNameConvention", () => {
+  test("should apply git's rules first", () => {
+    expect(validateBranchNameConvention("feat/a..b", "^feat/")).toBe(
+      "Branch name cannot contain .. or //"
+    )
+  })
+
+  test("should require a match for the pattern", () => {
+    expect(validateBranchNameConvention("feat/login", "^(feat|fix)/")).toBeUndefined()
+    expect(validateBranchNameConvention("login", "^(feat|fix)/")).toBe(
+      "Branch name must match ^(feat|fix)/"
+    )
+  })
+
+  test("should accept any valid name without a pattern", () => {
+    expect(validateBranchNameConvention("login", "")).toBeUndefined()
+  })
+})
+
+describe("parseVariableAssignments", () => {
+  test("should split NAME=value pairs", () => {
+    expect(parseVariableAssignments(["TYPE=feat", "TICKET=ABC-1=2", "EMPTY="])).toEqual({
+      variables: { TYPE: "feat", TICKET: "ABC-1=2", EMPTY: "" },
+      invalid: [],
+    })
+  })
+
+  test("should report malformed assignments", () => {
+    expect(parseVariableAssignments(["type=feat", "TYPE"]).invalid).toEqual(["type=feat", "TYPE"])
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test"
+import { mapWithConcurrency } from "../../src/utils/concurrency.js"
+
+describe("mapWithConcurrency", () => {
+  test("should preserve input order in results", async () => {
+    const result = await mapWithConcurrency([30, 10, 20], 3, async (delay, index) => {
+      await new Promise((resolve) => setTimeout(resolve, delay))
+      return index
+    })
+    expect(result).toEqual([0, 1, 2])
+  })
+
+  test("should never exceed the concurrency limit", async () => {
+    let inFlight = 0
+    let peak = 0
+
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      inFlight++
+      peak = Math.max(peak, inFlight)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      inFlight--
+    })
+
+    expect(peak).toBe(3)
+  })
+
+  test("should handle empty input", async () => {
+    const result = await mapWithConcurrency([], 4, async (item) => item)
+    expect(result).toEqual([])
+  })
+
+  test("should propagate mapper errors", async () => {
+    await expect(
+      mapWithConcurrency([1, 2], 2, async (item) => {
+        if (item === 2) throw new Error("boom")
+        return item
+      })
+    ).rejects.toThrow("boom")
+  })
+})
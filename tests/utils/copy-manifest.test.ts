@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test"
+import { evaluateCopyManifest, parseCopyManifest } from "../../src/utils/copy-manifest.js"
+
+describe("copy-manifest", () => {
+  describe("parseCopyManifest", () => {
+    test("should skip comments and blank lines", () => {
+      const rules = parseCopyManifest("# local settings\n\n.env*\n   \n")
+      expect(rules.map((rule) => rule.source)).toEqual([".env*"])
+    })
+
+    test("should anchor patterns that contain a slash", () => {
+      const rules = parseCopyManifest(".env\n/config.json\nconfig/local.json")
+      expect(rules.map((rule) => rule.glob)).toEqual([
+        "**/.env",
+        "config.json",
+        "config/local.json",
+      ])
+    })
+
+    test("should read negation, directory-only and escaped lines", () => {
+      const [negated, directory, escaped] = parseCopyManifest("!.env.production\n.venv/\n\\#notes")
+      expect(negated).toMatchObject({ negate: true, glob: "**/.env.production" })
+      expect(directory).toMatchObject({ directoryOnly: true, glob: "**/.venv" })
+      expect(escaped).toMatchObject({ negate: false, glob: "**/#notes" })
+    })
+  })
+
+  describe("evaluateCopyManifest", () => {
+    test("should let the last matching line win", () => {
+      const rules = parseCopyManifest(".env*\n!.env.production\n.env.production.local")
+      expect(evaluateCopyManifest(rules, "apps/web/.env", false)?.negate).toBe(false)
+      expect(evaluateCopyManifest(rules, ".env.production", false)?.negate).toBe(true)
+      expect(evaluateCopyManifest(rules, ".env.production.local", false)?.negate).toBe(false)
+      expect(evaluateCopyManifest(rules, "README.md", false)).toBeUndefined()
+    })
+
+    test("should apply directory rules to everything inside", () => {
+      const rules = parseCopyManifest("config/\n!config/secret.json")
+      expect(evaluateCopyManifest(rules, "config/app.json", false)?.negate).toBe(false)
+      expect(evaluateCopyManifest(rules, "config/secret.json", false)?.negate).toBe(true)
+    })
+
+    test("should not re-include paths inside an excluded directory", () => {
+      const rules = parseCopyManifest("!cache/\ncache/keep.txt")
+      expect(evaluateCopyManifest(rules, "cache/keep.txt", false)?.negate).toBe(true)
+    })
+
+    test("should only match directories with a trailing slash", () => {
+      const rules = parseCopyManifest(".venv/")
+      expect(evaluateCopyManifest(rules, ".venv", true)).toBeDefined()
+      expect(evaluateCopyManifest(rules, ".venv", false)).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test"
+import { parseDuration } from "../../src/utils/duration.js"
+
+describe("parseDuration", () => {
+  test("should parse supported units", () => {
+    expect(parseDuration("12h")).toBe(12 * 60 * 60 * 1000)
+    expect(parseDuration("30d")).toBe(30 * 24 * 60 * 60 * 1000)
+    expect(parseDuration("2w")).toBe(14 * 24 * 60 * 60 * 1000)
+    expect(parseDuration("6mo")).toBe(180 * 24 * 60 * 60 * 1000)
+    expect(parseDuration("1y")).toBe(365 * 24 * 60 * 60 * 1000)
+  })
+
+  test("should tolerate surrounding whitespace", () => {
+    expect(parseDuration(" 7d ")).toBe(7 * 24 * 60 * 60 * 1000)
+  })
+
+  test("should reject invalid input", () => {
+    expect(parseDuration("")).toBeNull()
+    expect(parseDuration("30")).toBeNull()
+    expect(parseDuration("d")).toBeNull()
+    expect(parseDuration("0d")).toBeNull()
+    expect(parseDuration("-5d")).toBeNull()
+    expect(parseDuration("1.5d")).toBeNull()
+    expect(parseDuration("10m")).toBeNull()
+  })
+})
@@ -1,10 +1,16 @@
 import { describe, expect, test } from "bun:test"
 import {
   ConfigError,
+  EXIT_CODES,
   GitWorktreeError,
+  PostCreateCommandError,
+  PostDeleteCommandError,
+  PreDeleteCommandError,
   ValidationError,
   handleGitError,
   getUserFriendlyErrorMessage,
+  getExitCode,
+  toErrorEnvelope,
 } from "../../src/utils/error-handlers.js"
 
 describe("error-handlers", () => {
@@ -64,6 +70,15 @@ describe("error-handlers", () => {
   })
 
   describe("handleGitError", () => {
+    test("should detect missing remote ref error", () => {
+      const stderr = "fatal: couldn't find remote ref refs/pull/42/head"
+
+      const error = handleGitError(stderr, "fetch pull request")
+
+      expect(error).toBeInstanceOf(GitWorktreeError)
+      expect((error as GitWorktreeError).code).toBe("REMOTE_REF_NOT_FOUND")
+    })
+
     test("should detect worktree already exists error", () => {
       const stderr = "fatal: 'test-branch' is already checked out at '/path/to/worktree'"
 
@@ -202,6 +217,12 @@ describe("error-handlers", () => {
   })
 
   describe("getUserFriendlyErrorMessage", () => {
+    test("should return friendly message for GitWorktreeError with REMOTE_REF_NOT_FOUND code", () => {
+      const error = new GitWorktreeError("Some error", "REMOTE_REF_NOT_FOUND")
+      const result = getUserFriendlyErrorMessage(error)
+      expect(result).toBe("The requested ref does not exist on the remote.")
+    })
+
     test("should return friendly message for GitWorktreeError with ALREADY_EXISTS code", () => {
       const error = new GitWorktreeError("Some error", "ALREADY_EXISTS")
       const result = getUserFriendlyErrorMessage(error)
@@ -274,4 +295,77 @@ describe("error-handlers", () => {
       expect(result).toBe("Unexpected error: ")
     })
   })
+
+  describe("getExitCode", () => {
+    test("should map each git error code to its own exit code", () => {
+      expect(getExitCode(new GitWorktreeError("exists", "ALREADY_EXISTS"))).toBe(11)
+      expect(getExitCode(new GitWorktreeError("checked out", "BRANCH_CHECKED_OUT"))).toBe(14)
+      expect(getExitCode(new GitWorktreeError("dirty", "UNCOMMITTED_CHANGES"))).toBe(17)
+    })
+
+    test("should give git error codes distinct exit codes", () => {
+      const values = Object.values(EXIT_CODES)
+      expect(new Set(values).size).toBe(values.length)
+    })
+
+    test("should fall back to GIT_OPERATION_FAILED for unknown git codes", () => {
+      expect(getExitCode(new GitWorktreeError("weird", "SOMETHING_NEW"))).toBe(
+        EXIT_CODES.GIT_OPERATION_FAILED
+      )
+      expect(getExitCode(new GitWorktreeError("no code"))).toBe(EXIT_CODES.GIT_OPERATION_FAILED)
+    })
+
+    test("should map validation and config errors", () => {
+      expect(getExitCode(new ValidationError("bad", "name"))).toBe(EXIT_CODES.VALIDATION_ERROR)
+      expect(getExitCode(new ConfigError("bad"))).toBe(EXIT_CODES.CONFIG_ERROR)
+    })
+
+    test("should map post-create command failures", () => {
+      const error = new PostCreateCommandError("1 post-create command(s) failed", ["npm ci"])
+      expect(getExitCode(error)).toBe(EXIT_CODES.POST_CREATE_FAILED)
+      expect(toErrorEnvelope(error).code).toBe("POST_CREATE_FAILED")
+      expect(error.failedCommands).toEqual(["npm ci"])
+    })
+
+    test("should map delete hook failures", () => {
+      expect(getExitCode(new PreDeleteCommandError("aborted"))).toBe(EXIT_CODES.PRE_DELETE_FAILED)
+      expect(getExitCode(new PostDeleteCommandError("failed"))).toBe(EXIT_CODES.POST_DELETE_FAILED)
+    })
+
+    test("should return 1 for unexpected errors", () => {
+      expect(getExitCode(new Error("boom"))).toBe(1)
+      expect(getExitCode("boom")).toBe(1)
+    })
+  })
+
+  describe("toErrorEnvelope", () => {
+    test("should include git output for git errors", () => {
+      const error = handleGitError("fatal: 'main' is already checked out at '/tmp'", "add")
+
+      expect(toErrorEnvelope(error)).toEqual({
+        code: "BRANCH_CHECKED_OUT",
+        message: "Branch is already checked out in another worktree",
+        gitOutput: "fatal: 'main' is already checked out at '/tmp'",
+        field: null,
+      })
+    })
+
+    test("should include the field for validation errors", () => {
+      expect(toErrorEnvelope(new ValidationError("Missing name", "name"))).toEqual({
+        code: "VALIDATION_ERROR",
+        message: "Missing name",
+        gitOutput: null,
+        field: "name",
+      })
+    })
+
+    test("should handle non-Error values", () => {
+      expect(toErrorEnvelope("boom")).toEqual({
+        code: "UNEXPECTED_ERROR",
+        message: "boom",
+        gitOutput: null,
+        field: null,
+      })
+    })
+  })
 })
@@ -1,8 +1,14 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
 import { describe, expect, test } from "bun:test"
 import {
   fileExists,
+  findIgnoreRule,
   isDirectory,
   matchFiles,
+  matchFilesWithExclusions,
+  matchPathList,
   shouldIgnoreFile,
 } from "../../src/utils/file-patterns.js"
 
@@ -246,6 +252,99 @@ describe("file-patterns", () => {
     })
   })
 
+  describe("matchFilesWithExclusions", () => {
+    const withTree = async (run: (dir: string) => Promise<void>) => {
+      const dir = mkdtempSync(join(tmpdir(), "branchlet-patterns-"))
+      mkdirSync(join(dir, "app"), { recursive: true })
+      mkdirSync(join(dir, "node_modules", "pkg"), { recursive: true })
+      mkdirSync(join(dir, "dist"), { recursive: true })
+      writeFileSync(join(dir, ".env"), "A=1")
+      writeFileSync(join(dir, "app", ".env.local"), "B=2")
+      writeFileSync(join(dir, "node_modules", "pkg", ".env"), "C=3")
+      writeFileSync(join(dir, "dist", ".env"), "D=4")
+      try {
+        await run(dir)
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    }
+
+    test("should return the same matches as matchFiles", async () => {
+      await withTree(async (dir) => {
+        const ignores = ["**/node_modules/**", "dist/.env"]
+        const result = await matchFilesWithExclusions(dir, ".env*", ignores)
+        expect(result.matches).toEqual(await matchFiles(dir, [".env*"], ignores))
+      })
+    })
+
+    test("should attribute excluded paths to the ignore rule", async () => {
+      await withTree(async (dir) => {
+        const result = await matchFilesWithExclusions(dir, ".env*", [
+          "**/node_modules/**",
+          "dist/.env",
+        ])
+        expect(result.matches).toEqual([".env", "app/.env.local"])
+        expect(result.excluded).toEqual([{ path: "dist/.env", ignore: "dist/.env" }])
+      })
+    })
+
+    test("should report an ignored directory only when the pattern matches it", async () => {
+      await withTree(async (dir) => {
+        const result = await matchFilesWithExclusions(dir, "node_modules", ["**/node_modules/**"])
+        expect(result.matches).toEqual([])
+        expect(result.excluded).toEqual([{ path: "node_modules", ignore: "**/node_modules/**" }])
+      })
+    })
+  })
+
+  describe("matchPathList", () => {
+    test("should match listed files and directories", async () => {
+      const paths = [".env", "apps/web/.env.local", "node_modules/", "src/app.ts"]
+      const result = await matchPathList("/nonexistent", paths, ".env*")
+      expect(result.matches).toEqual([".env", "apps/web/.env.local"])
+    })
+
+    test("should only match a listed directory as a whole", async () => {
+      const paths = ["node_modules/", ".venv/"]
+      expect((await matchPathList("/nonexistent", paths, ".venv")).matches).toEqual([".venv"])
+      expect((await matchPathList("/nonexistent", paths, "**/*.js")).matches).toEqual([])
+    })
+
+    test("should search a listed directory the pattern starts with", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "branchlet-path-list-"))
+      try {
+        mkdirSync(join(dir, "cache", "nested"), { recursive: true })
+        writeFileSync(join(dir, "cache", "nested", "data.json"), "{}")
+        const result = await matchPathList(dir, ["cache/"], "cache/**/*.json")
+        expect(result.matches).toEqual(["cache/nested/data.json"])
+      } finally {
+        rmSync(dir, { recursive: true, force: true })
+      }
+    })
+
+    test("should apply ignore patterns like glob does", async () => {
+      const paths = ["node_modules/", "build/.env"]
+      const result = await matchPathList("/nonexistent", paths, "*", [
+        "**/node_modules/**",
+        "build/.env",
+      ])
+      expect(result.matches).toEqual([])
+      expect(result.excluded).toEqual([
+        { path: "build/.env", ignore: "build/.env" },
+        { path: "node_modules", ignore: "**/node_modules/**" },
+      ])
+    })
+  })
+
+  describe("findIgnoreRule", () => {
+    test("should return the first matching pattern", () => {
+      const ignores = ["**/*.log", "**/debug.*"]
+      expect(findIgnoreRule("logs/debug.log", ignores)).toBe("**/*.log")
+      expect(findIgnoreRule("debug.txt", ignores)).toBe("**/debug.*")
+      expect(findIgnoreRule("app.ts", ignores)).toBeUndefined()
+    })
+  })
+
   describe("performance and edge cases", () => {
     test("should handle large file lists efficiently", async () => {
       // Test with patterns that might match many files
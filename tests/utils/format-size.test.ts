@@ -0,0 +1,19 @@
+import { describe, expect, test } from "bun:test"
+import { formatSize } from "../../src/utils/format-size.js"
+
+describe("formatSize", () => {
+  test("should keep bytes whole", () => {
+    expect(formatSize(0)).toBe("0 B")
+    expect(formatSize(1023)).toBe("1023 B")
+  })
+
+  test("should use one decimal below ten units", () => {
+    expect(formatSize(1536)).toBe("1.5 KB")
+    expect(formatSize(5 * 1024 * 1024)).toBe("5 MB")
+  })
+
+  test("should round larger values", () => {
+    expect(formatSize(12.4 * 1024 * 1024)).toBe("12 MB")
+    expect(formatSize(3 * 1024 ** 4)).toBe("3 TB")
+  })
+})
@@ -0,0 +1,24 @@
+import { describe, expect, test } from "bun:test"
+import { fuzzyMatchRank } from "../../src/utils/fuzzy-match.js"
+
+describe("fuzzyMatchRank", () => {
+  test("should rank exact matches first", () => {
+    expect(fuzzyMatchRank("feature-x", "feature-x")).toBe(0)
+    expect(fuzzyMatchRank("Feature-X", "feature-x")).toBe(0)
+  })
+
+  test("should rank prefixes above substrings", () => {
+    expect(fuzzyMatchRank("feat", "feature-x")).toBe(1)
+    expect(fuzzyMatchRank("ure", "feature-x")).toBe(2)
+  })
+
+  test("should match characters in order", () => {
+    expect(fuzzyMatchRank("fx", "feature-x")).toBe(3)
+    expect(fuzzyMatchRank("xf", "feature-x")).toBeNull()
+  })
+
+  test("should not reuse a character for repeated query characters", () => {
+    expect(fuzzyMatchRank("ee", "feature")).toBe(3)
+    expect(fuzzyMatchRank("eee", "feature")).toBeNull()
+  })
+})
@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test"
+import { appendOutputTail, visibleOutputTail } from "../../src/utils/output-tail.js"
+
+describe("appendOutputTail", () => {
+  test("should split chunks into lines and keep the partial line last", () => {
+    const lines = appendOutputTail([], "one\ntwo\nthr", 5)
+    expect(lines).toEqual(["one", "two", "thr"])
+    expect(appendOutputTail(lines, "ee\n", 5)).toEqual(["one", "two", "three", ""])
+  })
+
+  test("should keep only the last maxLines complete lines", () => {
+    const lines = appendOutputTail([], "1\n2\n3\n4\n", 2)
+    expect(visibleOutputTail(lines, 2)).toEqual(["3", "4"])
+  })
+
+  test("should let carriage returns overwrite a line", () => {
+    let lines = appendOutputTail([], "progress 10%\rprogress 50%", 5)
+    expect(visibleOutputTail(lines, 5)).toEqual(["progress 50%"])
+
+    lines = appendOutputTail(lines, "\rprogress 100%\r\ndone\n", 5)
+    expect(visibleOutputTail(lines, 5)).toEqual(["progress 100%", "done"])
+  })
+
+  test("should treat CRLF as a line break", () => {
+    expect(visibleOutputTail(appendOutputTail([], "a\r\nb\r\n", 5), 5)).toEqual(["a", "b"])
+  })
+})
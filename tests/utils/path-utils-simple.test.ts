@@ -3,6 +3,7 @@ import {
   getRepositoryBaseName,
   getRepositoryRoot,
   getWorktreePath,
+  parsePullRequestNumber,
   resolveTemplate,
   validateBranchName,
   validateDirectoryName,
@@ -50,6 +51,7 @@ describe("path-utils", () => {
       WORKTREE_PATH: "/path/to/worktree",
       BRANCH_NAME: "feature/awesome",
       SOURCE_BRANCH: "main",
+      REPO_ROOT: "/path/to/my-project",
     }
 
     test("should resolve all template variables", () => {
@@ -90,6 +92,16 @@ describe("path-utils", () => {
       expect(result).toBe(expected)
     })
 
+    test("should not replace the start of a longer variable name", () => {
+      const result = resolveTemplate("$BASE_PATH_X/$BASE_PATH", mockVariables)
+      expect(result).toBe("$BASE_PATH_X/my-project")
+    })
+
+    test("should slugify branch names on request", () => {
+      const result = resolveTemplate("${BASE_PATH}-${BRANCH_NAME|slug}", mockVariables)
+      expect(result).toBe("my-project-feature-awesome")
+    })
+
     test("should handle empty template", () => {
       const result = resolveTemplate("", mockVariables)
       expect(result).toBe("")
@@ -241,6 +253,17 @@ describe("path-utils", () => {
       expect(result).toContain("work-dir")
     })
 
+    test("should not nest templates that resolve to absolute paths", () => {
+      const gitRoot = "/home/u/repo"
+
+      expect(getWorktreePath(gitRoot, "feat", "$REPO_ROOT.worktrees")).toBe(
+        "/home/u/repo.worktrees/feat"
+      )
+      expect(getWorktreePath(gitRoot, "feat", "/srv/worktrees/$BASE_PATH")).toBe(
+        "/srv/worktrees/repo/feat"
+      )
+    })
+
     test("should handle root directory git repository", () => {
       const gitRoot = "/"
       const directoryName = "test"
@@ -263,4 +286,20 @@ describe("path-utils", () => {
       expect(result).toContain("new-work")
     })
   })
+
+  describe("parsePullRequestNumber", () => {
+    test("should parse plain and #-prefixed numbers", () => {
+      expect(parsePullRequestNumber("1234")).toBe(1234)
+      expect(parsePullRequestNumber("#42")).toBe(42)
+      expect(parsePullRequestNumber(" 7 ")).toBe(7)
+    })
+
+    test("should reject non-numeric or non-positive input", () => {
+      expect(parsePullRequestNumber("")).toBeNull()
+      expect(parsePullRequestNumber("abc")).toBeNull()
+      expect(parsePullRequestNumber("0")).toBeNull()
+      expect(parsePullRequestNumber("-3")).toBeNull()
+      expect(parsePullRequestNumber("12a")).toBeNull()
+    })
+  })
 })
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test"
+import { resolvePostCreateDependencies } from "../../src/utils/post-create-graph.js"
+
+describe("resolvePostCreateDependencies", () => {
+  test("should chain entries without needs in list order", () => {
+    const { dependencies, error } = resolvePostCreateDependencies(["a", "b", { run: "c" }])
+
+    expect(error).toBeUndefined()
+    expect(dependencies.map((d) => d.after)).toEqual([[], [0], [0, 1]])
+    expect(dependencies.every((d) => d.needs.length === 0)).toBe(true)
+  })
+
+  test("should make entries without needs wait for concurrent entries before them", () => {
+    const { dependencies } = resolvePostCreateDependencies([
+      "bun install",
+      { run: "docker pull", needs: [] },
+      "codegen",
+    ])
+
+    expect(dependencies[2]).toEqual({ needs: [], after: [0, 1] })
+  })
+
+  test("should resolve needs by name and drop the implicit ordering", () => {
+    const { dependencies } = resolvePostCreateDependencies([
+      { run: "bun install", name: "install" },
+      { run: "bun run codegen", needs: ["install"] },
+      { run: "docker compose pull", needs: [] },
+    ])
+
+    expect(dependencies).toEqual([
+      { needs: [], after: [] },
+      { needs: [0], after: [] },
+      { needs: [], after: [] },
+    ])
+  })
+
+  test("should reject duplicate names", () => {
+    const { error } = resolvePostCreateDependencies([
+      { run: "a", name: "setup" },
+      { run: "b", name: "setup" },
+    ])
+    expect(error).toContain("duplicate command name 'setup'")
+  })
+
+  test("should reject needs that name no other command", () => {
+    expect(resolvePostCreateDependencies([{ run: "a", needs: ["missing"] }]).error).toContain(
+      "unknown command 'missing'"
+    )
+    expect(
+      resolvePostCreateDependencies([{ run: "a", name: "self", needs: ["self"] }]).error
+    ).toContain("unknown command 'self'")
+  })
+
+  test("should reject cycles, including through list order", () => {
+    expect(
+      resolvePostCreateDependencies([
+        { run: "a", name: "a", needs: ["b"] },
+        { run: "b", name: "b", needs: ["a"] },
+      ]).error
+    ).toContain("depends on itself")
+
+    // b has no needs, so it runs after a, which needs b
+    expect(
+      resolvePostCreateDependencies([
+        { run: "a", needs: ["b"] },
+        { run: "b", name: "b" },
+      ]).error
+    ).toContain("depends on itself")
+  })
+})
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import {
+  getTemplateVariableNames,
+  renderTemplate,
+  slugify,
+  TEMPLATE_VARIABLES,
+  validateTemplate,
+} from "../../src/utils/template.js"
+
+const NOW = new Date(2024, 2, 7, 9, 5, 3)
+
+describe("renderTemplate", () => {
+  const originalUser = process.env.USER
+
+  beforeEach(() => {
+    process.env.USER = "ana"
+    process.env.BRANCHLET_TEMPLATE_TEST = "from-env"
+  })
+
+  afterEach(() => {
+    process.env.USER = originalUser
+    delete process.env.BRANCHLET_TEMPLATE_TEST
+  })
+
+  test("should substitute bare and braced variables", () => {
+    expect(renderTemplate("$BASE_PATH/${BRANCH_NAME}x", { BASE_PATH: "app", BRANCH_NAME: "b" })).toBe(
+      "app/bx"
+    )
+  })
+
+  test("should match names whole and leave unknown ones in place", () => {
+    expect(renderTemplate("$BASE_PATH_X-$BASE_PATH-${OTHER}", { BASE_PATH: "app" })).toBe(
+      "$BASE_PATH_X-app-${OTHER}"
+    )
+  })
+
+  test("should apply filters in order", () => {
+    const variables = { BRANCH_NAME: " Feature/Login_Page " }
+    expect(renderTemplate("${BRANCH_NAME|slug}", variables)).toBe("feature-login-page")
+    expect(renderTemplate("${BRANCH_NAME|trim|upper}", variables)).toBe("FEATURE/LOGIN_PAGE")
+    expect(renderTemplate("${BRANCH_NAME | trim | lower}", variables)).toBe("feature/login_page")
+  })
+
+  test("should provide USER and DATE", () => {
+    expect(renderTemplate("$USER-$DATE", {}, NOW)).toBe("ana-2024-03-07")
+    expect(renderTemplate("${DATE|yyyymmdd-HHMMss}", {}, NOW)).toBe("20240307-090503")
+    expect(renderTemplate("${DATE|dd.mm.yy}", {}, NOW)).toBe("07.03.24")
+  })
+
+  test("should use defaults for empty values", () => {
+    expect(renderTemplate("${SOURCE_BRANCH:-main}", { SOURCE_BRANCH: "" })).toBe("main")
+    expect(renderTemplate("${SOURCE_BRANCH:-main}", { SOURCE_BRANCH: "dev" })).toBe("dev")
+    expect(renderTemplate("${SOURCE_BRANCH:-Main Line|slug}", { SOURCE_BRANCH: "" })).toBe(
+      "main-line"
+    )
+  })
+
+  test("should read environment variables", () => {
+    expect(renderTemplate("${env.BRANCHLET_TEMPLATE_TEST}", {})).toBe("from-env")
+    expect(renderTemplate("${env.BRANCHLET_TEMPLATE_MISSING:-none}", {})).toBe("none")
+  })
+
+  test("should leave shell expressions it doesn't understand alone", () => {
+    expect(renderTemplate("cd ${PWD##*/} && echo $1 $", {})).toBe("cd ${PWD##*/} && echo $1 $")
+    expect(renderTemplate("echo ${BASE_PATH", { BASE_PATH: "app" })).toBe("echo ${BASE_PATH")
+  })
+})
+
+describe("validateTemplate", () => {
+  const pathOptions = { variables: TEMPLATE_VARIABLES, strict: true }
+
+  test("should accept supported syntax", () => {
+    expect(
+      validateTemplate(
+        "$REPO_ROOT/../${BASE_PATH}-${BRANCH_NAME|slug}-${DATE|yyyy-mm-dd}-${env.HOME}",
+        pathOptions
+      )
+    ).toBeUndefined()
+  })
+
+  test("should report unclosed braces", () => {
+    expect(validateTemplate("$BASE_PATH/${BRANCH_NAME", pathOptions)).toBe(
+      "unclosed ${ at position 12"
+    )
+  })
+
+  test("should report unknown filters", () => {
+    expect(validateTemplate("${BRANCH_NAME|camel}", pathOptions)).toBe(
+      "unknown filter 'camel' in ${BRANCH_NAME|camel}; use slug, lower, upper, trim, a date format like yyyy-mm-dd"
+    )
+  })
+
+  test("should report unknown variables in strict mode", () => {
+    expect(validateTemplate("$BASE_PATH_X", pathOptions)).toBe(
+      "unknown variable $BASE_PATH_X; use $BASE_PATH, $WORKTREE_PATH, $BRANCH_NAME, $SOURCE_BRANCH, $REPO_ROOT, $USER, $DATE, or ${env.BASE_PATH_X} for an environment variable"
+    )
+    expect(validateTemplate("${PWD##*/}", pathOptions)).toBe("invalid expression ${PWD##*/}")
+  })
+
+  test("should leave shell variables to commands", () => {
+    const commandOptions = { variables: TEMPLATE_VARIABLES }
+    expect(validateTemplate("cd $HOME && echo ${PWD##*/}", commandOptions)).toBeUndefined()
+    expect(validateTemplate("echo ${HOME|slug}", commandOptions)).toBe(
+      "unknown variable 'HOME' in ${HOME|slug}; filters only apply to template variables"
+    )
+  })
+})
+
+describe("getTemplateVariableNames", () => {
+  test("should list each variable once in order of use", () => {
+    expect(getTemplateVariableNames("$USER/$TYPE/$NAME-$TYPE")).toEqual(["USER", "TYPE", "NAME"])
+  })
+
+  test("should treat longer names as separate variables", () => {
+    expect(getTemplateVariableNames("$NAME_SUFFIX")).toEqual(["NAME_SUFFIX"])
+  })
+
+  test("should include braced variables but not environment variables", () => {
+    expect(getTemplateVariableNames("${TYPE|lower}/${env.HOME}/$NAME")).toEqual(["TYPE", "NAME"])
+  })
+})
+
+describe("slugify", () => {
+  test("should lowercase and collapse separators", () => {
+    expect(slugify("Fix Login -- Redirect!")).toBe("fix-login-redirect")
+    expect(slugify("__API_v2__")).toBe("api-v2")
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test"
+import { DEFAULT_CONFIG } from "../../src/constants/index.js"
+import type { GitBranch } from "../../src/types/index.js"
+import {
+  applyBranchPrefix,
+  applyWorktreeProfile,
+  resolveProfileSourceBranch,
+} from "../../src/utils/worktree-profile.js"
+
+const branch = (name: string, lastUsed: string, localName?: string): GitBranch => ({
+  name,
+  commit: "abc1234",
+  lastUsed: new Date(lastUsed),
+  isCurrent: false,
+  isDefault: false,
+  isRemote: localName !== undefined,
+  ...(localName && { localName }),
+})
+
+describe("applyWorktreeProfile", () => {
+  const config = { ...DEFAULT_CONFIG, postCreateCmd: ["bun install"] }
+
+  test("should replace the overridden keys only", () => {
+    const result = applyWorktreeProfile(config, {
+      postCreateCmd: [],
+      worktreePathTemplate: "$BASE_PATH-review",
+    })
+
+    expect(result.postCreateCmd).toEqual([])
+    expect(result.worktreePathTemplate).toBe("$BASE_PATH-review")
+    expect(result.worktreeCopyPatterns).toEqual(config.worktreeCopyPatterns)
+  })
+
+  test("should splice the configured list in at the inherit marker", () => {
+    const result = applyWorktreeProfile(config, {
+      postCreateCmd: ["...", "bun run build"],
+      worktreeCopyPatterns: [".envrc", "..."],
+    })
+
+    expect(result.postCreateCmd).toEqual(["bun install", "bun run build"])
+    expect(result.worktreeCopyPatterns).toEqual([".envrc", ...config.worktreeCopyPatterns])
+  })
+
+  test("should leave the config untouched for an empty profile", () => {
+    expect(applyWorktreeProfile(config, {})).toEqual(config)
+  })
+})
+
+describe("resolveProfileSourceBranch", () => {
+  const branches = [
+    branch("main", "2024-03-01"),
+    branch("release/1.0", "2024-01-01"),
+    branch("origin/release/1.1", "2024-02-01", "release/1.1"),
+  ]
+
+  test("should return plain branch names unchanged", () => {
+    expect(resolveProfileSourceBranch("develop", branches)).toBe("develop")
+  })
+
+  test("should pick the most recently committed match, including remote branches", () => {
+    expect(resolveProfileSourceBranch("release/*", branches)).toBe("origin/release/1.1")
+    expect(resolveProfileSourceBranch("release/1.0*", branches)).toBe("release/1.0")
+  })
+
+  test("should return undefined when nothing matches", () => {
+    expect(resolveProfileSourceBranch("hotfix/*", branches)).toBeUndefined()
+  })
+})
+
+describe("applyBranchPrefix", () => {
+  test("should prefix branch names", () => {
+    expect(applyBranchPrefix("login", "hotfix/")).toBe("hotfix/login")
+  })
+
+  test("should not prefix twice", () => {
+    expect(applyBranchPrefix("hotfix/login", "hotfix/")).toBe("hotfix/login")
+  })
+
+  test("should leave names alone without a prefix", () => {
+    expect(applyBranchPrefix("login", undefined)).toBe("login")
+  })
+})